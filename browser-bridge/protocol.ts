@@ -0,0 +1,469 @@
+/**
+ * React Grab bridge protocol
+ *
+ * The payloads the browser sends to the VS Code extension (and the events
+ * it gets back), shared by both sides. Copy this file next to
+ * `reactGrabBridge.ts`; it has no dependencies.
+ *
+ * Versions:
+ *   1  — the original payload: `{ domLabel, frames }` plus optional extras.
+ *        Frames need positive `line`/`col`. No `version` field.
+ *   2  — `version: 2`. Adds `sessionId`, `timestamp`, `framework`,
+ *        `domPath`, `outerHTML`, and frames whose position is unknown
+ *        (`line`/`col` null or omitted; stored as 0).
+ *
+ * The server accepts every version in `SUPPORTED_PROTOCOL_VERSIONS` and
+ * reports them (with its capabilities) on `/health`.
+ */
+
+export const PROTOCOL_VERSION = 2;
+export const SUPPORTED_PROTOCOL_VERSIONS: readonly number[] = [1, 2];
+
+/** Features a bridge server may offer; listed on `/health`. */
+export type Capability =
+  | "selection"
+  | "events"
+  | "reveal"
+  | "diagnostic"
+  | "renders"
+  | "snippets"
+  | "snapshot"
+  | "styles"
+  | "windows";
+
+/* ------------------------------------------------------------------ */
+/*  Payload types                                                      */
+/* ------------------------------------------------------------------ */
+
+/** Source text the page saw: `lines[i]` is line `startLine + i` (1-based). */
+export interface SourceContext {
+  startLine: number;
+  lines: string[];
+}
+
+export interface Frame {
+  raw: string;
+  name: string | null;
+  file: string;
+  /** 1-based; 0 when the position is unknown (protocol 2). */
+  line: number;
+  col: number;
+  /** Set when file/line/col were mapped back from a compiled bundle via its source map. */
+  generated?: { file: string; line: number; col: number };
+  /** Source text around `line` as the page saw it (optional). */
+  context?: SourceContext;
+  /** `hashLine()` of the frame's line as the page saw it (optional). */
+  lineHash?: string;
+}
+
+/**
+ * JSON-safe copy of a value. Things JSON can't hold (functions, elements,
+ * DOM nodes, cycles, cut-off branches…) become `{ $rg: kind, … }` placeholders.
+ */
+export type SnapshotValue =
+  | null
+  | boolean
+  | number
+  | string
+  | SnapshotValue[]
+  | { [key: string]: SnapshotValue };
+
+export interface HookSnapshot {
+  /** e.g. "useState", or "hook" when the React build doesn't record hook types. */
+  name: string;
+  value: SnapshotValue;
+}
+
+export interface ComponentSnapshot {
+  component: string | null;
+  props: SnapshotValue;
+  /** Class components only. */
+  state?: SnapshotValue;
+  /** Function components only. */
+  hooks?: HookSnapshot[];
+  /** Set when the snapshot had to be shrunk to fit. */
+  truncated?: boolean;
+}
+
+export interface MatchedRule {
+  selector: string;
+  /** Stylesheet URL, or the dev server's module id for injected <style> tags; null if unknown. */
+  source: string | null;
+}
+
+export interface ElementStyles {
+  classList: string[];
+  rules: MatchedRule[];
+}
+
+export interface FrameworkInfo {
+  /** e.g. "react", "next", "remix". */
+  name: string;
+  version?: string;
+}
+
+/** `POST /selection` */
+export interface SelectionPayload {
+  /** Absent in protocol 1. */
+  version?: number;
+  domLabel: string | null;
+  frames: Frame[];
+  /** When the page loaded (ms since epoch); VS Code replays edits made after it. */
+  pageLoadedAt?: number;
+  /** URL of the page the element was picked on. */
+  pageUrl?: string;
+  /** Props/state/hooks of the component that rendered the element. */
+  snapshot?: ComponentSnapshot;
+  /** The element's classes and the stylesheet rules that match it. */
+  styles?: ElementStyles;
+  /** Stable per browser tab (protocol 2). */
+  sessionId?: string;
+  /** When the element was picked, ms since epoch (protocol 2). */
+  timestamp?: number;
+  /** Protocol 2. */
+  framework?: FrameworkInfo;
+  /** CSS path from <body> to the element, e.g. "main > ul.list > li:nth-child(2)" (protocol 2). */
+  domPath?: string;
+  /** Start of the element's outerHTML, at most `MAX_OUTER_HTML` characters (protocol 2). */
+  outerHTML?: string;
+}
+
+/** `POST /diagnostic`: a console warning/error or uncaught error with a stack. */
+export interface DiagnosticPayload {
+  version?: number;
+  severity: "error" | "warning";
+  /** The message without its stack. */
+  message: string;
+  /** "console.error", "console.warn", "uncaught" or "unhandledrejection". */
+  origin: string;
+  /** Component or call stack, innermost first. */
+  frames: Frame[];
+  pageLoadedAt?: number;
+  pageUrl?: string;
+}
+
+/** Renders of one component since the page's previous `/renders` post. */
+export interface RenderStat {
+  name: string;
+  /** A line inside the component: where it creates its first element. */
+  file: string;
+  line: number;
+  col: number;
+  count: number;
+  /** Total self render time of the counted renders (ms); absent when React doesn't measure it. */
+  durationMs?: number;
+}
+
+/** `POST /renders` */
+export interface RenderStatsPayload {
+  version?: number;
+  stats: RenderStat[];
+  pageLoadedAt?: number;
+  pageUrl?: string;
+}
+
+/** Sent by VS Code over `/events` (and accepted by `POST /reveal`): a component range to outline. */
+export interface RevealEvent {
+  /** Workspace-relative path, "/"-separated. */
+  file: string;
+  /** Absolute path, "/"-separated (pages with absolute fiber paths match on this). */
+  absPath: string;
+  /** Cursor line (1-based). */
+  line: number;
+  /** Component range (1-based, inclusive). */
+  startLine: number;
+  endLine: number;
+  /** Component name, when the cursor is inside one. */
+  name: string | null;
+  /** Follow-cursor updates keep the outline until the next event. */
+  sticky: boolean;
+}
+
+export const MAX_OUTER_HTML = 2000;
+
+/* ------------------------------------------------------------------ */
+/*  Source snippets                                                    */
+/* ------------------------------------------------------------------ */
+
+/** Longest line sent in a frame's `context`; longer ones (minified code, long JSX) are left out. */
+export const MAX_CONTEXT_LINE = 200;
+
+/** FNV-1a (32-bit, hex) of the line with surrounding whitespace trimmed; a frame's `lineHash`. */
+export function hashLine(text: string): string {
+  let h = 0x811c9dc5;
+  const s = text.trim();
+  for (let i = 0; i < s.length; i++) {
+    h ^= s.charCodeAt(i);
+    h = Math.imul(h, 0x01000193);
+  }
+  return (h >>> 0).toString(16).padStart(8, "0");
+}
+
+/**
+ * The `context` and `lineHash` to send for a frame at `line`, from the
+ * source around it. Lines are compared whole, so a cut line would never
+ * match: the context keeps only the run of lines around `line` that fit
+ * `MAX_CONTEXT_LINE`, and is left out when `line` itself doesn't. The hash
+ * is always of the full line. Nothing is sent when `source` doesn't cover
+ * `line`.
+ */
+export function frameSnippet(line: number, source: SourceContext): Pick<Frame, "context" | "lineHash"> {
+  const own = line - source.startLine;
+  if (own < 0 || own >= source.lines.length) {
+    return {};
+  }
+  const lineHash = hashLine(source.lines[own]);
+  const fits = (i: number) => source.lines[i].length <= MAX_CONTEXT_LINE;
+  if (!fits(own)) {
+    return { lineHash };
+  }
+  let first = own;
+  let last = own;
+  while (first > 0 && fits(first - 1)) first--;
+  while (last < source.lines.length - 1 && fits(last + 1)) last++;
+  return {
+    context: { startLine: source.startLine + first, lines: source.lines.slice(first, last + 1) },
+    lineHash,
+  };
+}
+
+/* ------------------------------------------------------------------ */
+/*  Validation                                                         */
+/* ------------------------------------------------------------------ */
+
+/** Why a payload was rejected; `path` is e.g. "frames[2].line" ("" for the body itself). */
+export interface FieldError {
+  code: "invalid_payload" | "unsupported_version";
+  path: string;
+  message: string;
+}
+
+export type ParseResult<T> = { ok: true; value: T; version: number } | { ok: false; error: FieldError };
+
+class Invalid extends Error {
+  constructor(readonly field: FieldError) {
+    super(field.message);
+  }
+}
+
+function fail(path: string, message: string, code: FieldError["code"] = "invalid_payload"): never {
+  throw new Invalid({ code, path, message: `${path || "body"} ${message}` });
+}
+
+type Obj = Record<string, unknown>;
+
+function object(value: unknown, path: string): Obj {
+  if (typeof value !== "object" || value === null || Array.isArray(value)) {
+    fail(path, "must be an object");
+  }
+  return value as Obj;
+}
+
+function array(value: unknown, path: string): unknown[] {
+  if (!Array.isArray(value)) {
+    fail(path, "must be an array");
+  }
+  return value;
+}
+
+function string(value: unknown, path: string): string {
+  if (typeof value !== "string") {
+    fail(path, "must be a string");
+  }
+  return value;
+}
+
+function optional<T>(obj: Obj, key: string, path: string, check: (v: unknown, p: string) => T): T | undefined {
+  return obj[key] === undefined ? undefined : check(obj[key], `${path}${path ? "." : ""}${key}`);
+}
+
+function number(value: unknown, path: string): number {
+  if (typeof value !== "number" || !Number.isFinite(value)) {
+    fail(path, "must be a number");
+  }
+  return value;
+}
+
+function positiveInteger(value: unknown, path: string): number {
+  if (typeof value !== "number" || !Number.isInteger(value) || value < 1) {
+    fail(path, "must be a positive integer");
+  }
+  return value;
+}
+
+/** Protocol 2 positions: a positive integer, or null / 0 / missing for "unknown" (→ 0). */
+function position(value: unknown, path: string, version: number): number {
+  if (version >= 2 && (value === undefined || value === null || value === 0)) {
+    return 0;
+  }
+  return positiveInteger(value, path);
+}
+
+function nullableString(value: unknown, path: string): string | null {
+  if (value !== null && typeof value !== "string") {
+    fail(path, "must be a string or null");
+  }
+  return value;
+}
+
+function readVersion(obj: Obj): number {
+  if (obj.version === undefined) {
+    return 1;
+  }
+  if (typeof obj.version !== "number" || !SUPPORTED_PROTOCOL_VERSIONS.includes(obj.version)) {
+    fail(
+      "version",
+      `${JSON.stringify(obj.version)} is not supported (supported: ${SUPPORTED_PROTOCOL_VERSIONS.join(", ")})`,
+      "unsupported_version"
+    );
+  }
+  return obj.version;
+}
+
+function parseFrame(value: unknown, path: string, version: number): Frame {
+  const f = object(value, path);
+  const frame: Frame = {
+    raw: string(f.raw, `${path}.raw`),
+    name: nullableString(f.name, `${path}.name`),
+    file: string(f.file, `${path}.file`),
+    line: position(f.line, `${path}.line`, version),
+    col: position(f.col, `${path}.col`, version),
+  };
+  const generated = optional(f, "generated", path, object);
+  if (generated) {
+    frame.generated = {
+      file: string(generated.file, `${path}.generated.file`),
+      line: positiveInteger(generated.line, `${path}.generated.line`),
+      col: positiveInteger(generated.col, `${path}.generated.col`),
+    };
+  }
+  const context = optional(f, "context", path, object);
+  if (context) {
+    const lines = array(context.lines, `${path}.context.lines`);
+    lines.forEach((l, i) => string(l, `${path}.context.lines[${i}]`));
+    frame.context = { startLine: number(context.startLine, `${path}.context.startLine`), lines: lines as string[] };
+  }
+  frame.lineHash = optional(f, "lineHash", path, string);
+  if (frame.lineHash === undefined) {
+    delete frame.lineHash;
+  }
+  return frame;
+}
+
+function parseFrames(value: unknown, version: number): Frame[] {
+  const frames = array(value, "frames");
+  if (frames.length < 1) {
+    fail("frames", "must have at least 1 entry");
+  }
+  return frames.map((f, i) => parseFrame(f, `frames[${i}]`, version));
+}
+
+function parseSnapshot(value: unknown, path: string): ComponentSnapshot {
+  const snap = object(value, path);
+  nullableString(snap.component, `${path}.component`);
+  if (!("props" in snap)) {
+    fail(`${path}.props`, "is required");
+  }
+  const hooks = optional(snap, "hooks", path, array);
+  hooks?.forEach((h, i) => string(object(h, `${path}.hooks[${i}]`).name, `${path}.hooks[${i}].name`));
+  return snap as unknown as ComponentSnapshot;
+}
+
+function parseStyles(value: unknown, path: string): ElementStyles {
+  const styles = object(value, path);
+  array(styles.classList, `${path}.classList`).forEach((c, i) => string(c, `${path}.classList[${i}]`));
+  array(styles.rules, `${path}.rules`).forEach((r, i) => {
+    const rule = object(r, `${path}.rules[${i}]`);
+    string(rule.selector, `${path}.rules[${i}].selector`);
+    nullableString(rule.source, `${path}.rules[${i}].source`);
+  });
+  return styles as unknown as ElementStyles;
+}
+
+function parseFramework(value: unknown, path: string): FrameworkInfo {
+  const fw = object(value, path);
+  return { name: string(fw.name, `${path}.name`), version: optional(fw, "version", path, string) };
+}
+
+function run<T>(parse: () => { value: T; version: number }): ParseResult<T> {
+  try {
+    return { ok: true, ...parse() };
+  } catch (err) {
+    if (err instanceof Invalid) {
+      return { ok: false, error: err.field };
+    }
+    throw err;
+  }
+}
+
+/** Check a `/selection` body (any supported version). Unknown fields are kept. */
+export function parseSelectionPayload(data: unknown): ParseResult<SelectionPayload> {
+  return run(() => {
+    const obj = object(data, "");
+    const version = readVersion(obj);
+    const value: SelectionPayload = {
+      ...obj,
+      domLabel: nullableString(obj.domLabel, "domLabel"),
+      frames: parseFrames(obj.frames, version),
+    };
+    optional(obj, "pageLoadedAt", "", number);
+    optional(obj, "pageUrl", "", string);
+    optional(obj, "snapshot", "", parseSnapshot);
+    optional(obj, "styles", "", parseStyles);
+    optional(obj, "sessionId", "", string);
+    optional(obj, "timestamp", "", number);
+    optional(obj, "domPath", "", string);
+    if (obj.framework !== undefined) {
+      value.framework = parseFramework(obj.framework, "framework");
+    }
+    const outerHTML = optional(obj, "outerHTML", "", string);
+    if (outerHTML !== undefined && outerHTML.length > MAX_OUTER_HTML) {
+      value.outerHTML = outerHTML.slice(0, MAX_OUTER_HTML);
+    }
+    return { value, version };
+  });
+}
+
+/** Check a `/diagnostic` body. */
+export function parseDiagnosticPayload(data: unknown): ParseResult<DiagnosticPayload> {
+  return run(() => {
+    const obj = object(data, "");
+    const version = readVersion(obj);
+    if (obj.severity !== "error" && obj.severity !== "warning") {
+      fail("severity", 'must be "error" or "warning"');
+    }
+    string(obj.message, "message");
+    string(obj.origin, "origin");
+    optional(obj, "pageLoadedAt", "", number);
+    optional(obj, "pageUrl", "", string);
+    const value = { ...obj, frames: parseFrames(obj.frames, version) } as unknown as DiagnosticPayload;
+    return { value, version };
+  });
+}
+
+/** Check a `/renders` body. */
+export function parseRenderStatsPayload(data: unknown): ParseResult<RenderStatsPayload> {
+  return run(() => {
+    const obj = object(data, "");
+    const version = readVersion(obj);
+    const stats = array(obj.stats, "stats").map((s, i): RenderStat => {
+      const path = `stats[${i}]`;
+      const stat = object(s, path);
+      const durationMs = optional(stat, "durationMs", path, number);
+      if (durationMs !== undefined && durationMs < 0) {
+        fail(`${path}.durationMs`, "must not be negative");
+      }
+      return {
+        name: string(stat.name, `${path}.name`),
+        file: string(stat.file, `${path}.file`),
+        line: positiveInteger(stat.line, `${path}.line`),
+        col: positiveInteger(stat.col, `${path}.col`),
+        count: positiveInteger(stat.count, `${path}.count`),
+        ...(durationMs !== undefined ? { durationMs } : {}),
+      };
+    });
+    optional(obj, "pageLoadedAt", "", number);
+    optional(obj, "pageUrl", "", string);
+    return { value: { ...obj, stats } as RenderStatsPayload, version };
+  });
+}
@@ -6,32 +6,128 @@
  *
  * Usage (client-only, dev-only):
  *   import { startReactGrabBridge } from './reactGrabBridge';
- *   startReactGrabBridge();                          // defaults to 127.0.0.1:3344
+ *   startReactGrabBridge();                          // probes 127.0.0.1:3344–3354 for the bridge
  *   startReactGrabBridge({ endpointUrl: 'http://127.0.0.1:4000/selection' });
+ *
+ * It also subscribes to the bridge's `/events` stream, so "React Grab: Reveal
+ * in Browser" (and follow-cursor mode) outline the matching elements here.
+ * With `captureErrors: true`, React warnings and uncaught errors that carry a
+ * stack are posted to `/diagnostic` and show up in VS Code's Problems view.
+ * With `trackRenders: true`, per-component render counts and times are posted
+ * to `/renders` every few seconds and shown as CodeLens in VS Code.
  */
 
 /* ------------------------------------------------------------------ */
 /*  Types                                                              */
 /* ------------------------------------------------------------------ */
 
-export interface Frame {
-  raw: string;
-  name: string | null;
+// Wire types live in ./protocol (shared with the extension)
+import {
+  ComponentSnapshot,
+  DiagnosticPayload,
+  ElementStyles,
+  Frame,
+  frameSnippet,
+  FrameworkInfo,
+  hashLine,
+  HookSnapshot,
+  MatchedRule,
+  MAX_OUTER_HTML,
+  PROTOCOL_VERSION,
+  RenderStat,
+  RenderStatsPayload,
+  RevealEvent,
+  SelectionPayload,
+  SnapshotValue,
+  SourceContext,
+} from "./protocol";
+import { isStackLine, parseStack, reactComponentStackParser } from "./stackParsers";
+
+export type {
+  ComponentSnapshot,
+  DiagnosticPayload,
+  ElementStyles,
+  Frame,
+  FrameworkInfo,
+  HookSnapshot,
+  MatchedRule,
+  RenderStat,
+  RenderStatsPayload,
+  RevealEvent,
+  SelectionPayload,
+  SnapshotValue,
+  SourceContext,
+};
+export { hashLine, PROTOCOL_VERSION };
+export { DEFAULT_STACK_PARSERS, parseStack } from "./stackParsers";
+export type { ParsedStack, StackParser } from "./stackParsers";
+
+/** Where an element's JSX was written. */
+export interface ElementSource {
   file: string;
   line: number;
-  col: number;
-}
-
-export interface SelectionPayload {
-  domLabel: string | null;
-  frames: Frame[];
 }
 
 export interface BridgeOptions {
-  /** POST target. Default: "http://127.0.0.1:3344/selection" */
+  /** Fixed POST target. When omitted, the bridge is discovered by probing `/health` on `ports`. */
   endpointUrl?: string;
+  /**
+   * Where selections go when no bridge is found or the page isn't paired,
+   * e.g. the dev server's `/__react-grab/open` (see `build-plugins/`), which
+   * forwards them to VS Code with the token or opens `$EDITOR`. Relative
+   * URLs are resolved against the page. Default: none
+   */
+  fallbackUrl?: string;
+  /** Host probed during discovery. Default: "127.0.0.1" */
+  host?: string;
+  /** Ports probed during discovery, lowest first. Default: 3344–3354 */
+  ports?: number[];
   /** Debounce interval in ms. Default: 150 */
   debounceMs?: number;
+  /**
+   * Pairing token from VS Code ("React Grab: Copy Pairing Token").
+   * Default: `localStorage["react-grab-token"]`, so you can pair once per origin from the console.
+   */
+  token?: string;
+  /**
+   * Attach the source text around each frame so VS Code can correct line numbers
+   * when the file was edited after the page loaded. Default: false.
+   * The default provider reads `sourcesContent` from the source maps of the
+   * scripts loaded at startup; pass `getSnippet` to supply your own.
+   */
+  includeSnippets?: boolean;
+  /** Custom snippet provider, used when `includeSnippets` is on. */
+  getSnippet?: (frame: Frame) => SourceContext | null | Promise<SourceContext | null>;
+  /** Send a props/state/hooks snapshot of the component that rendered the element. Default: true */
+  includeSnapshot?: boolean;
+  /** Upper bound for the serialized snapshot, in bytes. Default: 65536 */
+  snapshotMaxBytes?: number;
+  /** Send the element's class list and matched stylesheet rules ("Open Styles"). Default: true */
+  includeStyles?: boolean;
+  /**
+   * Forward `console.error`/`console.warn` calls and uncaught errors that carry a
+   * component or call stack to VS Code as diagnostics. Default: false
+   */
+  captureErrors?: boolean;
+  /**
+   * Count renders and measure render times per component (via the React DevTools
+   * commit hook) and post them to VS Code for its CodeLens. Default: false
+   */
+  trackRenders?: boolean;
+  /** How often render stats are posted, in ms. Default: 3000 */
+  renderStatsIntervalMs?: number;
+  /**
+   * Subscribe to VS Code's event stream and outline elements on "Reveal in
+   * Browser" events. Off by default: with no editor running the subscription
+   * keeps probing the bridge ports. Default: false
+   */
+  reveal?: boolean;
+  /**
+   * Source location of a DOM element, used to match reveal events.
+   * Default: the React fiber's `_debugSource` (React ≤ 18 with the dev JSX transform),
+   * else the element's `data-grab-src` attribute (see `build-plugins/babel.js`).
+   */
+  getElementSource?: (element: Element) => ElementSource | null;
   /** Allow non-localhost endpoints. Default: false */
   allowNonLocalhost?: boolean;
   /** Log level. Default: "minimal" (one line per POST). "verbose" adds parse details. "silent" suppresses all. */
@@ -42,9 +138,37 @@ export interface BridgeOptions {
 /*  Constants                                                          */
 /* ------------------------------------------------------------------ */
 
-const DEFAULT_ENDPOINT = "http://127.0.0.1:3344/selection";
+const DEFAULT_HOST = "127.0.0.1";
+const DEFAULT_PORTS = Array.from({ length: 11 }, (_, i) => 3344 + i);
+const PROBE_TIMEOUT = 500;
+const TOKEN_HEADER = "X-React-Grab-Token";
+const TOKEN_STORAGE_KEY = "react-grab-token";
+/** Lines of context sent on each side of a frame's line. */
+const SNIPPET_RADIUS = 2;
 const DEFAULT_DEBOUNCE = 150;
-const SOURCE_EXTS = /\.(tsx?|jsx?):/;
+const RECONNECT_MIN = 2000;
+const RECONNECT_MAX = 30000;
+/** The event stream stops looking for a bridge after this many failed discoveries in a row. */
+const MAX_FAILED_DISCOVERIES = 5;
+const REVEAL_DURATION = 3000;
+const MAX_OUTLINES = 200;
+/** Well under the extension's 200 KB body limit, leaving room for frames and snippets. */
+const DEFAULT_SNAPSHOT_BYTES = 64 * 1024;
+/** Serializer limits, tried in order until the snapshot fits. */
+const SNAPSHOT_LIMITS = [
+  { depth: 5, keys: 50, string: 1000 },
+  { depth: 3, keys: 20, string: 200 },
+  { depth: 2, keys: 8, string: 80 },
+];
+const MAX_MESSAGE = 2000;
+const MAX_DIAGNOSTIC_FRAMES = 50;
+const DEFAULT_RENDER_STATS_INTERVAL = 3000;
+/** Fibers searched below a component for an element it created (to find its file). */
+const OWNED_SEARCH_LIMIT = 50;
+/** Fiber flag set when a component's render function ran in this commit. */
+const PERFORMED_WORK = 1;
+/** Distinct diagnostics remembered per page load before the dedup set resets. */
+const MAX_REPORTED = 500;
 
 /* ------------------------------------------------------------------ */
 /*  Parsing helpers                                                    */
@@ -68,76 +192,641 @@ const SOURCE_EXTS = /\.(tsx?|jsx?):/;
  *     in CanvasSelectionProvider (at /(app-pages-browser)/./src/context/CanvasSelectionContext.tsx:21:11)
  */
 export function parseReactGrabText(text: string): SelectionPayload | null {
-  const lines = text.split("\n").map((l) => l.trimEnd());
+  const { domLabel, frames } = parseStack(text, [reactComponentStackParser]);
+  return frames.length > 0 ? { domLabel, frames } : null;
+}
 
-  // --- domLabel ---
-  // Matches "@<ComponentName>" at the start, or "@<Component.Sub>"
-  let domLabel: string | null = null;
-  const labelLine = lines.find((l) => /^@<.+>/.test(l.trim()));
-  if (labelLine) {
-    const m = labelLine.trim().match(/^@<(.+)>$/);
-    if (m) {
-      domLabel = m[1];
+/* ------------------------------------------------------------------ */
+/*  Source snippets                                                    */
+/* ------------------------------------------------------------------ */
+
+/** Strip bundler prefixes so map sources and frame files compare by path. */
+function sourceKey(file: string): string {
+  return file
+    .replace(/[?#].*$/, "")
+    .replace(/^[a-z-]+:\/\/[^/]*\//i, "")
+    .replace(/^\/?\([^)]*\)\//, "")
+    .replace(/^(\.?\/)+/, "");
+}
+
+/** Whether `path` ends with `suffix` as whole segments. */
+function isPathSuffix(path: string, suffix: string): boolean {
+  return path.endsWith(`/${suffix}`);
+}
+
+/**
+ * Build a snippet provider from the `sourcesContent` of the scripts this
+ * page loaded. Maps are collected once, right away, so the text reflects
+ * the code the page is actually running rather than later edits.
+ */
+export function createSourceMapSnippetProvider(): (frame: Frame) => Promise<SourceContext | null> {
+  const sources = new Map<string, string>();
+
+  const addMap = (json: string) => {
+    try {
+      const map = JSON.parse(json) as { sources?: string[]; sourcesContent?: (string | null)[] };
+      map.sources?.forEach((src, i) => {
+        const content = map.sourcesContent?.[i];
+        if (content) sources.set(sourceKey(src), content);
+      });
+    } catch {
+      // not a usable map
     }
+  };
+
+  const collected = (async () => {
+    const urls = new Set<string>();
+    for (const s of Array.from(document.scripts)) {
+      if (s.src) urls.add(s.src);
+    }
+    for (const e of performance.getEntriesByType("resource") as PerformanceResourceTiming[]) {
+      if (e.initiatorType === "script") urls.add(e.name);
+    }
+    await Promise.all(
+      Array.from(urls)
+        .filter((u) => new URL(u, location.href).origin === location.origin)
+        .map(async (url) => {
+          try {
+            const code = await (await fetch(url)).text();
+            // eval-source-map bundles embed one inline map per module
+            for (const m of code.matchAll(/sourceMappingURL=data:application\/json[^,]*;base64,([A-Za-z0-9+/=]+)/g)) {
+              addMap(atob(m[1]));
+            }
+            const external = code.match(/[#@]\s*sourceMappingURL=(?!data:)(\S+)\s*$/);
+            if (external) {
+              const res = await fetch(new URL(external[1], url).toString());
+              if (res.ok) addMap(await res.text());
+            }
+          } catch {
+            // ignore unreachable scripts
+          }
+        })
+    );
+  })();
+
+  return async (frame) => {
+    await collected;
+    const key = sourceKey(frame.file);
+    let content = sources.get(key);
+    if (content === undefined) {
+      // One path ending with the other at a `/` (src/a.ts ~ app/src/a.ts, not data.ts).
+      // Matches with different text are ambiguous: no snippet rather than a wrong one.
+      const matches = new Set(
+        Array.from(sources)
+          .filter(([k]) => isPathSuffix(k, key) || isPathSuffix(key, k))
+          .map(([, v]) => v)
+      );
+      if (matches.size !== 1) return null;
+      [content] = matches;
+    }
+    const lines = content.split("\n");
+    if (frame.line > lines.length) return null;
+    const start = Math.max(1, frame.line - SNIPPET_RADIUS);
+    const end = Math.min(lines.length, frame.line + SNIPPET_RADIUS);
+    return {
+      startLine: start,
+      lines: lines.slice(start - 1, end),
+    };
+  };
+}
+
+async function attachSnippets(
+  payload: SelectionPayload,
+  getSnippet: NonNullable<BridgeOptions["getSnippet"]>
+): Promise<SelectionPayload> {
+  const frames = await Promise.all(
+    payload.frames.map(async (f) => {
+      if (f.line < 1) return f;
+      const context = await Promise.resolve(getSnippet(f)).catch(() => null);
+      if (!context) return f;
+      return { ...f, ...frameSnippet(f.line, context) };
+    })
+  );
+  return { ...payload, frames };
+}
+
+/* ------------------------------------------------------------------ */
+/*  Component snapshot                                                 */
+/* ------------------------------------------------------------------ */
+
+interface Fiber {
+  tag: number;
+  type: unknown;
+  return: Fiber | null;
+  child?: Fiber | null;
+  sibling?: Fiber | null;
+  alternate?: Fiber | null;
+  flags?: number;
+  memoizedProps: unknown;
+  memoizedState: unknown;
+  /** The DOM node, for host components. */
+  stateNode?: unknown;
+  /** Self render time of the last render (dev and profiling builds). */
+  selfBaseDuration?: number;
+  _debugHookTypes?: string[] | null;
+  _debugOwner?: Fiber | null;
+  _debugSource?: { fileName?: unknown; lineNumber?: unknown; columnNumber?: unknown } | null;
+}
+
+interface HookState {
+  memoizedState: unknown;
+  queue: unknown;
+  next: HookState | null;
+}
+
+interface SerializeLimits {
+  depth: number;
+  keys: number;
+  string: number;
+}
+
+/** Fiber tags of components that have props/state worth showing. */
+const FUNCTION_TAGS = new Set([0, 11, 14, 15]); // function, forwardRef, memo, simple memo
+const CLASS_TAG = 1;
+/** Hooks that don't occupy a slot in the fiber's hook list. */
+const SLOTLESS_HOOKS = new Set(["useContext", "use"]);
+/** Hooks whose stored value is React bookkeeping rather than component data. */
+const EFFECT_HOOKS = new Set(["useEffect", "useLayoutEffect", "useInsertionEffect", "useImperativeHandle"]);
+
+function getFiber(element: Element): Fiber | null {
+  const key = Object.keys(element).find(
+    (k) => k.startsWith("__reactFiber$") || k.startsWith("__reactInternalInstance$")
+  );
+  return key ? ((element as unknown as Record<string, Fiber>)[key] ?? null) : null;
+}
+
+function fiberName(fiber: Fiber): string | null {
+  let type = fiber.type as { displayName?: string; name?: string; type?: unknown; render?: unknown } | null;
+  if (fiber.tag === 14 || fiber.tag === 15) type = (type?.type as typeof type) ?? type; // memo
+  if (fiber.tag === 11) type = (type?.render as typeof type) ?? type; // forwardRef
+  return type?.displayName || type?.name || null;
+}
+
+function describeNode(node: Node): string {
+  if (!(node instanceof Element)) return node.nodeName.toLowerCase();
+  const id = node.id ? `#${node.id}` : "";
+  const cls = typeof node.className === "string" && node.className.trim()
+    ? "." + node.className.trim().split(/\s+/).slice(0, 3).join(".")
+    : "";
+  return `${node.tagName.toLowerCase()}${id}${cls}`;
+}
+
+function elementTypeName(type: unknown): string {
+  if (typeof type === "string") return type;
+  const t = type as { displayName?: string; name?: string } | null;
+  return t?.displayName || t?.name || "Anonymous";
+}
+
+/** Serialize `value` within `limits`; `seen` holds the ancestors (for cycles). */
+function serialize(value: unknown, limits: SerializeLimits, depth = 0, seen = new Set<unknown>()): SnapshotValue {
+  switch (typeof value) {
+    case "string":
+      return value.length > limits.string ? value.slice(0, limits.string) + "…" : value;
+    case "number":
+      return Number.isFinite(value) ? value : { $rg: "number", value: String(value) };
+    case "boolean":
+      return value;
+    case "undefined":
+      return { $rg: "undefined" };
+    case "bigint":
+      return { $rg: "bigint", value: value.toString() };
+    case "symbol":
+      return { $rg: "symbol", description: value.description ?? "" };
+    case "function":
+      return { $rg: "function", name: value.name || "anonymous" };
   }
+  if (value === null) return null;
 
-  // --- frames ---
-  // Two patterns for "  in ..." lines:
-  //   A) "  in Name (at PATH:line:col)"        → named component
-  //   B) "  in PATH:line:col"                   → anonymous / primitive
-  //
-  // Regex A: "in" + ws + NAME + " (at " + PATH + ":" + LINE + ":" + COL + ")"
-  // Regex B: "in" + ws + PATH + ":" + LINE + ":" + COL
-  const reNamed = /^\s*in\s+(.+?)\s+\(at\s+(.+):(\d+):(\d+)\)\s*$/;
-  const reAnon = /^\s*in\s+(.+):(\d+):(\d+)\s*$/;
+  const obj = value as Record<string | symbol, unknown>;
+  if (typeof Node !== "undefined" && value instanceof Node) {
+    return { $rg: "node", label: describeNode(value) };
+  }
+  const $$typeof = obj.$$typeof;
+  if (typeof $$typeof === "symbol" && /^react\.(transitional\.)?element$/.test($$typeof.description ?? "")) {
+    return { $rg: "element", type: elementTypeName(obj.type) };
+  }
+  if (seen.has(value)) return { $rg: "circular" };
+  if (value instanceof Date) return { $rg: "date", value: isNaN(value.getTime()) ? "Invalid Date" : value.toISOString() };
+  if (value instanceof RegExp) return { $rg: "regexp", value: String(value) };
+  if (value instanceof Error) return { $rg: "error", name: value.name, message: value.message };
+  if (value instanceof Promise) return { $rg: "promise" };
+  if (value instanceof WeakMap || value instanceof WeakSet) return { $rg: value instanceof WeakMap ? "weakmap" : "weakset" };
 
-  const frames: Frame[] = [];
+  const isArray = Array.isArray(value);
+  const size = value instanceof Map || value instanceof Set ? value.size : isArray ? value.length : null;
+  if (depth >= limits.depth) {
+    const kind = value instanceof Map ? "Map" : value instanceof Set ? "Set" : isArray ? "Array" : "Object";
+    return { $rg: "depth", summary: size === null ? kind : `${kind}(${size})` };
+  }
 
-  for (const line of lines) {
-    // Skip non-"in" lines
-    if (!/^\s*in\s+/.test(line)) {
-      continue;
+  seen.add(value);
+  try {
+    if (isArray || value instanceof Set) {
+      const items = Array.from(value as Iterable<unknown>);
+      const out = items.slice(0, limits.keys).map((v) => serialize(v, limits, depth + 1, seen));
+      if (items.length > limits.keys) out.push({ $rg: "more", count: items.length - limits.keys });
+      return value instanceof Set ? { $rg: "set", values: out } : out;
+    }
+    if (value instanceof Map) {
+      const entries = Array.from(value.entries());
+      const out: SnapshotValue[] = entries
+        .slice(0, limits.keys)
+        .map(([k, v]) => [serialize(k, limits, depth + 1, seen), serialize(v, limits, depth + 1, seen)]);
+      if (entries.length > limits.keys) out.push({ $rg: "more", count: entries.length - limits.keys });
+      return { $rg: "map", entries: out };
+    }
+    const out: { [key: string]: SnapshotValue } = {};
+    let keys: string[];
+    try {
+      keys = Object.keys(obj);
+    } catch {
+      return { $rg: "unreadable" };
+    }
+    for (const key of keys.slice(0, limits.keys)) {
+      try {
+        out[key] = serialize(obj[key], limits, depth + 1, seen);
+      } catch {
+        out[key] = { $rg: "unreadable" }; // throwing getter / revoked proxy
+      }
     }
+    if (keys.length > limits.keys) out["…"] = { $rg: "more", count: keys.length - limits.keys };
+    return out;
+  } finally {
+    seen.delete(value);
+  }
+}
 
-    let name: string | null = null;
-    let file: string;
-    let lineNum: number;
-    let col: number;
+/** Walk the hook list of a function component, labelled with `_debugHookTypes` when present. */
+function serializeHooks(fiber: Fiber, limits: SerializeLimits): HookSnapshot[] {
+  const types = (fiber._debugHookTypes ?? []).filter((t) => !SLOTLESS_HOOKS.has(t));
+  const hooks: HookSnapshot[] = [];
+  let hook = fiber.memoizedState as HookState | null;
+  for (let i = 0; hook && typeof hook === "object" && "next" in hook; i++, hook = hook.next) {
+    const name = types[i] ?? "hook";
+    if (EFFECT_HOOKS.has(name)) continue;
+    let value = hook.memoizedState;
+    // useMemo / useCallback store [value, deps]
+    if ((name === "useMemo" || name === "useCallback") && Array.isArray(value)) value = value[0];
+    hooks.push({ name, value: serialize(value, limits) });
+  }
+  return hooks;
+}
 
-    const namedMatch = line.match(reNamed);
-    if (namedMatch) {
-      name = namedMatch[1];
-      file = namedMatch[2];
-      lineNum = parseInt(namedMatch[3], 10);
-      col = parseInt(namedMatch[4], 10);
-    } else {
-      const anonMatch = line.match(reAnon);
-      if (!anonMatch) {
-        continue; // unparseable "in" line — skip
+function snapshotFiber(fiber: Fiber, limits: SerializeLimits): ComponentSnapshot {
+  const snap: ComponentSnapshot = {
+    component: fiberName(fiber),
+    props: serialize(fiber.memoizedProps, limits),
+  };
+  if (fiber.tag === CLASS_TAG) {
+    snap.state = serialize(fiber.memoizedState, limits);
+  } else {
+    snap.hooks = serializeHooks(fiber, limits);
+  }
+  return snap;
+}
+
+/** The component fiber named `componentName` above `element` (or the nearest component). */
+function findComponentFiber(element: Element, componentName: string | null): Fiber | null {
+  let nearest: Fiber | null = null;
+  for (let f = getFiber(element); f; f = f.return) {
+    if (!FUNCTION_TAGS.has(f.tag) && f.tag !== CLASS_TAG) continue;
+    if (!componentName || fiberName(f) === componentName) return f;
+    nearest ??= f;
+  }
+  return nearest;
+}
+
+/**
+ * Snapshot the props/state/hooks of the component that rendered `element`,
+ * shrinking depth and breadth until the JSON fits in `maxBytes`.
+ */
+export function captureSnapshot(
+  element: Element,
+  componentName: string | null,
+  maxBytes: number = DEFAULT_SNAPSHOT_BYTES
+): ComponentSnapshot | null {
+  const fiber = findComponentFiber(element, componentName);
+  if (!fiber) return null;
+  for (const limits of SNAPSHOT_LIMITS) {
+    const snap = snapshotFiber(fiber, limits);
+    if (limits !== SNAPSHOT_LIMITS[0]) snap.truncated = true;
+    if (JSON.stringify(snap).length <= maxBytes) return snap;
+  }
+  return { component: fiberName(fiber), props: { $rg: "omitted" }, truncated: true };
+}
+
+/* ------------------------------------------------------------------ */
+/*  Styles                                                             */
+/* ------------------------------------------------------------------ */
+
+const MAX_CLASSES = 100;
+const MAX_RULES = 50;
+
+/** Where a stylesheet came from: its URL, or the module id Vite puts on injected <style> tags. */
+function sheetSource(sheet: CSSStyleSheet): string | null {
+  if (sheet.href) return sheet.href;
+  const owner = sheet.ownerNode;
+  if (owner instanceof Element) {
+    return owner.getAttribute("data-vite-dev-id") ?? owner.getAttribute("data-href");
+  }
+  return null;
+}
+
+function collectRules(
+  element: Element,
+  rules: CSSRuleList,
+  source: string | null,
+  out: MatchedRule[]
+): void {
+  for (const rule of Array.from(rules)) {
+    if (out.length >= MAX_RULES) return;
+    if (rule instanceof CSSStyleRule) {
+      try {
+        if (element.matches(rule.selectorText)) out.push({ selector: rule.selectorText, source });
+      } catch {
+        // selector the browser can parse but not match (e.g. ::-webkit-…)
       }
-      file = anonMatch[1];
-      lineNum = parseInt(anonMatch[2], 10);
-      col = parseInt(anonMatch[3], 10);
+    } else if ("cssRules" in rule) {
+      // @media, @supports, @layer… — descend regardless of whether they apply now
+      collectRules(element, (rule as CSSGroupingRule).cssRules, source, out);
     }
+  }
+}
 
-    // Only keep source files (.ts/.tsx/.js/.jsx)
-    if (!SOURCE_EXTS.test(file + ":")) {
+/** Class list plus the stylesheet rules matching `element` (cross-origin sheets are skipped). */
+export function captureStyles(element: Element): ElementStyles {
+  const rules: MatchedRule[] = [];
+  for (const sheet of Array.from(document.styleSheets)) {
+    let cssRules: CSSRuleList;
+    try {
+      cssRules = sheet.cssRules;
+    } catch {
       continue;
     }
+    collectRules(element, cssRules, sheetSource(sheet), rules);
+    if (rules.length >= MAX_RULES) break;
+  }
+  return { classList: Array.from(element.classList).slice(0, MAX_CLASSES), rules };
+}
 
-    // Validate positive ints
-    if (lineNum < 1 || col < 1 || !Number.isFinite(lineNum) || !Number.isFinite(col)) {
-      continue;
+/** First element under the point that React rendered (skips overlays like React Grab's own). */
+function reactElementAt(x: number, y: number): Element | null {
+  for (const el of document.elementsFromPoint(x, y)) {
+    if (getFiber(el) || el.hasAttribute(SOURCE_ATTRIBUTE)) return el;
+  }
+  return null;
+}
+
+/** The rendered-by guess on the page side: first named frame outside node_modules. */
+function renderedByName(payload: SelectionPayload): string | null {
+  return payload.frames.find((f) => f.name && !/node_modules/.test(f.file))?.name ?? null;
+}
+
+/* ------------------------------------------------------------------ */
+/*  Page context (protocol 2)                                          */
+/* ------------------------------------------------------------------ */
+
+const SESSION_STORAGE_KEY = "react-grab-session";
+const MAX_DOM_PATH_DEPTH = 30;
+
+/** Random id kept for the life of the tab, so VS Code can tell tabs apart. */
+function getSessionId(): string {
+  try {
+    let id = window.sessionStorage.getItem(SESSION_STORAGE_KEY);
+    if (!id) {
+      id = typeof crypto.randomUUID === "function" ? crypto.randomUUID() : Math.random().toString(36).slice(2);
+      window.sessionStorage.setItem(SESSION_STORAGE_KEY, id);
     }
+    return id;
+  } catch {
+    return "unknown";
+  }
+}
 
-    frames.push({ raw: line.trim(), name, file, line: lineNum, col });
+/** Next.js or Remix when their globals are present, else React with the renderer's version. */
+function detectFramework(): FrameworkInfo {
+  const w = window as { next?: { version?: string }; __NEXT_DATA__?: unknown; __remixContext?: unknown };
+  if (w.next || w.__NEXT_DATA__) return { name: "next", version: w.next?.version };
+  if (w.__remixContext) return { name: "remix" };
+  const hook = (globalThis as { __REACT_DEVTOOLS_GLOBAL_HOOK__?: DevToolsHook }).__REACT_DEVTOOLS_GLOBAL_HOOK__;
+  const version = hook?.renderers ? Array.from(hook.renderers.values()).find((r) => r.version)?.version : undefined;
+  return { name: "react", version };
+}
+
+/** CSS path from <body> (or the nearest ancestor with an id), e.g. "main > ul.list > li:nth-child(2)". */
+function domPath(element: Element): string {
+  const parts: string[] = [];
+  let el: Element | null = element;
+  while (el && el !== document.body && parts.length < MAX_DOM_PATH_DEPTH) {
+    if (el.id) {
+      parts.unshift(`#${CSS.escape(el.id)}`);
+      break;
+    }
+    const tag = el.localName;
+    let part = tag + Array.from(el.classList, (c) => `.${CSS.escape(c)}`).slice(0, 2).join("");
+    const siblings = el.parentElement ? Array.from(el.parentElement.children) : [];
+    if (siblings.filter((c) => c.localName === tag).length > 1) {
+      part += `:nth-child(${siblings.indexOf(el) + 1})`;
+    }
+    parts.unshift(part);
+    el = el.parentElement;
   }
+  return parts.join(" > ");
+}
+
+function outerHTMLExcerpt(element: Element): string {
+  const html = element.outerHTML;
+  return html.length > MAX_OUTER_HTML ? `${html.slice(0, MAX_OUTER_HTML - 1)}…` : html;
+}
+
+/* ------------------------------------------------------------------ */
+/*  Source annotations (build-plugins/babel.js)                        */
+/* ------------------------------------------------------------------ */
+
+const SOURCE_ATTRIBUTE = "data-grab-src";
+const MAX_ANNOTATED_FRAMES = 30;
+
+/** "src/Card.tsx:12:5" → its parts; the file may contain ":" itself (Windows drives). */
+function parseSourceAttribute(value: string | null): { file: string; line: number; col: number } | null {
+  const m = value?.match(/^(.+):(\d+):(\d+)$/);
+  return m ? { file: m[1], line: parseInt(m[2], 10), col: parseInt(m[3], 10) } : null;
+}
 
-  if (frames.length === 0) {
+/** The element's own `data-grab-src`, for matching reveal events. */
+function getAnnotatedSource(element: Element): ElementSource | null {
+  const src = parseSourceAttribute(element.getAttribute(SOURCE_ATTRIBUTE));
+  return src ? { file: src.file, line: src.line } : null;
+}
+
+/**
+ * Owner component per DOM ancestor depth, from a location-less React 19
+ * component stack (`in li`, `in ul`, `in TodoList`, …): each run of host
+ * elements is followed by the component that rendered it.
+ */
+function ownersByDepth(stack: Frame[]): (string | null)[] {
+  const owners: (string | null)[] = [];
+  let pending = 0;
+  for (const f of stack) {
+    if (!f.name) continue;
+    if (/^[a-z]/.test(f.name)) {
+      owners.push(null);
+      pending++;
+    } else {
+      for (let i = owners.length - pending; i < owners.length; i++) owners[i] = f.name;
+      pending = 0;
+    }
+  }
+  return owners;
+}
+
+/**
+ * Frames from the `data-grab-src` stamps on the element and its ancestors,
+ * innermost first. Nested elements written in the same file usually belong
+ * to one component, so only the innermost stamp of each run is kept.
+ * `stack` (name-only frames) names the components that rendered them.
+ */
+function annotatedFrames(element: Element, stack: Frame[] = []): Frame[] {
+  const owners = ownersByDepth(stack);
+  const frames: Frame[] = [];
+  let depth = 0;
+  for (let el: Element | null = element; el && frames.length < MAX_ANNOTATED_FRAMES; el = el.parentElement, depth++) {
+    const src = parseSourceAttribute(el.getAttribute(SOURCE_ATTRIBUTE));
+    if (src && frames[frames.length - 1]?.file !== src.file) {
+      const name = owners[depth] ?? null;
+      frames.push({ raw: name ? `in ${name} (at ${src.file}:${src.line}:${src.col})` : `in ${src.file}:${src.line}:${src.col}`, name, ...src });
+    }
+  }
+  return frames;
+}
+
+/* ------------------------------------------------------------------ */
+/*  Render stats                                                       */
+/* ------------------------------------------------------------------ */
+
+interface DevToolsHook {
+  /** Renderers React registered (react-dom reports its version). */
+  renderers?: Map<number, { version?: string }>;
+  onCommitFiberRoot?: (rendererId: unknown, root: { current: Fiber }, ...rest: unknown[]) => void;
+}
+
+interface SourceLocation {
+  file: string;
+  line: number;
+  col: number;
+}
+
+/**
+ * Where a component lives: the `_debugSource` of the first element it
+ * created itself (its `_debugOwner`). The fiber's own `_debugSource` is
+ * where it was *used*, which is the parent's file. React 19 records no
+ * `_debugSource`, so the `data-grab-src` stamp of the first host element
+ * it created is used instead.
+ */
+function ownedSource(fiber: Fiber): SourceLocation | null {
+  const queue: Fiber[] = fiber.child ? [fiber.child] : [];
+  for (let seen = 0; queue.length > 0 && seen < OWNED_SEARCH_LIMIT; seen++) {
+    const f = queue.shift()!;
+    const owner = f._debugOwner;
+    const src = f._debugSource;
+    const owned = owner === fiber || (owner != null && owner === fiber.alternate);
+    if (owned && typeof src?.fileName === "string" && typeof src.lineNumber === "number") {
+      const col = typeof src.columnNumber === "number" ? src.columnNumber : 1;
+      return { file: src.fileName, line: src.lineNumber, col };
+    }
+    if (owned && f.stateNode instanceof Element) {
+      const stamped = parseSourceAttribute(f.stateNode.getAttribute(SOURCE_ATTRIBUTE));
+      if (stamped) return stamped;
+    }
+    if (f.child) queue.push(f.child);
+    if (f.sibling) queue.push(f.sibling);
+  }
+  return null;
+}
+
+/** Did this component's render function run in the commit being processed? */
+function didRender(fiber: Fiber): boolean {
+  return !fiber.alternate || ((fiber.flags ?? 0) & PERFORMED_WORK) !== 0;
+}
+
+/**
+ * Count renders per component on every React commit. Chains onto the
+ * DevTools hook's `onCommitFiberRoot` (the same hook bippy and React
+ * DevTools use), so the hook must exist before React loads — React Grab
+ * installs it. Returns null when there is no hook.
+ */
+function installRenderTracker(
+  flush: (stats: RenderStat[]) => void,
+  intervalMs: number,
+  logLevel: BridgeOptions["logLevel"]
+): (() => void) | null {
+  const hook = (globalThis as { __REACT_DEVTOOLS_GLOBAL_HOOK__?: DevToolsHook }).__REACT_DEVTOOLS_GLOBAL_HOOK__;
+  if (!hook) {
+    if (logLevel !== "silent") {
+      console.log("[react-grab-bridge] trackRenders: no React DevTools hook on the page — render stats are off");
+    }
     return null;
   }
 
-  return { domLabel, frames };
+  // Component type → source location (null: none found); a type lives in one place
+  const sources = new WeakMap<object, SourceLocation | null>();
+  const pending = new Map<string, RenderStat>();
+
+  const record = (fiber: Fiber) => {
+    const type = fiber.type as object | null;
+    if (!type) return;
+    let src = sources.get(type);
+    if (src === undefined) {
+      src = ownedSource(fiber);
+      // Retry later if nothing was rendered yet; remember successes
+      if (src) sources.set(type, src);
+    }
+    const name = fiberName(fiber);
+    if (!src || !name) return;
+    const key = `${name}\n${src.file}`;
+    let stat = pending.get(key);
+    if (!stat) {
+      stat = { name, ...src, count: 0 };
+      pending.set(key, stat);
+    }
+    stat.count++;
+    if (typeof fiber.selfBaseDuration === "number") {
+      stat.durationMs = (stat.durationMs ?? 0) + fiber.selfBaseDuration;
+    }
+  };
+
+  const walk = (root: Fiber) => {
+    const stack: Fiber[] = [root];
+    while (stack.length > 0) {
+      const f = stack.pop()!;
+      if ((FUNCTION_TAGS.has(f.tag) || f.tag === CLASS_TAG) && didRender(f)) record(f);
+      // A bailed-out subtree keeps the previous children; nothing below it rendered
+      if (f.child && !(f.alternate && f.child === f.alternate.child)) stack.push(f.child);
+      if (f.sibling) stack.push(f.sibling);
+    }
+  };
+
+  const previous = hook.onCommitFiberRoot;
+  const onCommitFiberRoot: DevToolsHook["onCommitFiberRoot"] = function (this: unknown, rendererId, root, ...rest) {
+    try {
+      if (root?.current) walk(root.current);
+    } catch (err) {
+      if (logLevel === "verbose") console.log("[react-grab-bridge] render tracking failed:", err);
+    }
+    return previous?.call(this, rendererId, root, ...rest);
+  };
+  hook.onCommitFiberRoot = onCommitFiberRoot;
+
+  const timer = setInterval(() => {
+    if (pending.size === 0) return;
+    const stats = [...pending.values()];
+    pending.clear();
+    flush(stats);
+  }, intervalMs);
+
+  return () => {
+    clearInterval(timer);
+    if (hook.onCommitFiberRoot === onCommitFiberRoot) hook.onCommitFiberRoot = previous;
+  };
 }
 
 /* ------------------------------------------------------------------ */
@@ -159,15 +848,19 @@ function debounce<T extends (...args: unknown[]) => void>(
 /*  POST helper                                                        */
 /* ------------------------------------------------------------------ */
 
+/** Resolves false only on a network error (bridge unreachable), true otherwise. */
 async function postPayload(
   url: string,
   payload: SelectionPayload,
+  token: string | null,
   logLevel: BridgeOptions["logLevel"]
-): Promise<void> {
+): Promise<boolean> {
   try {
+    const headers: Record<string, string> = { "Content-Type": "application/json" };
+    if (token) headers[TOKEN_HEADER] = token;
     const res = await fetch(url, {
       method: "POST",
-      headers: { "Content-Type": "application/json" },
+      headers,
       body: JSON.stringify(payload),
     });
     if (logLevel !== "silent") {
@@ -176,18 +869,223 @@ async function postPayload(
         console.log(
           `${tag} sent ${payload.frames.length} frame(s) → ${res.status}`
         );
+      } else if (res.status === 401) {
+        console.warn(
+          `${tag} not paired with VS Code. Run "React Grab: Copy Pairing Token" in VS Code, then either pass ` +
+            `startReactGrabBridge({ token }) or run localStorage.setItem("${TOKEN_STORAGE_KEY}", "<token>") and reload.`
+        );
       } else {
         const body = await res.text().catch(() => "");
         console.warn(`${tag} POST failed: ${res.status} ${body}`);
       }
     }
+    return true;
   } catch (err) {
     if (logLevel !== "silent") {
       console.warn(`[react-grab-bridge] POST error:`, (err as Error).message);
     }
+    return false;
   }
 }
 
+function readStoredToken(): string | null {
+  try {
+    return window.localStorage.getItem(TOKEN_STORAGE_KEY);
+  } catch {
+    return null;
+  }
+}
+
+/* ------------------------------------------------------------------ */
+/*  Discovery                                                          */
+/* ------------------------------------------------------------------ */
+
+async function probe(host: string, port: number): Promise<boolean> {
+  const ctrl = new AbortController();
+  const timer = setTimeout(() => ctrl.abort(), PROBE_TIMEOUT);
+  try {
+    const res = await fetch(`http://${host}:${port}/health`, { signal: ctrl.signal });
+    if (!res.ok) return false;
+    const body = (await res.json()) as { server?: string };
+    return body.server === "react-grab-bridge";
+  } catch {
+    return false;
+  } finally {
+    clearTimeout(timer);
+  }
+}
+
+/**
+ * Find the VS Code bridge by probing `/health` on each port in parallel.
+ * Returns the `/selection` URL of the lowest responding port, or null.
+ */
+export async function discoverBridge(
+  host: string = DEFAULT_HOST,
+  ports: number[] = DEFAULT_PORTS
+): Promise<string | null> {
+  const results = await Promise.all(ports.map((p) => probe(host, p)));
+  const index = results.indexOf(true);
+  return index === -1 ? null : `http://${host}:${ports[index]}/selection`;
+}
+
+/* ------------------------------------------------------------------ */
+/*  Reveal in browser                                                  */
+/* ------------------------------------------------------------------ */
+
+/** `_debugSource` of the element's fiber (set by the dev JSX transform up to React 18). */
+function getFiberSource(element: Element): ElementSource | null {
+  const key = Object.keys(element).find(
+    (k) => k.startsWith("__reactFiber$") || k.startsWith("__reactInternalInstance$")
+  );
+  if (!key) return null;
+  const fiber = (element as unknown as Record<string, { _debugSource?: { fileName?: unknown; lineNumber?: unknown } }>)[key];
+  const src = fiber?._debugSource;
+  if (!src || typeof src.fileName !== "string" || typeof src.lineNumber !== "number") return null;
+  return { file: src.fileName, line: src.lineNumber };
+}
+
+function getDefaultElementSource(element: Element): ElementSource | null {
+  return getFiberSource(element) ?? getAnnotatedSource(element);
+}
+
+/** Does a fiber source path name the revealed file? */
+function sourceMatchesFile(file: string, event: RevealEvent): boolean {
+  const key = sourceKey(file.replace(/\\/g, "/"));
+  const abs = event.absPath.replace(/^\/+/, "");
+  return (
+    key === event.file ||
+    key.endsWith("/" + event.file) ||
+    key === abs ||
+    (key.includes("/") && abs.endsWith("/" + key))
+  );
+}
+
+function isInViewport(el: Element): boolean {
+  const r = el.getBoundingClientRect();
+  return r.bottom > 0 && r.right > 0 && r.top < window.innerHeight && r.left < window.innerWidth;
+}
+
+/**
+ * Outline every element whose source falls in the event's range and scroll
+ * the first into view. Returns a function that removes the outlines.
+ */
+function revealElements(
+  event: RevealEvent,
+  getElementSource: (element: Element) => ElementSource | null
+): () => void {
+  const matches: Element[] = [];
+  for (const el of Array.from(document.body.querySelectorAll("*"))) {
+    const src = getElementSource(el);
+    if (
+      src &&
+      src.line >= event.startLine &&
+      src.line <= event.endLine &&
+      sourceMatchesFile(src.file, event)
+    ) {
+      matches.push(el);
+      if (matches.length >= MAX_OUTLINES) break;
+    }
+  }
+  if (matches.length === 0) return () => {};
+
+  // Boxes live in a document-positioned layer so they scroll with the page
+  const layer = document.createElement("div");
+  layer.setAttribute("data-react-grab-reveal", "");
+  layer.style.cssText = "position:absolute;top:0;left:0;width:0;height:0;pointer-events:none;z-index:2147483647;";
+  matches.forEach((el, i) => {
+    const r = el.getBoundingClientRect();
+    if (r.width === 0 && r.height === 0) return;
+    const box = document.createElement("div");
+    box.style.cssText =
+      `position:absolute;top:${r.top + window.scrollY}px;left:${r.left + window.scrollX}px;` +
+      `width:${r.width}px;height:${r.height}px;box-sizing:border-box;` +
+      `border:2px solid #0a84ff;background:rgba(10,132,255,0.08);border-radius:2px;`;
+    if (i === 0) {
+      const label = document.createElement("div");
+      label.textContent = event.name ?? `${event.file}:${event.line}`;
+      label.style.cssText =
+        "position:absolute;top:-20px;left:-2px;padding:1px 6px;font:12px/18px system-ui,sans-serif;" +
+        "color:#fff;background:#0a84ff;border-radius:2px;white-space:nowrap;";
+      box.appendChild(label);
+    }
+    layer.appendChild(box);
+  });
+  document.body.appendChild(layer);
+
+  if (!isInViewport(matches[0])) {
+    matches[0].scrollIntoView({ block: "center", behavior: "smooth" });
+  }
+  return () => layer.remove();
+}
+
+/**
+ * Subscribe to the bridge's event stream. `getEndpoint` is called before each
+ * (re)connect with `fresh` set after a failure, so a restarted bridge is
+ * rediscovered. Returns an unsubscribe function.
+ */
+function subscribeToEditor(
+  getEndpoint: (fresh: boolean) => Promise<string | null>,
+  token: string | null,
+  onReveal: (event: RevealEvent) => void,
+  logLevel: BridgeOptions["logLevel"]
+): () => void {
+  let source: EventSource | null = null;
+  let timer: ReturnType<typeof setTimeout> | null = null;
+  let delay = RECONNECT_MIN;
+  let stopped = false;
+  let failedDiscoveries = 0;
+
+  const connect = async (fresh: boolean) => {
+    const endpoint = await getEndpoint(fresh);
+    if (stopped) return;
+    if (!endpoint) {
+      if (++failedDiscoveries >= MAX_FAILED_DISCOVERIES) {
+        if (logLevel !== "silent") {
+          console.warn("[react-grab-bridge] no bridge found for reveal events; stopped looking (reload the page to retry)");
+        }
+        return;
+      }
+      retry();
+      return;
+    }
+    failedDiscoveries = 0;
+    const url = new URL("/events", endpoint);
+    if (token) url.searchParams.set("token", token);
+    source = new EventSource(url.toString());
+    source.onopen = () => {
+      delay = RECONNECT_MIN;
+      if (logLevel === "verbose") console.log(`[react-grab-bridge] subscribed to ${url.origin}/events`);
+    };
+    source.addEventListener("reveal", (e) => {
+      try {
+        onReveal(JSON.parse((e as MessageEvent<string>).data) as RevealEvent);
+      } catch {
+        // malformed event — ignore
+      }
+    });
+    // EventSource retries the same URL forever; reconnect ourselves (with
+    // backoff) so a bridge that moved to another port is found again
+    source.onerror = () => {
+      source?.close();
+      source = null;
+      retry();
+    };
+  };
+
+  const retry = () => {
+    if (stopped) return;
+    timer = setTimeout(() => void connect(true), delay);
+    delay = Math.min(delay * 2, RECONNECT_MAX);
+  };
+
+  void connect(false);
+  return () => {
+    stopped = true;
+    if (timer) clearTimeout(timer);
+    source?.close();
+  };
+}
+
 /* ------------------------------------------------------------------ */
 /*  Localhost guard                                                     */
 /* ------------------------------------------------------------------ */
@@ -230,6 +1128,8 @@ interface ReactGrabSelectionEvent {
   text?: string;
   /** Already-parsed component name */
   componentName?: string;
+  /** The selected DOM element, if the plugin API passes it */
+  element?: Element;
   /** Already-parsed frames (if the plugin API provides structured data) */
   frames?: Array<{ raw?: string; name?: string | null; file?: string; line?: number; col?: number }>;
 }
@@ -242,7 +1142,9 @@ interface ReactGrabCopyEvent {
  * Try to register via the React Grab plugin API.
  * Returns true if we successfully hooked in; false if we should fall back.
  */
-function tryPluginApi(send: (payload: SelectionPayload) => void, logLevel: BridgeOptions["logLevel"]): boolean {
+type Send = (payload: SelectionPayload, element?: Element | null) => void;
+
+function tryPluginApi(send: Send, logLevel: BridgeOptions["logLevel"]): boolean {
   const rg = window.__REACT_GRAB__;
   if (!rg) return false;
 
@@ -308,7 +1210,7 @@ function tryPluginApi(send: (payload: SelectionPayload) => void, logLevel: Bridg
 
 function handlePluginData(
   data: ReactGrabSelectionEvent,
-  send: (payload: SelectionPayload) => void,
+  send: Send,
   logLevel: BridgeOptions["logLevel"]
 ): void {
   // If the plugin gives us structured frames, use them directly
@@ -331,19 +1233,20 @@ function handlePluginData(
       }));
 
     if (frames.length > 0) {
-      send({ domLabel: data.componentName ?? null, frames });
+      send({ domLabel: data.componentName ?? null, frames }, data.element);
       return;
     }
   }
 
   // Fallback: parse the text representation
-  if (data.text) {
-    const payload = parseReactGrabText(data.text);
-    if (payload) {
-      send(payload);
-    } else if (logLevel === "verbose") {
-      console.log("[react-grab-bridge] plugin text could not be parsed");
-    }
+  const payload = data.text ? parseReactGrabText(data.text) : null;
+  if (payload) {
+    send(payload, data.element);
+  } else if (data.element) {
+    // `send` falls back to the element's data-grab-src stamps
+    send({ domLabel: data.componentName ?? null, frames: [] }, data.element);
+  } else if (data.text && logLevel === "verbose") {
+    console.log("[react-grab-bridge] plugin text could not be parsed");
   }
 }
 
@@ -352,12 +1255,12 @@ function handlePluginData(
 /* ------------------------------------------------------------------ */
 
 function installClipboardFallback(
-  send: (payload: SelectionPayload) => void,
+  send: Send,
   logLevel: BridgeOptions["logLevel"]
 ): () => void {
-  // Track the last payload hash to avoid double-posting when the plugin API
+  // Track the last copied text to avoid double-posting when the plugin API
   // already handled the same selection.
-  let lastHash = "";
+  let lastText = "";
 
   const handler = async () => {
     // Small delay to let the clipboard populate
@@ -376,13 +1279,12 @@ function installClipboardFallback(
       return;
     }
 
-    const payload = parseReactGrabText(text);
-    if (!payload) return;
+    // Without locations (React 19), `send` uses the data-grab-src stamps under the pointer
+    const payload = parseReactGrabText(text) ?? { domLabel: null, frames: [] };
 
     // Dedup
-    const hash = JSON.stringify(payload);
-    if (hash === lastHash) return;
-    lastHash = hash;
+    if (text === lastText) return;
+    lastText = text;
 
     if (logLevel === "verbose") {
       console.log("[react-grab-bridge] parsed from clipboard");
@@ -395,6 +1297,144 @@ function installClipboardFallback(
   return () => document.removeEventListener("copy", handler);
 }
 
+/* ------------------------------------------------------------------ */
+/*  Runtime diagnostics                                                */
+/* ------------------------------------------------------------------ */
+
+/**
+ * Frames from a React component stack ("in X (at file:line:col)") or a
+ * JavaScript call stack (V8 "at X (url:line:col)", Gecko "X@url:line:col").
+ */
+export function parseStackFrames(text: string): Frame[] {
+  return parseStack(text).frames.slice(0, MAX_DIAGNOSTIC_FRAMES);
+}
+
+function stringifyArg(arg: unknown): string {
+  if (typeof arg === "string") return arg;
+  if (arg instanceof Error) return arg.stack?.includes(arg.message) ? arg.stack : `${arg.name}: ${arg.message}\n${arg.stack ?? ""}`;
+  try {
+    return JSON.stringify(arg) ?? String(arg);
+  } catch {
+    return String(arg);
+  }
+}
+
+/** Join console arguments the way the console prints them (`%s`/`%d`/`%o` substitution, `%c` dropped). */
+export function formatConsoleArgs(args: unknown[]): string {
+  let rest = args;
+  let head = "";
+  if (typeof args[0] === "string") {
+    let i = 1;
+    head = args[0].replace(/%[sdifoOc%]/g, (spec) => {
+      if (spec === "%%") return "%";
+      if (i >= args.length) return spec;
+      const arg = args[i++];
+      return spec === "%c" ? "" : stringifyArg(arg);
+    });
+    rest = args.slice(i);
+  }
+  return [head, ...rest.map(stringifyArg)].filter((part) => part !== "").join(" ");
+}
+
+/** Split console or error text into its message and stack; null when there's no usable stack. */
+function toDiagnostic(
+  text: string,
+  severity: DiagnosticPayload["severity"],
+  origin: DiagnosticPayload["origin"]
+): DiagnosticPayload | null {
+  const frames = parseStackFrames(text);
+  // Name-only frames (React 19 without source info) can't be placed in a file
+  if (!frames.some((f) => f.file)) return null;
+  const message = text
+    .split("\n")
+    .filter((line) => !isStackLine(line))
+    .join("\n")
+    .trim()
+    .slice(0, MAX_MESSAGE);
+  return { severity, message: message || "(no message)", origin, frames };
+}
+
+/**
+ * Patch `console.error`/`console.warn` and listen for uncaught errors and
+ * rejections. Each distinct message + stack is reported once per page load.
+ */
+function installErrorCapture(
+  report: (diagnostic: DiagnosticPayload) => void,
+  logLevel: BridgeOptions["logLevel"]
+): () => void {
+  const reported = new Set<string>();
+  let busy = false;
+
+  const handle = (text: string, severity: DiagnosticPayload["severity"], origin: DiagnosticPayload["origin"]) => {
+    // Our own log lines, and anything logged while reporting, would loop
+    if (busy || text.startsWith("[react-grab-bridge]")) return;
+    busy = true;
+    try {
+      const diagnostic = toDiagnostic(text, severity, origin);
+      if (!diagnostic) return;
+      const key = `${diagnostic.message}\n${diagnostic.frames[0].raw}`;
+      if (reported.has(key)) return;
+      if (reported.size >= MAX_REPORTED) reported.clear();
+      reported.add(key);
+      report(diagnostic);
+    } catch (err) {
+      if (logLevel === "verbose") console.log("[react-grab-bridge] could not report diagnostic:", err);
+    } finally {
+      busy = false;
+    }
+  };
+
+  const originalError = console.error;
+  const originalWarn = console.warn;
+  const patchedError = function (this: Console, ...args: unknown[]) {
+    originalError.apply(this, args);
+    handle(formatConsoleArgs(args), "error", "console.error");
+  };
+  const patchedWarn = function (this: Console, ...args: unknown[]) {
+    originalWarn.apply(this, args);
+    handle(formatConsoleArgs(args), "warning", "console.warn");
+  };
+  console.error = patchedError;
+  console.warn = patchedWarn;
+
+  const onError = (e: ErrorEvent) => {
+    const text = e.error instanceof Error ? stringifyArg(e.error) : `${e.message}\n    at ${e.filename}:${e.lineno}:${e.colno}`;
+    handle(text, "error", "uncaught");
+  };
+  const onRejection = (e: PromiseRejectionEvent) => {
+    handle(stringifyArg(e.reason), "error", "unhandledrejection");
+  };
+  window.addEventListener("error", onError);
+  window.addEventListener("unhandledrejection", onRejection);
+
+  return () => {
+    // Leave the console alone if something patched it after us
+    if (console.error === patchedError) console.error = originalError;
+    if (console.warn === patchedWarn) console.warn = originalWarn;
+    window.removeEventListener("error", onError);
+    window.removeEventListener("unhandledrejection", onRejection);
+  };
+}
+
+/**
+ * Fire-and-forget POST to a path next to the selection endpoint (`/diagnostic`,
+ * `/renders`). Never logs, so it can't feed the console capture. False on network errors.
+ */
+async function postQuietly(endpoint: string, path: string, payload: unknown, token: string | null): Promise<boolean> {
+  try {
+    const headers: Record<string, string> = { "Content-Type": "application/json" };
+    if (token) headers[TOKEN_HEADER] = token;
+    await fetch(new URL(path, endpoint).toString(), {
+      method: "POST",
+      headers,
+      body: JSON.stringify(payload),
+    });
+    return true;
+  } catch {
+    return false;
+  }
+}
+
 /* ------------------------------------------------------------------ */
 /*  Main entry point                                                   */
 /* ------------------------------------------------------------------ */
@@ -407,32 +1447,145 @@ function installClipboardFallback(
  */
 export function startReactGrabBridge(options: BridgeOptions = {}): () => void {
   const {
-    endpointUrl = DEFAULT_ENDPOINT,
+    endpointUrl,
+    fallbackUrl,
+    token = readStoredToken(),
+    host = DEFAULT_HOST,
+    ports = DEFAULT_PORTS,
+    includeSnippets = false,
+    getSnippet,
+    includeSnapshot = true,
+    snapshotMaxBytes = DEFAULT_SNAPSHOT_BYTES,
+    includeStyles = true,
+    captureErrors = false,
+    trackRenders = false,
+    renderStatsIntervalMs = DEFAULT_RENDER_STATS_INTERVAL,
+    reveal = false,
+    getElementSource = getDefaultElementSource,
     debounceMs = DEFAULT_DEBOUNCE,
     allowNonLocalhost = false,
     logLevel = "minimal",
   } = options;
 
   // Safety: refuse non-localhost unless explicitly allowed
-  if (!allowNonLocalhost && !isLocalhost(endpointUrl)) {
+  const target = endpointUrl ?? `http://${host}/`;
+  if (!allowNonLocalhost && !isLocalhost(target)) {
     console.error(
-      `[react-grab-bridge] refusing non-localhost endpoint "${endpointUrl}". ` +
+      `[react-grab-bridge] refusing non-localhost endpoint "${endpointUrl ?? host}". ` +
         `Pass allowNonLocalhost: true to override.`
     );
     return () => {};
   }
 
   if (logLevel !== "silent") {
-    console.log(`[react-grab-bridge] starting → ${endpointUrl}`);
+    console.log(
+      endpointUrl
+        ? `[react-grab-bridge] starting → ${endpointUrl}`
+        : `[react-grab-bridge] starting → discovering on ${host}:${ports[0]}–${ports[ports.length - 1]}`
+    );
   }
 
+  // Endpoint: fixed, or discovered lazily and re-discovered when the bridge goes away
+  let discovered: Promise<string | null> | null = null;
+  let warnedNotFound = false;
+  const resolveEndpoint = (): Promise<string | null> => {
+    if (endpointUrl) return Promise.resolve(endpointUrl);
+    if (!discovered) {
+      discovered = discoverBridge(host, ports).then((url) => {
+        if (!url) {
+          discovered = null;
+          // Once per page: re-discovery retries would repeat it every few seconds
+          if (logLevel !== "silent" && !warnedNotFound) {
+            warnedNotFound = true;
+            console.warn("[react-grab-bridge] no VS Code bridge found — is it running?");
+          }
+        } else if (logLevel === "verbose") {
+          console.log(`[react-grab-bridge] discovered bridge at ${url}`);
+        }
+        return url;
+      });
+    }
+    return discovered;
+  };
+
+  const sessionId = getSessionId();
+
+  // Snippet provider (collects source maps right away so it sees the loaded code)
+  const snippetProvider = includeSnippets
+    ? getSnippet ?? createSourceMapSnippetProvider()
+    : null;
+
   // Debounced sender
   const debouncedPost = debounce((...args: unknown[]) => {
-    const payload = args[0] as SelectionPayload;
-    postPayload(endpointUrl, payload, logLevel);
+    let payload: SelectionPayload = {
+      ...(args[0] as SelectionPayload),
+      version: PROTOCOL_VERSION,
+      pageLoadedAt: Math.round(performance.timeOrigin),
+      pageUrl: location.href,
+      sessionId,
+      framework: detectFramework(),
+    };
+    void (async () => {
+      if (snippetProvider) {
+        payload = await attachSnippets(payload, snippetProvider);
+      }
+      // Unpaired pages leave VS Code to the fallback, which adds the token server-side
+      const url = token || !fallbackUrl ? await resolveEndpoint() : null;
+      if (!url) {
+        if (fallbackUrl) await postPayload(new URL(fallbackUrl, location.href).toString(), payload, null, logLevel);
+        return;
+      }
+      const reached = await postPayload(url, payload, token, logLevel);
+      if (!reached && !endpointUrl) {
+        // The bridge may have restarted on another port — rediscover once
+        discovered = null;
+        const next = await resolveEndpoint();
+        if (next && next !== url) {
+          await postPayload(next, payload, token, logLevel);
+        }
+      }
+    })();
   }, debounceMs);
 
-  const send = (payload: SelectionPayload) => debouncedPost(payload);
+  // The picked element isn't part of React Grab's output; use what's under the pointer
+  let pointer: { x: number; y: number } | null = null;
+  const trackPointer = (e: PointerEvent) => (pointer = { x: e.clientX, y: e.clientY });
+  document.addEventListener("pointermove", trackPointer, { capture: true, passive: true });
+  document.addEventListener("pointerdown", trackPointer, { capture: true, passive: true });
+
+  // Snapshot right away — props (and classes) may change before the debounced POST
+  const send = (payload: SelectionPayload, element?: Element | null) => {
+    const target = element ?? (pointer ? reactElementAt(pointer.x, pointer.y) : null);
+    payload = { ...payload, timestamp: Date.now() };
+    // No positions from the fiber (React 19, Server Components): use the JSX stamps instead
+    if (target && !payload.frames.some((f) => f.line > 0)) {
+      const frames = annotatedFrames(target, payload.frames);
+      if (frames.length > 0) payload = { ...payload, frames };
+    }
+    if (payload.frames.length === 0) {
+      if (logLevel === "verbose") console.log("[react-grab-bridge] selection has no frames — skipped");
+      return;
+    }
+    if (target) {
+      payload = { ...payload, domPath: domPath(target), outerHTML: outerHTMLExcerpt(target) };
+    }
+    if (target && includeSnapshot && !payload.snapshot) {
+      try {
+        const snapshot = captureSnapshot(target, renderedByName(payload), snapshotMaxBytes);
+        if (snapshot) payload = { ...payload, snapshot };
+      } catch (err) {
+        if (logLevel === "verbose") console.warn("[react-grab-bridge] snapshot failed:", err);
+      }
+    }
+    if (target && includeStyles && !payload.styles) {
+      try {
+        payload = { ...payload, styles: captureStyles(target) };
+      } catch (err) {
+        if (logLevel === "verbose") console.warn("[react-grab-bridge] style capture failed:", err);
+      }
+    }
+    debouncedPost(payload);
+  };
 
   // 1. Try plugin API
   const pluginRegistered = tryPluginApi(send, logLevel);
@@ -443,9 +1596,77 @@ export function startReactGrabBridge(options: BridgeOptions = {}): () => void {
   // 2. Always install clipboard fallback as safety net
   const removeClipboard = installClipboardFallback(send, logLevel);
 
+  // 3. Page → Problems view: React warnings and uncaught errors with a stack
+  const removeErrorCapture = captureErrors
+    ? installErrorCapture((diagnostic) => {
+        const payload: DiagnosticPayload = {
+          ...diagnostic,
+          version: PROTOCOL_VERSION,
+          pageLoadedAt: Math.round(performance.timeOrigin),
+          pageUrl: location.href,
+        };
+        void (async () => {
+          const url = await resolveEndpoint();
+          if (url && !(await postQuietly(url, "/diagnostic", payload, token)) && !endpointUrl) {
+            discovered = null;
+          }
+        })();
+      }, logLevel)
+    : () => {};
+
+  // 4. Page → CodeLens: render counts and times, posted as deltas
+  const removeRenderTracker =
+    (trackRenders &&
+      installRenderTracker(
+        (stats) => {
+          const payload: RenderStatsPayload = {
+            version: PROTOCOL_VERSION,
+            stats,
+            pageLoadedAt: Math.round(performance.timeOrigin),
+            pageUrl: location.href,
+          };
+          void (async () => {
+            const url = await resolveEndpoint();
+            if (url && !(await postQuietly(url, "/renders", payload, token)) && !endpointUrl) {
+              discovered = null;
+            }
+          })();
+        },
+        renderStatsIntervalMs,
+        logLevel
+      )) ||
+    (() => {});
+
+  // 5. Editor → page: outline what VS Code asks us to reveal
+  let clearReveal = () => {};
+  let revealTimer: ReturnType<typeof setTimeout> | null = null;
+  const unsubscribe = reveal
+    ? subscribeToEditor(
+        (fresh) => {
+          if (fresh && !endpointUrl) discovered = null;
+          return resolveEndpoint();
+        },
+        token,
+        (event) => {
+          clearReveal();
+          if (revealTimer) clearTimeout(revealTimer);
+          clearReveal = revealElements(event, getElementSource);
+          if (!event.sticky) revealTimer = setTimeout(() => clearReveal(), REVEAL_DURATION);
+        },
+        logLevel
+      )
+    : () => {};
+
   // Cleanup
   return () => {
     removeClipboard();
+    removeErrorCapture();
+    removeRenderTracker();
+    document.removeEventListener("pointermove", trackPointer, { capture: true });
+    document.removeEventListener("pointerdown", trackPointer, { capture: true });
+    unsubscribe();
+    clearReveal();
+    if (revealTimer) clearTimeout(revealTimer);
     if (logLevel !== "silent") {
       console.log("[react-grab-bridge] stopped");
     }
@@ -0,0 +1,211 @@
+/**
+ * Stack trace parsers
+ *
+ * Turn copied text into frames: React Grab selections, React component
+ * stacks, V8 and Firefox/Safari call stacks (which is also how React 18/19
+ * print component and owner stacks), and Next.js error-overlay copies.
+ * Shared by the browser bridge and the VS Code extension ("Paste Stack
+ * from Clipboard"); copy it next to `reactGrabBridge.ts`.
+ */
+
+import { Frame } from "./protocol";
+
+export interface StackParser {
+  /** e.g. "v8"; reported in `ParsedStack.formats`. */
+  id: string;
+  /**
+   * "component" stacks list the React tree (`in Button (at …)`) and win over
+   * "call" stacks when a text has both, since that's what the target
+   * algorithm expects.
+   */
+  kind: "component" | "call";
+  /** One line of the text; `previous` is the line above it. Null when the line isn't in this format. */
+  parseLine(line: string, previous: string | undefined): Frame | null;
+}
+
+export interface ParsedStack {
+  /** The `@<Label>` line of a React Grab copy, if any. */
+  domLabel: string | null;
+  frames: Frame[];
+  /** Ids of the parsers that produced `frames`, in order of first match. */
+  formats: string[];
+}
+
+/** Script files worth opening (bundles included: VS Code maps them back through their source maps). */
+const SCRIPT_FILE = /\.(?:[cm]?[jt]s|[jt]sx)$/;
+
+/** Dev servers add cache-busting queries (Vite's ?t=…); they aren't part of the path. */
+function cleanFile(file: string): string {
+  return file.trim().replace(/\?[^/]*$/, "");
+}
+
+function frame(raw: string, name: string | null | undefined, file: string, line?: string, col?: string): Frame | null {
+  const clean = cleanFile(file);
+  if (!SCRIPT_FILE.test(clean)) {
+    return null;
+  }
+  const lineNum = line ? parseInt(line, 10) : 0;
+  return {
+    raw: raw.trim(),
+    name: name && name !== "<anonymous>" ? name : null,
+    file: clean,
+    line: lineNum,
+    // React 16/17 stacks have no column; start of the line then
+    col: col ? parseInt(col, 10) : lineNum > 0 ? 1 : 0,
+  };
+}
+
+/**
+ * A frame with a component or element name and no location (`in App`,
+ * `at li`), as React 19 prints component stacks without source info. Kept
+ * so the name survives; `file` is empty and line/col 0.
+ */
+function nameOnlyFrame(raw: string, name: string): Frame {
+  return { raw: raw.trim(), name, file: "", line: 0, col: 0 };
+}
+
+/* ------------------------------------------------------------------ */
+/*  Parsers                                                            */
+/* ------------------------------------------------------------------ */
+
+// "in Name (at path:l:c)", "in Name (at path:l)", "in Name (at path)"
+const reInNamed = /^\s*in\s+(.+?)\s+\(at\s+(.+?)(?::(\d+)(?::(\d+))?)?\)\s*$/;
+// "in path:l:c"
+const reInAnon = /^\s*in\s+(.+?):(\d+)(?::(\d+))?\s*$/;
+// "in App", "in li (created by App)"
+const reInNameOnly = /^\s*in\s+([A-Za-z_$][\w$.]*)(?:\s+\(created by [^)]*\))?\s*$/;
+
+/**
+ * React Grab copies and React ≤ 17 component stacks. Unknown positions
+ * become line/col 0; lines with only a name become name-only frames.
+ */
+export const reactComponentStackParser: StackParser = {
+  id: "react",
+  kind: "component",
+  parseLine(line) {
+    const named = line.match(reInNamed);
+    if (named) {
+      return frame(line, named[1], named[2], named[3], named[4]);
+    }
+    const anon = line.match(reInAnon);
+    if (anon) {
+      return frame(line, null, anon[1], anon[2], anon[3]);
+    }
+    const nameOnly = line.match(reInNameOnly);
+    return nameOnly ? nameOnlyFrame(line, nameOnly[1]) : null;
+  },
+};
+
+// "at Name (url:l:c)", "at async Name (…)", "at new Name (…)", "at url:l:c"
+const reAtNamed = /^\s*at\s+(?:async\s+)?(?:new\s+)?(.+?)\s+\((.+):(\d+):(\d+)\)\s*$/;
+const reAtAnon = /^\s*at\s+(?:async\s+)?(.+):(\d+):(\d+)\s*$/;
+// "at App", "at li" (React 19 component stacks without source info)
+const reAtNameOnly = /^\s*at\s+([A-Za-z_$][\w$.]*)\s*$/;
+
+/**
+ * Chrome/Node stacks, and React 18/19 component and owner stacks printed by
+ * Chromium (name-only frames when React has no location).
+ */
+export const v8StackParser: StackParser = {
+  id: "v8",
+  kind: "call",
+  parseLine(line) {
+    const named = line.match(reAtNamed);
+    if (named) {
+      // "Object.render [as render]" → "Object.render"
+      return frame(line, named[1].replace(/\s+\[as [^\]]+\]$/, ""), named[2], named[3], named[4]);
+    }
+    const anon = line.match(reAtAnon);
+    if (anon) {
+      return frame(line, null, anon[1], anon[2], anon[3]);
+    }
+    const nameOnly = line.match(reAtNameOnly);
+    return nameOnly ? nameOnlyFrame(line, nameOnly[1]) : null;
+  },
+};
+
+// "Name@url:l:c", "@url:l:c"
+const reGecko = /^\s*([^@\s]*)@(.+):(\d+):(\d+)\s*$/;
+
+/** Firefox and Safari stacks. */
+export const geckoStackParser: StackParser = {
+  id: "gecko",
+  kind: "call",
+  parseLine(line) {
+    const m = line.match(reGecko);
+    return m ? frame(line, m[1] || null, m[2], m[3], m[4]) : null;
+  },
+};
+
+// "src/app/page.tsx (5:9)", "src/app/page.tsx (5:9) @ Home"
+const reNextLocation = /^\s*(\S.*?)\s+\((\d+):(\d+)\)(?:\s+@\s+(.+?))?\s*$/;
+const reFunctionName = /^\s*([\w$.<>[\]]+)\s*$/;
+
+/** Next.js error overlay: a function name line, then "file (line:col)"; or "file (line:col) @ name". */
+export const nextOverlayParser: StackParser = {
+  id: "next",
+  kind: "call",
+  parseLine(line, previous) {
+    const m = line.match(reNextLocation);
+    if (!m) {
+      return null;
+    }
+    const name = m[4] ?? previous?.match(reFunctionName)?.[1] ?? null;
+    return frame(line, name, m[1], m[2], m[3]);
+  },
+};
+
+export const DEFAULT_STACK_PARSERS: readonly StackParser[] = [
+  reactComponentStackParser,
+  v8StackParser,
+  geckoStackParser,
+  nextOverlayParser,
+];
+
+/* ------------------------------------------------------------------ */
+/*  Entry points                                                       */
+/* ------------------------------------------------------------------ */
+
+/** Whether a line belongs to a stack (including `in X (created by Y)` lines without a location). */
+export function isStackLine(line: string, parsers: readonly StackParser[] = DEFAULT_STACK_PARSERS): boolean {
+  return /^\s*(?:in|at)\s+\S/.test(line) || parsers.some((p) => p.parseLine(line, undefined) !== null);
+}
+
+/**
+ * Frames from any mix of the formats `parsers` understand, innermost first.
+ * The first parser that accepts a line wins; repeats of the previous frame
+ * are dropped (error overlays show the top frame twice).
+ */
+export function parseStack(text: string, parsers: readonly StackParser[] = DEFAULT_STACK_PARSERS): ParsedStack {
+  const lines = text.split(/\r?\n/);
+  const label = lines.map((l) => l.trim().match(/^@<(.+)>$/)).find(Boolean);
+  const found: { frame: Frame; parser: StackParser }[] = [];
+
+  lines.forEach((line, i) => {
+    for (const parser of parsers) {
+      const parsed = parser.parseLine(line, i > 0 ? lines[i - 1] : undefined);
+      if (!parsed) {
+        continue;
+      }
+      const last = found[found.length - 1]?.frame;
+      const repeat =
+        last?.file === parsed.file &&
+        last.line === parsed.line &&
+        last.col === parsed.col &&
+        // Name-only frames all share an empty location
+        (parsed.file !== "" || last.name === parsed.name);
+      if (!repeat) {
+        found.push({ frame: parsed, parser });
+      }
+      break;
+    }
+  });
+
+  const components = found.filter((f) => f.parser.kind === "component");
+  const chosen = components.length > 0 ? components : found;
+  return {
+    domLabel: label ? label[1] : null,
+    frames: chosen.map((f) => f.frame),
+    formats: [...new Set(chosen.map((f) => f.parser.id))],
+  };
+}
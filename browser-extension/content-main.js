@@ -1,75 +1,530 @@
 // Runs in MAIN world (injected) — full pick flow with direct access to elements + React
-import { getReactStack, resolveElementInfo } from "element-source";
+import { getReactStack, resolveElementInfo, resolveSource } from "element-source";
 import { isSourceFile, normalizeFileName } from "bippy/source";
+import { getDisplayName, getFiberFromHostInstance, getNearestHostFiber, isCompositeFiber } from "bippy/core";
 
 const TOGGLE_EVENT = "react-grab-toggle";
+const PICK_END_EVENT = "react-grab-pick-end";
+const SAVE_ROOT_EVENT = "react-grab-save-root";
+// window.postMessage sources: our requests to content.js, its replies and reveal events
+const MAIN_SOURCE = "react-grab-main";
+const CONTENT_SOURCE = "react-grab-content";
+
+// ---- Pick mode: shadow-DOM overlay; ↑/↓ walk owner components, Enter grabs, Esc cancels ----
+const MAX_LEVELS = 30;
+const OVERLAY_CSS = `
+  :host { all: initial; position: fixed; inset: 0; pointer-events: none; z-index: 2147483647; }
+  .box { position: fixed; box-sizing: border-box; border: 2px solid #0a84ff; background: rgba(10,132,255,0.1); border-radius: 2px; display: none; }
+  .label { position: fixed; display: none; max-width: 480px; padding: 3px 8px; font: 12px/18px system-ui, sans-serif; color: #fff; background: #0a84ff; border-radius: 3px; white-space: nowrap; overflow: hidden; text-overflow: ellipsis; box-shadow: 0 2px 6px rgba(0,0,0,0.25); }
+  .name { font-weight: 600; }
+  .dim { opacity: 0.8; margin-left: 8px; }
+  .hint { position: fixed; bottom: 12px; right: 12px; padding: 4px 10px; font: 12px/18px system-ui, sans-serif; color: #fff; background: rgba(0,0,0,0.75); border-radius: 4px; }
+`;
 
 let pickMode = false;
-let lastHovered = null;
+let overlay = null;
+let cursorStyle = null;
+/** `{ element, levels, level, stack }` — levels[0] is the hovered element, then its owner components. */
+let hovered = null;
+let hoverGeneration = 0;
 
-document.addEventListener(TOGGLE_EVENT, (e) => {
-  pickMode = e.detail?.on ?? !pickMode;
-  document.body.style.cursor = pickMode ? "crosshair" : "";
-  if (!pickMode && lastHovered) {
-    lastHovered.style.outline = "";
-    lastHovered = null;
+function createOverlay() {
+  const host = document.createElement("div");
+  const root = host.attachShadow({ mode: "open" });
+  root.innerHTML = `<style>${OVERLAY_CSS}</style>
+    <div class="box"></div>
+    <div class="label"><span class="name"></span><span class="dim location"></span><span class="dim size"></span><span class="dim level"></span></div>
+    <div class="hint">↑ / ↓ parent / child component · Enter grab · Esc cancel</div>`;
+  document.documentElement.appendChild(host);
+  const $ = (selector) => root.querySelector(selector);
+  return { host, box: $(".box"), label: $(".label"), name: $(".name"), location: $(".location"), size: $(".size"), level: $(".level") };
+}
+
+function startPicking() {
+  pickMode = true;
+  overlay ??= createOverlay();
+  // A stylesheet rather than body.style, so the page's inline styles stay untouched
+  cursorStyle = document.createElement("style");
+  cursorStyle.textContent = "* { cursor: crosshair !important; }";
+  (document.head || document.documentElement).appendChild(cursorStyle);
+}
+
+function stopPicking() {
+  const wasPicking = pickMode;
+  pickMode = false;
+  hovered = null;
+  hoverGeneration++;
+  overlay?.host.remove();
+  overlay = null;
+  cursorStyle?.remove();
+  cursorStyle = null;
+  if (wasPicking) document.dispatchEvent(new CustomEvent(PICK_END_EVENT));
+}
+
+/** The component that rendered `fiber` (`_debugOwner` in dev builds), else its nearest component ancestor. */
+function ownerOf(fiber) {
+  const owner = fiber._debugOwner;
+  if (owner && typeof owner.tag === "number") return owner;
+  for (let f = fiber.return; f; f = f.return) {
+    if (isCompositeFiber(f)) return f;
   }
-});
+  return null;
+}
 
-document.addEventListener("mouseover", (e) => {
-  if (!pickMode) return;
-  if (lastHovered) lastHovered.style.outline = "";
-  lastHovered = e.target;
-  lastHovered.style.outline = "2px solid blue";
-});
+function hostElementOf(fiber, fallback) {
+  const node = getNearestHostFiber(fiber)?.stateNode;
+  return node instanceof Element ? node : fallback;
+}
 
-document.addEventListener("mouseout", (e) => {
-  if (!pickMode) return;
-  e.target.style.outline = "";
-});
+/** Owner components of `element`, each with the DOM node to outline and its frame in the React stack. */
+async function resolveLevels(element) {
+  const fiber = getFiberFromHostInstance(element);
+  const owners = [];
+  for (let f = fiber && ownerOf(fiber); f && owners.length < MAX_LEVELS; f = ownerOf(f)) owners.push(f);
+  if (owners.length === 0) return { levels: [{ element, name: null, frame: null, frameIndex: undefined }], stack: [] };
 
-document.addEventListener("click", async (e) => {
-  if (!pickMode) return;
-  e.preventDefault();
-  e.stopPropagation();
+  // The stack has one frame per owner, innermost first; match them up by name
+  const stack = (await getReactStack(element)) ?? [];
+  let next = 0;
+  const levels = owners.map((owner, i) => {
+    const name = getDisplayName(owner.type);
+    const index = stack.findIndex((f, j) => j >= next && f.functionName === name);
+    if (index !== -1) next = index + 1;
+    return {
+      element: i === 0 ? element : hostElementOf(owner, element),
+      name,
+      frame: index !== -1 ? stack[index] : null,
+      frameIndex: index !== -1 ? index : undefined,
+    };
+  });
+  return { levels, stack };
+}
 
-  if (lastHovered) lastHovered.style.outline = "";
-  pickMode = false;
-  document.body.style.cursor = "";
+// ---- data-grab-src stamps (build-plugins/babel.js): sources when React has none (React 19, Server Components) ----
+const SOURCE_ATTRIBUTE = "data-grab-src";
+
+/** "src/Card.tsx:12:5" as an element-source frame, or null. */
+function stampedFrame(element) {
+  const m = element.getAttribute(SOURCE_ATTRIBUTE)?.match(/^(.+):(\d+):(\d+)$/);
+  return m ? { functionName: null, fileName: m[1], lineNumber: Number(m[2]), columnNumber: Number(m[3]) } : null;
+}
+
+/** Stamps up the DOM ancestry, innermost first; one per run of elements from the same file. */
+function stampedStack(element) {
+  const stack = [];
+  for (let el = element; el && stack.length < MAX_LEVELS; el = el.parentElement) {
+    const frame = stampedFrame(el);
+    if (frame && stack[stack.length - 1]?.fileName !== frame.fileName) stack.push(frame);
+  }
+  return stack;
+}
+
+function shortPath(fileName) {
+  return normalizeFileName(fileName).split("/").slice(-3).join("/");
+}
+
+function renderOverlay() {
+  if (!overlay || !hovered) return;
+  const { element, name } = hovered.levels[hovered.level];
+  const frame = hovered.levels[hovered.level].frame ?? stampedFrame(element);
+  const r = element.getBoundingClientRect();
+  Object.assign(overlay.box.style, {
+    display: "block",
+    top: `${r.top}px`,
+    left: `${r.left}px`,
+    width: `${r.width}px`,
+    height: `${r.height}px`,
+  });
+  overlay.name.textContent = name ?? element.localName;
+  overlay.location.textContent = frame?.fileName
+    ? `${shortPath(frame.fileName)}${frame.lineNumber ? `:${frame.lineNumber}` : ""}`
+    : "";
+  overlay.size.textContent = `${Math.round(r.width)} × ${Math.round(r.height)}`;
+  overlay.level.textContent = hovered.levels.length > 1 ? `${hovered.level + 1}/${hovered.levels.length}` : "";
+  // Above the box when there's room, else below; kept inside the viewport
+  overlay.label.style.display = "block";
+  const labelHeight = overlay.label.offsetHeight;
+  const top = r.top - labelHeight - 4 >= 0 ? r.top - labelHeight - 4 : Math.min(r.bottom + 4, innerHeight - labelHeight);
+  overlay.label.style.top = `${Math.max(0, top)}px`;
+  overlay.label.style.left = `${Math.max(0, Math.min(r.left, innerWidth - overlay.label.offsetWidth))}px`;
+}
+
+function hover(element) {
+  const generation = ++hoverGeneration;
+  hovered = { element, levels: [{ element, name: null, frame: null, frameIndex: undefined }], level: 0, stack: [] };
+  renderOverlay();
+  resolveLevels(element)
+    .then((resolved) => {
+      if (generation !== hoverGeneration) return; // the pointer moved on
+      hovered = { element, level: 0, ...resolved };
+      renderOverlay();
+    })
+    .catch(() => {});
+}
 
+async function commit() {
+  const pick = hovered;
+  stopPicking();
+  if (!pick) return;
+  const { element, frameIndex } = pick.levels[pick.level];
   try {
-    const info = await resolveElementInfo(e.target);
-    if (!info?.source) return;
-    // Prefer the frame with the highest line number — usually the actual JSX render
-    // site (e.g. <header>{weeks}</header>) rather than the variable declaration
-    const rawStack = await getReactStack(e.target);
-    const sourceFrames = (rawStack ?? [])
-      .filter((f) => f.fileName && isSourceFile(f.fileName))
-      .map((f) => ({
-        filePath: normalizeFileName(f.fileName),
-        lineNumber: f.lineNumber ?? null,
-        columnNumber: f.columnNumber ?? null,
-      }));
-    const best =
-      sourceFrames.length > 0
-        ? sourceFrames.reduce((a, b) =>
-            (b.lineNumber ?? 0) > (a.lineNumber ?? 0) ? b : a
-          )
-        : info.source;
-    const { filePath, lineNumber, columnNumber } = best;
-    const line = lineNumber ?? 1;
-    const col = columnNumber ?? 1;
-    const configEl = document.getElementById("react-grab-config");
-    const root = (configEl?.dataset?.projectRoot || "").trim().replace(/\/$/, "");
-    if (!root) {
-      alert("Set your project path: right-click the React Grab icon → Options");
-      return;
-    }
-    const fullPath = `${root}/${filePath.replace(/^\//, "")}`;
-    const url = `cursor://file/${fullPath}:${line}:${col}`;
-    const w = window.open(url, "_blank", "noopener,noreferrer");
-    if (!w) window.location.href = url;
+    const info = await resolveElementInfo(element);
+    const rawStack = frameIndex !== undefined ? pick.stack.slice(frameIndex) : (await getReactStack(element)) ?? [];
+    await openPick(element, info, rawStack, pick.level > 0);
   } catch (err) {
     // Silently ignore
   }
-}, true);
+}
+
+document.addEventListener(TOGGLE_EVENT, (e) => {
+  const on = e.detail?.on ?? !pickMode;
+  if (on && !pickMode) startPicking();
+  else if (!on && pickMode) stopPicking();
+});
+
+document.addEventListener(
+  "mouseover",
+  (e) => {
+    if (!pickMode || !(e.target instanceof Element) || e.target === hovered?.element) return;
+    hover(e.target);
+  },
+  true
+);
+
+document.addEventListener(
+  "click",
+  (e) => {
+    if (!pickMode) return;
+    e.preventDefault();
+    e.stopPropagation();
+    commit();
+  },
+  true
+);
+
+document.addEventListener(
+  "keydown",
+  (e) => {
+    if (!pickMode) return;
+    if (e.key === "Escape") {
+      stopPicking();
+    } else if (e.key === "Enter") {
+      if (hovered) commit();
+    } else if ((e.key === "ArrowUp" || e.key === "ArrowDown") && hovered) {
+      const step = e.key === "ArrowUp" ? 1 : -1;
+      hovered.level = Math.max(0, Math.min(hovered.levels.length - 1, hovered.level + step));
+      renderOverlay();
+    } else {
+      return;
+    }
+    e.preventDefault();
+    e.stopPropagation();
+  },
+  true
+);
+
+addEventListener("scroll", () => pickMode && renderOverlay(), { capture: true, passive: true });
+addEventListener("resize", () => pickMode && renderOverlay());
+
+/** `walked`: the user moved up to an owner component, so its own frame is the one to open. */
+async function openPick(element, info, rawStack, walked) {
+  if (!rawStack.some((f) => f.fileName && f.lineNumber)) {
+    const stamped = stampedStack(element);
+    if (stamped.length > 0) rawStack = stamped;
+  }
+  const config = document.getElementById("react-grab-config")?.dataset ?? {};
+  const target = config.editorTarget || "cursor";
+  if (target === "bridge") {
+    await sendToBridge(element, info, rawStack);
+    return;
+  }
+  // Otherwise prefer the frame with the highest line number — usually the actual JSX
+  // render site (e.g. <header>{weeks}</header>) rather than the variable declaration
+  const sourceFrames = rawStack
+    .filter((f) => f.fileName && isSourceFile(f.fileName))
+    .map((f) => ({
+      filePath: normalizeFileName(f.fileName),
+      lineNumber: f.lineNumber ?? null,
+      columnNumber: f.columnNumber ?? null,
+    }));
+  let best = info?.source;
+  if (sourceFrames.length > 0) {
+    best = walked
+      ? sourceFrames[0]
+      : sourceFrames.reduce((a, b) => ((b.lineNumber ?? 0) > (a.lineNumber ?? 0) ? b : a));
+  }
+  if (!best) return;
+  const { filePath, lineNumber, columnNumber } = best;
+  const open = (root) => openInEditor(target, root, filePath, lineNumber ?? 1, columnNumber ?? 1);
+  const root = (config.projectRoot || "").trim();
+  if (root) {
+    open(root);
+    return;
+  }
+  // No root for this origin: ask the VS Code bridge which folders it has open
+  const folders = (await bridgeRequest("folders")) ?? [];
+  if (folders.length === 1) {
+    open(folders[0]);
+  } else if (folders.length > 1) {
+    showNotice(
+      `Which project is ${location.host} from? It will be remembered for this origin.`,
+      folders.map((folder) => ({
+        label: folder,
+        run: () => {
+          document.dispatchEvent(new CustomEvent(SAVE_ROOT_EVENT, { detail: { root: folder } }));
+          open(folder);
+        },
+      }))
+    );
+  } else {
+    showNotice(
+      `No project root for ${location.host}. Add one in the React Grab options (right-click the icon → Options), or open the project in VS Code with the React Grab bridge running.`
+    );
+  }
+}
+
+function openInEditor(target, root, filePath, line, col) {
+  const fullPath = `/${root.replace(/\\/g, "/").replace(/^\/+|\/+$/g, "")}/${filePath.replace(/^\//, "")}`;
+  const url = (EDITOR_URLS[target] ?? EDITOR_URLS.cursor)(fullPath, line, col);
+  const w = window.open(url, "_blank", "noopener,noreferrer");
+  if (!w) window.location.href = url;
+}
+
+// ---- VS Code bridge: content.js holds the pairing token and makes the requests ----
+const BRIDGE_TIMEOUT = 15000;
+let bridgeRequestId = 0;
+
+/** Ask content.js to talk to the bridge: "folders" → string[], "selection" → { status, text }. Null on timeout. */
+function bridgeRequest(type, payload) {
+  const id = ++bridgeRequestId;
+  return new Promise((resolve) => {
+    const done = (result) => {
+      clearTimeout(timer);
+      removeEventListener("message", onMessage);
+      resolve(result);
+    };
+    const onMessage = (e) => {
+      if (e.source === window && e.data?.source === CONTENT_SOURCE && e.data.id === id) done(e.data.result);
+    };
+    const timer = setTimeout(() => done(null), BRIDGE_TIMEOUT);
+    addEventListener("message", onMessage);
+    postMessage({ source: MAIN_SOURCE, id, type, payload }, location.origin);
+  });
+}
+
+// ---- Editor targets: URL schemes, or the VS Code bridge with the whole stack ----
+// `path` starts with "/" ("/C:/…" on Windows)
+const EDITOR_URLS = {
+  vscode: (path, line, col) => `vscode://file${path}:${line}:${col}`,
+  cursor: (path, line, col) => `cursor://file${path}:${line}:${col}`,
+  windsurf: (path, line, col) => `windsurf://file${path}:${line}:${col}`,
+  zed: (path, line, col) => `zed://file${path}:${line}:${col}`,
+  jetbrains: (path, line, col) =>
+    `idea://open?file=${encodeURIComponent(path.replace(/^\/(?=[A-Za-z]:)/, ""))}&line=${line}&column=${col}`,
+};
+const MAX_OUTER_HTML = 2000;
+
+/** Protocol 2 frames (see browser-bridge/protocol.ts); unknown positions are sent as null. */
+function toBridgeFrames(rawStack, info) {
+  const frames = rawStack
+    .filter((f) => f.fileName)
+    .map((f) => {
+      // Bundle URLs are kept as-is so VS Code can apply their source maps
+      const file = isSourceFile(f.fileName) ? normalizeFileName(f.fileName) : f.fileName;
+      const name = f.functionName || null;
+      const line = f.lineNumber || null;
+      const col = line ? f.columnNumber || 1 : null;
+      const at = line ? `${file}:${line}:${col}` : file;
+      return { raw: name ? `in ${name} (at ${at})` : `in ${at}`, name, file, line, col };
+    });
+  if (frames.length === 0 && info?.source) {
+    const { filePath, lineNumber, columnNumber } = info.source;
+    const line = lineNumber || null;
+    const col = line ? columnNumber || 1 : null;
+    frames.push({
+      raw: `in ${line ? `${filePath}:${line}:${col}` : filePath}`,
+      name: info.componentName,
+      file: filePath,
+      line,
+      col,
+    });
+  }
+  return frames;
+}
+
+async function sendToBridge(element, info, rawStack) {
+  const frames = toBridgeFrames(rawStack, info);
+  if (frames.length === 0) return;
+  const payload = {
+    version: 2,
+    domLabel: info?.componentName ?? info?.tagName ?? element.localName,
+    frames,
+    pageUrl: location.href,
+    pageLoadedAt: Math.round(performance.timeOrigin),
+    timestamp: Date.now(),
+    outerHTML: element.outerHTML.slice(0, MAX_OUTER_HTML),
+  };
+  const res = await bridgeRequest("selection", payload);
+  if (!res?.status) {
+    showNotice("VS Code bridge not found. Run “React Grab: Start Bridge” in VS Code.");
+  } else if (res.status === 401) {
+    showNotice("Paste the VS Code pairing token in the React Grab options (right-click the icon → Options).");
+  } else if (res.status >= 400) {
+    console.warn("[react-grab] bridge rejected the selection:", res.text);
+  }
+}
+
+// ---- Notices: a dismissible toast instead of alert() ----
+const NOTICE_DURATION = 10000;
+const NOTICE_CSS = `
+  :host { all: initial; position: fixed; right: 16px; bottom: 16px; z-index: 2147483647; }
+  .notice { max-width: 420px; padding: 10px 12px; font: 13px/18px system-ui, sans-serif; color: #fff; background: #1f2328; border-radius: 6px; box-shadow: 0 4px 12px rgba(0,0,0,0.3); }
+  .title { font-weight: 600; margin-right: 4px; }
+  .actions { display: flex; flex-direction: column; gap: 4px; margin-top: 8px; }
+  button { all: unset; cursor: pointer; padding: 4px 8px; border-radius: 4px; background: #0a84ff; color: #fff; font: 12px/18px ui-monospace, monospace; overflow-wrap: anywhere; }
+  button:hover { background: #0066cc; }
+  .close { float: right; margin: -4px -4px 0 8px; background: none; font: 14px/18px system-ui, sans-serif; }
+  .close:hover { background: rgba(255,255,255,0.15); }
+`;
+
+let notice = null;
+
+/** Show `message` in the page's corner; `actions` become buttons that also dismiss it. */
+function showNotice(message, actions = []) {
+  notice?.remove();
+  const host = document.createElement("div");
+  const root = host.attachShadow({ mode: "open" });
+  root.innerHTML = `<style>${NOTICE_CSS}</style>
+    <div class="notice"><button class="close" title="Dismiss">✕</button><span class="title">React Grab</span><span class="message"></span><div class="actions"></div></div>`;
+  root.querySelector(".message").textContent = message;
+  const dismiss = () => {
+    clearTimeout(timer);
+    host.remove();
+    if (notice === host) notice = null;
+  };
+  root.querySelector(".close").onclick = dismiss;
+  for (const action of actions) {
+    const button = document.createElement("button");
+    button.textContent = action.label;
+    button.onclick = () => {
+      dismiss();
+      action.run();
+    };
+    root.querySelector(".actions").appendChild(button);
+  }
+  // Choices stay until answered; plain messages fade
+  const timer = actions.length === 0 ? setTimeout(dismiss, NOTICE_DURATION) : undefined;
+  document.documentElement.appendChild(host);
+  notice = host;
+}
+
+// ---- Reveal in Browser: outline elements VS Code asks for (content.js relays /events) ----
+const REVEAL_DURATION = 3000;
+const MAX_OUTLINES = 200;
+/** Source lookups run this many at a time. */
+const REVEAL_BATCH = 50;
+
+let revealLayer = null;
+let revealTimer = null;
+let revealGeneration = 0;
+/** The last event's matches; follow-cursor repeats the same event while the cursor stays in one element. */
+let lastReveal = null;
+/** element → Promise<{ filePath, lineNumber } | null>; an element's source doesn't change while it's mounted. */
+const sourceCache = new WeakMap();
+
+function sourceMatchesFile(filePath, event) {
+  const key = filePath.replace(/\\/g, "/").replace(/^(\.?\/)+/, "");
+  const abs = event.absPath.replace(/^\/+/, "");
+  return key === event.file || key.endsWith("/" + event.file) || key === abs || (key.includes("/") && abs.endsWith("/" + key));
+}
+
+function clearReveal() {
+  clearTimeout(revealTimer);
+  revealLayer?.remove();
+  revealLayer = null;
+}
+
+/** Elements that can have a source: a dev-build fiber with a location, or a build-time stamp. */
+function mayHaveSource(el) {
+  if (el.hasAttribute(SOURCE_ATTRIBUTE)) return true;
+  const fiber = getFiberFromHostInstance(el);
+  return Boolean(fiber && (fiber._debugSource || fiber._debugStack));
+}
+
+function cachedSource(el) {
+  let src = sourceCache.get(el);
+  if (!src) {
+    src = resolveSource(el)
+      .catch(() => null)
+      .then((resolved) => {
+        if (resolved?.filePath && resolved.lineNumber) return resolved;
+        const stamped = stampedFrame(el);
+        return stamped && { filePath: stamped.fileName, lineNumber: stamped.lineNumber };
+      });
+    sourceCache.set(el, src);
+  }
+  return src;
+}
+
+function revealKey(event) {
+  return JSON.stringify([event.absPath, event.file, event.startLine, event.endLine]);
+}
+
+async function findRevealMatches(event, generation) {
+  const candidates = [...document.body.querySelectorAll("*")].filter(mayHaveSource);
+  const matches = [];
+  for (let i = 0; i < candidates.length && matches.length < MAX_OUTLINES; i += REVEAL_BATCH) {
+    const batch = candidates.slice(i, i + REVEAL_BATCH);
+    const sources = await Promise.all(batch.map(cachedSource));
+    if (generation !== revealGeneration) return null; // a newer event arrived while resolving
+    sources.forEach((src, j) => {
+      const line = src?.lineNumber;
+      if (line && line >= event.startLine && line <= event.endLine && sourceMatchesFile(normalizeFileName(src.filePath), event)) {
+        matches.push(batch[j]);
+      }
+    });
+  }
+  return matches.slice(0, MAX_OUTLINES);
+}
+
+async function reveal(event) {
+  const generation = ++revealGeneration;
+  const key = revealKey(event);
+  let matches;
+  if (lastReveal?.key === key && lastReveal.matches.every((el) => el.isConnected)) {
+    matches = lastReveal.matches;
+  } else {
+    matches = await findRevealMatches(event, generation);
+    if (!matches) return;
+    lastReveal = { key, matches };
+  }
+  clearReveal();
+  if (matches.length === 0) return;
+
+  revealLayer = document.createElement("div");
+  revealLayer.style.cssText = "position:absolute;top:0;left:0;width:0;height:0;pointer-events:none;z-index:2147483647;";
+  matches.forEach((el, i) => {
+    const r = el.getBoundingClientRect();
+    if (r.width === 0 && r.height === 0) return;
+    const box = document.createElement("div");
+    box.style.cssText = `position:absolute;top:${r.top + scrollY}px;left:${r.left + scrollX}px;width:${r.width}px;height:${r.height}px;box-sizing:border-box;border:2px solid #0a84ff;background:rgba(10,132,255,0.08);border-radius:2px;`;
+    if (i === 0) {
+      const label = document.createElement("div");
+      label.textContent = event.name ?? `${event.file}:${event.line}`;
+      label.style.cssText = "position:absolute;top:-20px;left:-2px;padding:1px 6px;font:12px/18px system-ui,sans-serif;color:#fff;background:#0a84ff;border-radius:2px;white-space:nowrap;";
+      box.appendChild(label);
+    }
+    revealLayer.appendChild(box);
+  });
+  document.body.appendChild(revealLayer);
+
+  const r = matches[0].getBoundingClientRect();
+  if (r.bottom < 0 || r.top > innerHeight) matches[0].scrollIntoView({ block: "center", behavior: "smooth" });
+  if (!event.sticky) revealTimer = setTimeout(clearReveal, REVEAL_DURATION);
+}
+
+addEventListener("message", (e) => {
+  if (e.source === window && e.data?.source === CONTENT_SOURCE && e.data.type === "reveal" && e.data.event) {
+    reveal(e.data.event);
+  }
+});
@@ -1,7 +1,20 @@
-// Runs in ISOLATED world — injects MAIN script and forwards toggle from extension
+// Runs in ISOLATED world — injects MAIN script, forwards toggle from extension, and talks to
+// the VS Code bridge so the pairing token never reaches the page
 const TOGGLE_EVENT = "react-grab-toggle";
+const PICK_END_EVENT = "react-grab-pick-end";
+const SAVE_ROOT_EVENT = "react-grab-save-root";
+// window.postMessage sources: requests from content-main.js, replies and reveal events from here
+const MAIN_SOURCE = "react-grab-main";
+const CONTENT_SOURCE = "react-grab-content";
 
-function injectConfig(root) {
+/** Root for this page: a table entry matching its origin, host or port, else the default. */
+function findProjectRoot(projectRoots = [], fallback = "") {
+  const keys = [location.origin, location.host, location.port];
+  const entry = projectRoots.find(({ match }) => keys.includes(match.trim().replace(/\/$/, "")));
+  return entry?.root || fallback || "";
+}
+
+function injectConfig({ projectRoot, projectRoots, editorTarget }) {
   let el = document.getElementById("react-grab-config");
   if (!el) {
     el = document.createElement("div");
@@ -9,7 +22,8 @@ function injectConfig(root) {
     el.style.display = "none";
     (document.head || document.documentElement).appendChild(el);
   }
-  el.dataset.projectRoot = root || "";
+  el.dataset.projectRoot = findProjectRoot(projectRoots, projectRoot);
+  el.dataset.editorTarget = editorTarget || "cursor";
 }
 
 function injectMain() {
@@ -19,21 +33,145 @@ function injectMain() {
   (document.head || document.documentElement).appendChild(script);
 }
 
-chrome.storage.local.get("projectRoot").then(({ projectRoot }) => {
-  injectConfig(projectRoot);
+const CONFIG_KEYS = ["projectRoot", "projectRoots", "editorTarget"];
+let pairingToken = "";
+
+chrome.storage.local.get([...CONFIG_KEYS, "pairingToken"]).then((config) => {
+  pairingToken = config.pairingToken || "";
+  injectConfig(config);
   injectMain();
+  subscribeToEditor();
 });
 
 chrome.storage.onChanged.addListener((changes, area) => {
-  if (area === "local" && "projectRoot" in changes) {
-    injectConfig(changes.projectRoot.newValue);
+  if (area !== "local") return;
+  if ("pairingToken" in changes) {
+    pairingToken = changes.pairingToken.newValue || "";
+    reconnectEvents();
+  }
+  if (CONFIG_KEYS.some((key) => key in changes)) {
+    chrome.storage.local.get(CONFIG_KEYS).then(injectConfig);
   }
 });
 
+// A root picked from the page's notice is remembered for this origin
+document.addEventListener(SAVE_ROOT_EVENT, async (e) => {
+  const root = e.detail?.root;
+  if (typeof root !== "string" || !root) return;
+  const { projectRoots = [] } = await chrome.storage.local.get("projectRoots");
+  const others = projectRoots.filter(({ match }) => match !== location.origin);
+  await chrome.storage.local.set({ projectRoots: [...others, { match: location.origin, root }] });
+});
+
 let pickMode = false;
+/** When a pick the user started from the icon ended; one bridge request is allowed shortly after. */
+let pickEndedAt = 0;
+const PICK_REQUEST_WINDOW = 30000;
+// The page side ends pick mode itself on Enter, Esc or click
+document.addEventListener(PICK_END_EVENT, () => {
+  if (pickMode) pickEndedAt = Date.now();
+  pickMode = false;
+});
 chrome.runtime.onMessage.addListener((msg) => {
   if (msg.type === "TOGGLE_PICK_MODE") {
     pickMode = !pickMode;
     document.dispatchEvent(new CustomEvent(TOGGLE_EVENT, { detail: { on: pickMode }, bubbles: true }));
   }
 });
+
+// ---- VS Code bridge: requests from content-main.js, made here with the token ----
+const BRIDGE_PORTS = Array.from({ length: 11 }, (_, i) => 3344 + i);
+
+async function findBridge() {
+  for (const port of BRIDGE_PORTS) {
+    try {
+      const res = await fetch(`http://127.0.0.1:${port}/health`, { signal: AbortSignal.timeout(500) });
+      if ((await res.json()).server === "react-grab-bridge") return `http://127.0.0.1:${port}`;
+    } catch {
+      // not this port
+    }
+  }
+  return null;
+}
+
+/** Folders of the VS Code windows behind the bridge; [] when unreachable. */
+async function workspaceFolders() {
+  const base = await findBridge();
+  if (!base) return [];
+  try {
+    const res = await fetch(`${base}/health`, { headers: { "X-React-Grab-Token": pairingToken } });
+    const { workspaceFolders } = await res.json();
+    return Array.isArray(workspaceFolders) ? workspaceFolders : [];
+  } catch {
+    return [];
+  }
+}
+
+/** POST a selection; `{ status: 0 }` when no bridge answers. */
+async function postSelection(payload) {
+  const base = await findBridge();
+  if (!base) return { status: 0 };
+  try {
+    const res = await fetch(`${base}/selection`, {
+      method: "POST",
+      headers: { "Content-Type": "application/json", "X-React-Grab-Token": pairingToken },
+      body: JSON.stringify(payload),
+    });
+    return { status: res.status, text: res.ok ? "" : await res.text() };
+  } catch {
+    return { status: 0 };
+  }
+}
+
+const BRIDGE_REQUESTS = { folders: workspaceFolders, selection: postSelection };
+
+// Any page script can post messages, so only the one request that follows a pick is served
+window.addEventListener("message", async (e) => {
+  const msg = e.data;
+  if (e.source !== window || msg?.source !== MAIN_SOURCE || !(msg.type in BRIDGE_REQUESTS)) return;
+  const allowed = Date.now() - pickEndedAt < PICK_REQUEST_WINDOW;
+  pickEndedAt = 0;
+  const result = allowed ? await BRIDGE_REQUESTS[msg.type](msg.payload) : null;
+  window.postMessage({ source: CONTENT_SOURCE, id: msg.id, result }, location.origin);
+});
+
+// ---- Reveal in Browser: subscribe to /events and pass reveal events to the page ----
+let events = null;
+let eventsTimer = null;
+/** Bumped on reconnect so a discovery still in flight doesn't open a second stream. */
+let eventsGeneration = 0;
+
+async function subscribeToEditor(delay = 2000, generation = eventsGeneration) {
+  const base = await findBridge();
+  if (generation !== eventsGeneration) return;
+  if (!base) {
+    eventsTimer = setTimeout(() => subscribeToEditor(Math.min(delay * 2, 30000), generation), delay);
+    return;
+  }
+  const source = new EventSource(`${base}/events?token=${encodeURIComponent(pairingToken)}`);
+  events = source;
+  source.onopen = () => (delay = 2000);
+  source.addEventListener("reveal", (e) => {
+    try {
+      window.postMessage({ source: CONTENT_SOURCE, type: "reveal", event: JSON.parse(e.data) }, location.origin);
+    } catch {
+      // malformed event
+    }
+  });
+  // Reconnect ourselves so a bridge that moved port (or a new token) is picked up
+  source.onerror = () => {
+    source.close();
+    if (events === source) events = null;
+    if (generation === eventsGeneration) {
+      eventsTimer = setTimeout(() => subscribeToEditor(Math.min(delay * 2, 30000), generation), delay);
+    }
+  };
+}
+
+function reconnectEvents() {
+  eventsGeneration++;
+  clearTimeout(eventsTimer);
+  events?.close();
+  events = null;
+  subscribeToEditor();
+}
@@ -1,9 +1,35 @@
+const rows = document.getElementById("projectRoots");
+
+function addRow(match = "", root = "") {
+  const tr = document.createElement("tr");
+  tr.innerHTML = `
+    <td><input type="text" class="match" placeholder="localhost:3000"></td>
+    <td><input type="text" class="root" placeholder="/Users/you/projects/my-app"></td>
+    <td><button class="secondary" title="Remove">✕</button></td>`;
+  tr.querySelector(".match").value = match;
+  tr.querySelector(".root").value = root;
+  tr.querySelector("button").onclick = () => tr.remove();
+  rows.appendChild(tr);
+}
+
+document.getElementById("addRoot").onclick = () => addRow();
+
 document.getElementById("save").onclick = async () => {
   const path = document.getElementById("projectRoot").value.trim();
-  await chrome.storage.local.set({ projectRoot: path });
-  document.getElementById("status").textContent = path ? "Saved." : "Cleared.";
+  const pairingToken = document.getElementById("pairingToken").value.trim();
+  const editorTarget = document.getElementById("editorTarget").value;
+  const projectRoots = [...rows.querySelectorAll("tr")]
+    .map((tr) => ({ match: tr.querySelector(".match").value.trim(), root: tr.querySelector(".root").value.trim() }))
+    .filter((entry) => entry.match && entry.root);
+  await chrome.storage.local.set({ projectRoot: path, projectRoots, pairingToken, editorTarget });
+  document.getElementById("status").textContent = "Saved.";
 };
 
-chrome.storage.local.get("projectRoot").then(({ projectRoot }) => {
-  document.getElementById("projectRoot").value = projectRoot || "";
-});
+chrome.storage.local
+  .get(["projectRoot", "projectRoots", "pairingToken", "editorTarget"])
+  .then(({ projectRoot, projectRoots, pairingToken, editorTarget }) => {
+    document.getElementById("projectRoot").value = projectRoot || "";
+    document.getElementById("pairingToken").value = pairingToken || "";
+    document.getElementById("editorTarget").value = editorTarget || "cursor";
+    (projectRoots ?? []).forEach(({ match, root }) => addRow(match, root));
+  });
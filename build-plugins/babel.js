@@ -0,0 +1,102 @@
+/**
+ * Babel plugin — stamps JSX host elements with where they were written.
+ *
+ *   <div className="card">  →  <div className="card" data-grab-src="src/Card.tsx:12:5">
+ *
+ * React 19 dropped `_debugSource`, and Server Components never reach the
+ * client fiber tree, so the browser bridge and the browser extension fall
+ * back to these attributes (read up the DOM ancestry) when a picked
+ * element has no source location. Only host elements (`<div>`, `<svg>`,
+ * `<my-element>`) are stamped: components and fragments would get an
+ * unknown prop.
+ *
+ * Usage (.babelrc / babel.config.js), development only:
+ *
+ *   { "env": { "development": { "plugins": ["<path>/build-plugins/babel.js"] } } }
+ *
+ * Options:
+ *   root   Paths are written relative to it (default: Babel's `root`, else cwd).
+ *          Files outside it keep their absolute path.
+ *
+ * Does nothing when Babel's env is "production". For SWC projects (Next.js)
+ * use `webpack-loader.js`, which runs only this plugin before SWC.
+ */
+
+const path = require("path");
+
+const ATTRIBUTE = "data-grab-src";
+
+/** `<div>`, `<my-element>`: lower-case plain names. `<Foo>`, `<a.b>`, `<svg:rect>` and `<>` are skipped. */
+function isHostElement(name) {
+  return name.type === "JSXIdentifier" && /^[a-z]/.test(name.name);
+}
+
+function sourcePath(filename, root) {
+  const relative = path.relative(root, filename);
+  const file = relative && !relative.startsWith("..") && !path.isAbsolute(relative) ? relative : filename;
+  return file.split(path.sep).join("/");
+}
+
+module.exports = function reactGrabSourcePlugin(api, options = {}) {
+  const production = typeof api.env === "function" && api.env() === "production";
+
+  return {
+    name: "react-grab-source",
+    visitor: {
+      JSXOpeningElement(nodePath, state) {
+        const { node } = nodePath;
+        const filename = state.filename ?? state.file.opts.filename;
+        if (production || !filename || !node.loc || /[\\/]node_modules[\\/]/.test(filename)) {
+          return;
+        }
+        if (!isHostElement(node.name)) {
+          return;
+        }
+        const stamped = node.attributes.some(
+          (a) => a.type === "JSXAttribute" && a.name.type === "JSXIdentifier" && a.name.name === ATTRIBUTE
+        );
+        if (stamped) {
+          return;
+        }
+        const root = options.root ?? state.file.opts.root ?? state.cwd ?? process.cwd();
+        const { line, column } = node.loc.start;
+        const t = api.types;
+        node.attributes.push(
+          t.jsxAttribute(
+            t.jsxIdentifier(ATTRIBUTE),
+            // Babel columns are 0-based; editors and the bridge count from 1
+            t.stringLiteral(`${sourcePath(filename, root)}:${line}:${column + 1}`)
+          )
+        );
+      },
+    },
+  };
+};
+
+/** `<T>value` is a cast in .ts files, so JSX is only parsed where it can appear. */
+function parserPlugins(filename) {
+  if (/\.ts$/.test(filename)) return ["typescript"];
+  return /\.tsx$/.test(filename) ? ["jsx", "typescript"] : ["jsx"];
+}
+
+/**
+ * Run only this plugin over one file, with the app's `@babel/core` (this
+ * file usually lives outside the app's node_modules). Used by the webpack
+ * loader and the Vite plugin; line numbers are kept.
+ */
+function stampSources(code, filename, { root = process.cwd(), inputSourceMap } = {}) {
+  const babel = require(require.resolve("@babel/core", { paths: [root, __dirname] }));
+  return babel.transformAsync(code, {
+    filename,
+    babelrc: false,
+    configFile: false,
+    sourceMaps: true,
+    inputSourceMap: inputSourceMap || undefined,
+    parserOpts: { plugins: parserPlugins(filename) },
+    generatorOpts: { retainLines: true },
+    plugins: [[module.exports, { root }]],
+  });
+}
+
+module.exports.ATTRIBUTE = ATTRIBUTE;
+module.exports.stampSources = stampSources;
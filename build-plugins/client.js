@@ -0,0 +1,5 @@
+// Client entry added by next.js in development. The options are inlined
+// through the Next.js `env` config.
+import { startReactGrabBridge } from "../browser-bridge/reactGrabBridge";
+
+startReactGrabBridge(JSON.parse(process.env.REACT_GRAB_BRIDGE_OPTIONS || "{}"));
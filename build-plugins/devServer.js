@@ -0,0 +1,295 @@
+/**
+ * Dev-server side shared by the Vite plugin and the Next.js wrapper:
+ * the options the injected bridge starts with, and the
+ * `/__react-grab/open` endpoint.
+ *
+ * `POST /__react-grab/open` takes a selection (the body of
+ * `POST /selection`, see browser-bridge/protocol.ts). It's forwarded to the
+ * VS Code bridge found through ~/.react-grab/bridge.json. When no bridge is
+ * running, the first frame in the project is opened with
+ * $REACT_EDITOR / $VISUAL / $EDITOR instead.
+ *
+ * Only same-origin JSON requests from this machine are accepted: the
+ * endpoint can start programs, and the dev server may listen on the LAN.
+ */
+
+const { spawn } = require("child_process");
+const fs = require("fs");
+const http = require("http");
+const os = require("os");
+const path = require("path");
+
+const OPEN_PATH = "/__react-grab/open";
+const MAX_BODY = 200 * 1024;
+const BRIDGE_TIMEOUT = 2000;
+
+/* ------------------------------------------------------------------ */
+/*  Bridge files (written by the VS Code extension)                    */
+/* ------------------------------------------------------------------ */
+
+function readBridgeFile(name) {
+  try {
+    return fs.readFileSync(path.join(os.homedir(), ".react-grab", name), "utf8");
+  } catch {
+    return null;
+  }
+}
+
+function readToken() {
+  return process.env.REACT_GRAB_TOKEN || (readBridgeFile("token") || "").trim() || null;
+}
+
+function readBridgePort() {
+  try {
+    const info = JSON.parse(readBridgeFile("bridge.json") || "null");
+    return info && info.server === "react-grab-bridge" && typeof info.port === "number" ? info.port : null;
+  } catch {
+    return null;
+  }
+}
+
+/**
+ * Options for the injected `startReactGrabBridge` call. They end up in the
+ * client bundle, so they never include the pairing token: without one the
+ * bridge posts selections to `/__react-grab/open`, which adds it here.
+ */
+function bridgeClientOptions(options = {}) {
+  return { fallbackUrl: OPEN_PATH, ...options };
+}
+
+/* ------------------------------------------------------------------ */
+/*  Forwarding to VS Code                                              */
+/* ------------------------------------------------------------------ */
+
+/** `{ status, body }` from the VS Code bridge, or null when none is running. */
+function forwardToBridge(payload) {
+  const port = readBridgePort();
+  if (!port) {
+    return Promise.resolve(null);
+  }
+  const data = JSON.stringify(payload);
+  const headers = { "Content-Type": "application/json", "Content-Length": Buffer.byteLength(data) };
+  const token = readToken();
+  if (token) {
+    headers["X-React-Grab-Token"] = token;
+  }
+  return new Promise((resolve) => {
+    const req = http.request(
+      { hostname: "127.0.0.1", port, path: "/selection", method: "POST", headers, timeout: BRIDGE_TIMEOUT },
+      (res) => {
+        let body = "";
+        res.on("data", (chunk) => (body += chunk));
+        res.on("end", () => resolve({ status: res.statusCode || 502, body }));
+      }
+    );
+    // A stale bridge.json (VS Code was killed) looks like no bridge
+    req.on("error", () => resolve(null));
+    req.on("timeout", () => req.destroy());
+    req.end(data);
+  });
+}
+
+/* ------------------------------------------------------------------ */
+/*  Opening in $EDITOR                                                 */
+/* ------------------------------------------------------------------ */
+
+/**
+ * A frame's file on disk, or null. Handles dev-server URLs
+ * (`http://localhost:5173/src/App.tsx?t=1`, Vite's `/@fs/…`) and webpack
+ * paths (`webpack-internal:///(app-pages-browser)/./src/app/page.tsx`).
+ */
+function localPath(file, root) {
+  let p = file.replace(/[?#].*$/, "");
+  if (/^https?:\/\//.test(p)) {
+    p = decodeURIComponent(new URL(p).pathname);
+  }
+  p = p
+    .replace(/^webpack(?:-internal)?:\/\/\/?/, "")
+    .replace(/^_N_E\//, "")
+    .replace(/^\/?\([^)]*\)\//, "")
+    .replace(/^\/@fs(?=\/)/, "");
+  const candidates = path.isAbsolute(p) ? [p, path.join(root, p)] : [path.resolve(root, p)];
+  return candidates.find((c) => fs.existsSync(c) && fs.statSync(c).isFile()) || null;
+}
+
+/** Command line for the user's editor, or null when none is configured. */
+function editorCommand() {
+  const editor = process.env.REACT_EDITOR || process.env.VISUAL || process.env.EDITOR;
+  if (!editor || editor === "none") {
+    return null;
+  }
+  const [command, ...args] = editor.trim().split(/\s+/);
+  return { command, args };
+}
+
+/** How each editor family takes a position. */
+function positionArgs(command, file, line, col) {
+  const name = path.basename(command).replace(/\.(?:exe|cmd|bat)$/i, "").toLowerCase();
+  if (/^(?:code|code-insiders|codium|cursor|windsurf)$/.test(name)) {
+    return ["-g", `${file}:${line}:${col}`];
+  }
+  if (/^(?:subl|sublime_text|zed|hx|helix)$/.test(name)) {
+    return [`${file}:${line}:${col}`];
+  }
+  if (/^(?:idea|webstorm|phpstorm|pycharm|goland|rider|clion|rubymine)(?:64)?$/.test(name)) {
+    return ["--line", String(line), "--column", String(col), file];
+  }
+  if (/^(?:vim?|nvim|gvim|mvim|emacs|emacsclient|nano|micro|kak|mate)$/.test(name)) {
+    return [`+${line}`, file];
+  }
+  return [file];
+}
+
+function launchEditor(editor, file, line, col) {
+  return new Promise((resolve, reject) => {
+    const child = spawn(editor.command, [...editor.args, ...positionArgs(editor.command, file, line, col)], {
+      detached: true,
+      stdio: "ignore",
+    });
+    child.once("error", reject);
+    child.once("spawn", () => {
+      child.unref();
+      resolve();
+    });
+  });
+}
+
+/** The rendered-by guess: the first frame that exists in the project (outside node_modules). */
+function firstLocalFrame(frames, root) {
+  for (const frame of frames) {
+    if (!frame || typeof frame.file !== "string" || /[\\/]node_modules[\\/]/.test(frame.file)) {
+      continue;
+    }
+    const file = localPath(frame.file, root);
+    if (file) {
+      const line = frame.line > 0 ? frame.line : 1;
+      return { file, line, col: line === frame.line && frame.col > 0 ? frame.col : 1 };
+    }
+  }
+  return null;
+}
+
+/* ------------------------------------------------------------------ */
+/*  Middleware                                                         */
+/* ------------------------------------------------------------------ */
+
+function isLoopback(address) {
+  return /^(?:127\.|::1$|::ffff:127\.)/.test(address || "");
+}
+
+/**
+ * The client's address. `trustProxy`: requests arrive through a local proxy
+ * (Next.js rewrites), which appends the real client to X-Forwarded-For.
+ */
+function clientAddress(req, trustProxy) {
+  const socket = req.socket.remoteAddress;
+  const forwarded = req.headers["x-forwarded-for"];
+  if (trustProxy && isLoopback(socket) && typeof forwarded === "string") {
+    return forwarded.split(",").pop().trim();
+  }
+  return socket;
+}
+
+function originHost(origin) {
+  try {
+    return new URL(origin).host;
+  } catch {
+    return null; // "null" (sandboxed frames, file://)
+  }
+}
+
+function sendJson(res, status, body) {
+  res.statusCode = status;
+  res.setHeader("Content-Type", "application/json");
+  res.end(JSON.stringify(body));
+}
+
+function readBody(req) {
+  return new Promise((resolve, reject) => {
+    let body = "";
+    req.on("data", (chunk) => {
+      body += chunk;
+      if (body.length > MAX_BODY) {
+        reject(new Error("body too large"));
+        req.destroy();
+      }
+    });
+    req.on("end", () => resolve(body));
+    req.on("error", reject);
+  });
+}
+
+/**
+ * Connect-style handler for `POST /__react-grab/open`; other requests go to
+ * `next()` (or get a 404 when there is none).
+ */
+function createOpenMiddleware({ root = process.cwd(), trustProxy = false, log = console } = {}) {
+  return async function reactGrabOpen(req, res, next) {
+    const pathname = (req.originalUrl || req.url || "").split("?")[0];
+    if (pathname !== OPEN_PATH) {
+      if (next) next();
+      else sendJson(res, 404, { error: "Not found" });
+      return;
+    }
+    if (req.method !== "POST") {
+      res.setHeader("Allow", "POST");
+      sendJson(res, 405, { error: "Use POST" });
+      return;
+    }
+    if (!isLoopback(clientAddress(req, trustProxy))) {
+      sendJson(res, 403, { error: "Only requests from this machine are accepted" });
+      return;
+    }
+    // JSON only: cross-site pages can't send it without a CORS preflight, which is never answered
+    if (!/^application\/json\b/.test(req.headers["content-type"] || "")) {
+      sendJson(res, 415, { error: "Expected application/json" });
+      return;
+    }
+    const origin = req.headers.origin;
+    const host = (trustProxy && req.headers["x-forwarded-host"]) || req.headers.host;
+    if (origin && originHost(origin) !== host) {
+      sendJson(res, 403, { error: `Origin "${origin}" is not allowed` });
+      return;
+    }
+
+    let payload;
+    try {
+      payload = JSON.parse(await readBody(req));
+    } catch (err) {
+      sendJson(res, 400, { error: `Invalid JSON: ${err.message}` });
+      return;
+    }
+    if (!payload || !Array.isArray(payload.frames)) {
+      sendJson(res, 400, { error: "Expected a selection with a frames array" });
+      return;
+    }
+
+    const forwarded = await forwardToBridge(payload);
+    if (forwarded) {
+      res.statusCode = forwarded.status;
+      res.setHeader("Content-Type", "application/json");
+      res.end(forwarded.body);
+      return;
+    }
+
+    const editor = editorCommand();
+    if (!editor) {
+      sendJson(res, 503, { error: "No VS Code bridge is running and $EDITOR is not set" });
+      return;
+    }
+    const target = firstLocalFrame(payload.frames, root);
+    if (!target) {
+      sendJson(res, 404, { error: `No frame of the selection was found under ${root}` });
+      return;
+    }
+    try {
+      await launchEditor(editor, target.file, target.line, target.col);
+      sendJson(res, 200, { ok: true, editor: editor.command, ...target });
+    } catch (err) {
+      log.warn(`[react-grab] could not start "${editor.command}": ${err.message}`);
+      sendJson(res, 500, { error: `Could not start "${editor.command}": ${err.message}` });
+    }
+  };
+}
+
+module.exports = { OPEN_PATH, bridgeClientOptions, createOpenMiddleware };
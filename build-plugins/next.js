@@ -0,0 +1,103 @@
+/**
+ * Next.js config wrapper — starts the React Grab bridge in the browser and
+ * serves `/__react-grab/open`, under `next dev` only. For any other phase
+ * (`next build`, `next start`) the config is returned unchanged.
+ *
+ *   // next.config.js
+ *   const withReactGrab = require("<path>/build-plugins/next.js");
+ *   module.exports = withReactGrab({ reactStrictMode: true });
+ *
+ * Options (second argument):
+ *   bridge        Options for `startReactGrabBridge` (must be JSON), e.g. `{ captureErrors: true }`.
+ *   stampSources  Also add the `data-grab-src` loader (webpack-loader.js); needs `@babel/core`. Default: false
+ *
+ * The bridge is added to the client entries (`main-app` for the App Router,
+ * `main.js` for the Pages Router), which needs webpack: Turbopack
+ * (`next dev --turbo`) skips it. Next.js has no dev-server middleware hook,
+ * so `/__react-grab/open` is rewritten to a small server on 127.0.0.1.
+ */
+
+const http = require("http");
+const path = require("path");
+const { OPEN_PATH, bridgeClientOptions, createOpenMiddleware } = require("./devServer");
+
+const PHASE_DEVELOPMENT_SERVER = "phase-development-server";
+const CLIENT = path.join(__dirname, "client.js");
+const CLIENT_ENTRIES = ["main-app", "main.js"];
+
+/** Port of the `/__react-grab/open` server, started once per process. */
+let openServer = null;
+
+function startOpenServer(root) {
+  if (!openServer) {
+    openServer = new Promise((resolve, reject) => {
+      const server = http.createServer(createOpenMiddleware({ root, trustProxy: true }));
+      server.once("error", reject);
+      server.listen(0, "127.0.0.1", () => {
+        // Don't keep `next dev` alive on its own
+        server.unref();
+        resolve(server.address().port);
+      });
+    });
+  }
+  return openServer;
+}
+
+function addClientEntry(entries) {
+  for (const name of CLIENT_ENTRIES) {
+    const entry = entries[name];
+    const imports = Array.isArray(entry) ? entry : entry && Array.isArray(entry.import) ? entry.import : null;
+    if (imports && !imports.includes(CLIENT)) {
+      imports.unshift(CLIENT);
+    }
+  }
+  return entries;
+}
+
+/** Our rewrite goes first, whichever form the app's `rewrites()` returns. */
+async function withOpenRewrite(rewrites, root) {
+  const port = await startOpenServer(root);
+  const ours = { source: OPEN_PATH, destination: `http://127.0.0.1:${port}${OPEN_PATH}` };
+  const existing = rewrites ? await rewrites() : [];
+  if (Array.isArray(existing)) {
+    return { beforeFiles: [ours], afterFiles: existing, fallback: [] };
+  }
+  return { ...existing, beforeFiles: [ours, ...(existing.beforeFiles || [])] };
+}
+
+function devConfig(config, { bridge = {}, stampSources = false }) {
+  const root = process.cwd();
+  return {
+    ...config,
+    env: { ...config.env, REACT_GRAB_BRIDGE_OPTIONS: JSON.stringify(bridgeClientOptions(bridge)) },
+    // client.js and the bridge live outside the app
+    experimental: { ...config.experimental, externalDir: true },
+    rewrites: () => withOpenRewrite(config.rewrites, root),
+    webpack(webpackConfig, context) {
+      const result = typeof config.webpack === "function" ? config.webpack(webpackConfig, context) : webpackConfig;
+      if (!context.dev) {
+        return result;
+      }
+      if (!context.isServer) {
+        const entry = result.entry;
+        result.entry = async () => addClientEntry(typeof entry === "function" ? await entry() : entry);
+      }
+      if (stampSources) {
+        result.module.rules.push({
+          test: /\.[jt]sx$/,
+          exclude: /node_modules/,
+          enforce: "pre",
+          use: require.resolve("./webpack-loader.js"),
+        });
+      }
+      return result;
+    },
+  };
+}
+
+module.exports = function withReactGrab(nextConfig = {}, options = {}) {
+  return async (phase, context) => {
+    const config = typeof nextConfig === "function" ? await nextConfig(phase, context) : nextConfig;
+    return phase === PHASE_DEVELOPMENT_SERVER ? devConfig(config, options) : config;
+  };
+};
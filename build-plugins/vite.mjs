@@ -0,0 +1,79 @@
+/**
+ * Vite plugin — starts the React Grab bridge in the page and serves
+ * `/__react-grab/open`, in `vite dev` only (`apply: "serve"`), so nothing
+ * reaches production builds.
+ *
+ *   // vite.config.ts
+ *   import reactGrab from "<path>/build-plugins/vite.mjs";
+ *   export default defineConfig({ plugins: [react(), reactGrab()] });
+ *
+ * Options:
+ *   bridge        Options for `startReactGrabBridge` (must be JSON), e.g. `{ captureErrors: true }`.
+ *   stampSources  Also run the `data-grab-src` transform (babel.js); needs `@babel/core`. Default: false
+ *
+ * The bridge is added to index.html. Frameworks that render their own HTML
+ * (Remix, TanStack Start) import `virtual:react-grab-bridge` from their client
+ * entry instead.
+ */
+
+import { createRequire } from "module";
+import path from "path";
+import { fileURLToPath } from "url";
+
+// ES module because Vite bundles the config with its local imports; the
+// helpers are CommonJS (shared with the Next.js wrapper and the loader)
+const require = createRequire(import.meta.url);
+const { stampSources: stamp } = require("./babel");
+const { bridgeClientOptions, createOpenMiddleware } = require("./devServer");
+
+const HERE = path.dirname(fileURLToPath(import.meta.url));
+const VIRTUAL_ID = "virtual:react-grab-bridge";
+const RESOLVED_ID = "\0" + VIRTUAL_ID;
+const BRIDGE_DIR = path.join(HERE, "..", "browser-bridge");
+
+export default function reactGrab(options = {}) {
+  const { bridge = {}, stampSources = false } = options;
+  let root = process.cwd();
+
+  return {
+    name: "react-grab",
+    apply: "serve",
+    enforce: "pre",
+
+    configResolved(config) {
+      root = config.root;
+      // The bridge is served from outside the project
+      config.server.fs.allow.push(BRIDGE_DIR);
+    },
+
+    configureServer(server) {
+      server.middlewares.use(createOpenMiddleware({ root, log: server.config.logger }));
+    },
+
+    resolveId(id) {
+      return id === VIRTUAL_ID ? RESOLVED_ID : null;
+    },
+
+    load(id) {
+      if (id !== RESOLVED_ID) {
+        return null;
+      }
+      const bridgePath = path.join(BRIDGE_DIR, "reactGrabBridge.ts").split(path.sep).join("/");
+      return [
+        `import { startReactGrabBridge } from ${JSON.stringify(bridgePath)};`,
+        `startReactGrabBridge(${JSON.stringify(bridgeClientOptions(bridge))});`,
+      ].join("\n");
+    },
+
+    transformIndexHtml() {
+      return [{ tag: "script", attrs: { type: "module" }, children: `import "${VIRTUAL_ID}";`, injectTo: "head" }];
+    },
+
+    transform(code, id) {
+      if (!stampSources || !/\.[jt]sx$/.test(id) || /[\\/]node_modules[\\/]/.test(id)) {
+        return null;
+      }
+      return stamp(code, id, { root }).then((result) => (result ? { code: result.code, map: result.map } : null));
+    },
+  };
+}
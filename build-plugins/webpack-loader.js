@@ -0,0 +1,40 @@
+/**
+ * Webpack / Turbopack loader — runs only the `data-grab-src` Babel plugin,
+ * so SWC projects (Next.js) keep compiling with SWC. Needs `@babel/core`
+ * in the app's devDependencies. `next.js` (withReactGrab) adds it for you
+ * with `stampSources: true`.
+ *
+ * Add it as a "pre" rule for your own JSX files, development only:
+ *
+ *   // next.config.js
+ *   webpack(config, { dev }) {
+ *     if (dev) {
+ *       config.module.rules.push({
+ *         test: /\.[jt]sx$/,
+ *         exclude: /node_modules/,
+ *         enforce: "pre",
+ *         use: require.resolve("<path>/build-plugins/webpack-loader.js"),
+ *       });
+ *     }
+ *     return config;
+ *   }
+ *
+ * Because it runs on the server build too, elements rendered by Server
+ * Components carry the attribute in the HTML.
+ */
+
+const { stampSources } = require("./babel");
+
+module.exports = function reactGrabSourceLoader(source, inputSourceMap) {
+  const callback = this.async();
+  // Quick exit for files without JSX
+  if (!/<[a-z]/.test(source)) {
+    callback(null, source, inputSourceMap);
+    return;
+  }
+  const options = (this.getOptions && this.getOptions()) || {};
+  stampSources(source, this.resourcePath, { root: this.rootContext, inputSourceMap, ...options }).then(
+    (result) => callback(null, result ? result.code : source, result ? result.map : inputSourceMap),
+    (err) => callback(err)
+  );
+};
@@ -1,4 +0,0 @@
-import * as vscode from "vscode";
-export declare function activate(context: vscode.ExtensionContext): void;
-export declare function deactivate(): void;
-//# sourceMappingURL=extension.d.ts.map
\ No newline at end of file
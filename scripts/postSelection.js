@@ -7,9 +7,50 @@
  *   node scripts/postSelection.js          # sends both examples
  *   node scripts/postSelection.js A        # sends example A only
  *   node scripts/postSelection.js B        # sends example B only
+ *
+ * The port is taken from REACT_GRAB_PORT, then ~/.react-grab/bridge.json
+ * (written by the extension when it starts), then 3344.
+ * The pairing token is taken from REACT_GRAB_TOKEN, then ~/.react-grab/token.
  */
 
 const http = require("http");
+const fs = require("fs");
+const os = require("os");
+const path = require("path");
+
+/* ------------------------------------------------------------------ */
+/*  Port + token discovery                                             */
+/* ------------------------------------------------------------------ */
+
+function getPort() {
+  if (process.env.REACT_GRAB_PORT) {
+    return parseInt(process.env.REACT_GRAB_PORT, 10);
+  }
+  try {
+    const file = path.join(os.homedir(), ".react-grab", "bridge.json");
+    const info = JSON.parse(fs.readFileSync(file, "utf8"));
+    if (typeof info.port === "number") {
+      return info.port;
+    }
+  } catch {
+    // no discovery file — fall through
+  }
+  return 3344;
+}
+
+function getToken() {
+  if (process.env.REACT_GRAB_TOKEN) {
+    return process.env.REACT_GRAB_TOKEN;
+  }
+  try {
+    return fs.readFileSync(path.join(os.homedir(), ".react-grab", "token"), "utf8").trim();
+  } catch {
+    return "";
+  }
+}
+
+const PORT = getPort();
+const TOKEN = getToken();
 
 /* ------------------------------------------------------------------ */
 /*  Helper: parse a raw React DevTools frame string into an object     */
@@ -75,12 +116,13 @@ function post(label, payload) {
     const req = http.request(
       {
         hostname: "127.0.0.1",
-        port: 3344,
+        port: PORT,
         path: "/selection",
         method: "POST",
         headers: {
           "Content-Type": "application/json",
           "Content-Length": Buffer.byteLength(data),
+          "X-React-Grab-Token": TOKEN,
         },
       },
       (res) => {
@@ -108,7 +150,7 @@ function post(label, payload) {
 async function main() {
   const which = (process.argv[2] || "").toUpperCase();
 
-  console.log("--- React Grab Bridge Test Harness ---\n");
+  console.log(`--- React Grab Bridge Test Harness (port ${PORT}) ---\n`);
 
   if (which === "A" || which === "") {
     console.log("Sending Example A (primitive + usage)…");
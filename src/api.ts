@@ -0,0 +1,115 @@
+import * as vscode from "vscode";
+import { Frame, NormalizedFrame, Selection } from "./core/types";
+import { StackParser } from "../browser-bridge/stackParsers";
+import { TargetContext } from "./core/targets";
+
+export { TargetContext };
+
+/* ------------------------------------------------------------------ */
+/*  Public API                                                         */
+/*                                                                     */
+/*  Returned from `activate`, so companion extensions can react to     */
+/*  selections and change how targets are chosen:                      */
+/*                                                                     */
+/*    const ext = vscode.extensions.getExtension<ReactGrabApi>(        */
+/*      "react-grab.react-grab-bridge");                               */
+/*    const api = await ext?.activate();                               */
+/*    api?.onDidReceiveSelection((e) => …);                            */
+/*                                                                     */
+/*  Copy this file's types into the companion extension; bump          */
+/*  API_VERSION on breaking changes.                                   */
+/* ------------------------------------------------------------------ */
+
+export const API_VERSION = 1;
+
+export interface SelectionEvent {
+  selection: Selection;
+  /** The selection's frames after path mapping and source maps. */
+  frames: NormalizedFrame[];
+  /** Targets as "Open Rendered By" / "Open Used In" would pick them now. */
+  renderedBy: NormalizedFrame | null;
+  usedIn: NormalizedFrame | null;
+}
+
+/** A frame that was found in the workspace. */
+export interface ResolvedFrame extends NormalizedFrame {
+  uri: vscode.Uri;
+}
+
+/**
+ * Custom target selection. Strategies are asked newest first; returning
+ * null or undefined (or a frame that isn't in `frames`) passes to the
+ * next one, and finally to the built-in choice.
+ */
+export interface TargetStrategy {
+  /** Shown in the output channel when the strategy throws. */
+  id: string;
+  renderedBy?(frames: NormalizedFrame[], context: TargetContext): NormalizedFrame | null | undefined;
+  /** `renderedBy` is the frame chosen for "Rendered by" (by any strategy). */
+  usedIn?(
+    frames: NormalizedFrame[],
+    renderedBy: NormalizedFrame,
+    context: TargetContext
+  ): NormalizedFrame | null | undefined;
+}
+
+export interface ReactGrabApi {
+  readonly version: number;
+  /** Fires for every selection this window handles (not for ones forwarded to another window). */
+  readonly onDidReceiveSelection: vscode.Event<SelectionEvent>;
+  getLastSelection(): Selection | null;
+  /** Map a frame to a workspace file without prompting; null when it's not found or ambiguous. */
+  resolveFrame(frame: Frame): Promise<ResolvedFrame | null>;
+  /** Open a frame the way the built-in commands do (may ask which file when ambiguous). */
+  open(frame: Frame): Promise<void>;
+  registerTargetStrategy(strategy: TargetStrategy): vscode.Disposable;
+  /** Teach "Paste Stack from Clipboard" another format; asked before the built-in parsers. */
+  registerStackParser(parser: StackParser): vscode.Disposable;
+}
+
+/* ------------------------------------------------------------------ */
+/*  Strategy registry                                                  */
+/* ------------------------------------------------------------------ */
+
+export class TargetStrategies {
+  private strategies: TargetStrategy[] = [];
+
+  constructor(private onError: (strategy: TargetStrategy, err: unknown) => void) {}
+
+  get size(): number {
+    return this.strategies.length;
+  }
+
+  register(strategy: TargetStrategy): vscode.Disposable {
+    this.strategies.unshift(strategy);
+    return new vscode.Disposable(() => {
+      this.strategies = this.strategies.filter((s) => s !== strategy);
+    });
+  }
+
+  /** First strategy answer that is one of `frames`, or null. */
+  renderedBy(frames: NormalizedFrame[], context: TargetContext): NormalizedFrame | null {
+    return this.ask(frames, (s) => s.renderedBy?.(frames, context));
+  }
+
+  usedIn(frames: NormalizedFrame[], renderedBy: NormalizedFrame, context: TargetContext): NormalizedFrame | null {
+    return this.ask(frames, (s) => s.usedIn?.(frames, renderedBy, context));
+  }
+
+  private ask(
+    frames: NormalizedFrame[],
+    query: (s: TargetStrategy) => NormalizedFrame | null | undefined
+  ): NormalizedFrame | null {
+    for (const strategy of this.strategies) {
+      try {
+        const frame = query(strategy);
+        if (frame && frames.includes(frame)) {
+          return frame;
+        }
+      } catch (err) {
+        this.onError(strategy, err);
+      }
+    }
+    return null;
+  }
+}
@@ -0,0 +1,217 @@
+import * as fs from "fs";
+import * as path from "path";
+import { DEFAULT_PORT } from "../core/discovery";
+import { DEFAULT_EXCLUDE, DEFAULT_PRESETS, PathMappingRule } from "../core/pathMapping";
+import { DEFAULT_ALLOWED_ORIGINS } from "../core/security";
+import { DEFAULT_BUILD_DIRS } from "../core/sourceMaps";
+import { DEFAULT_WRAPPER_PATTERNS, WrapperOptions } from "../core/wrappers";
+
+/* ------------------------------------------------------------------ */
+/*  CLI configuration — flags, then react-grab.config.json in the      */
+/*  first root, then the same defaults the VS Code settings use.       */
+/* ------------------------------------------------------------------ */
+
+export type OpenMode = "renderedBy" | "usedIn" | "pick";
+
+export interface CliConfig {
+  /** Absolute project roots (the extension's workspace folders). */
+  roots: string[];
+  port: number;
+  fallbackPorts: number;
+  /** Built-in editor name (see editors.ts) or a command template. */
+  editor: string;
+  /** Neovim RPC address for the `nvim` template ($NVIM inside a Neovim terminal). */
+  nvimServer: string | null;
+  /** What a selection opens; "pick" asks in the terminal. */
+  open: OpenMode;
+  pathMapping: { rules: PathMappingRule[]; presets: string[]; exclude: string[] };
+  wrappers: WrapperOptions;
+  sourceMaps: { enabled: boolean; buildDirs: string[]; fetchFromDevServer: boolean };
+  allowedOrigins: string[];
+  requireToken: boolean;
+}
+
+/** Flags that aren't configuration. */
+export interface CliActions {
+  help: boolean;
+  listEditors: boolean;
+  printToken: boolean;
+}
+
+export const CONFIG_FILE = "react-grab.config.json";
+
+const OPEN_MODES: Record<string, OpenMode> = {
+  rendered: "renderedBy",
+  renderedBy: "renderedBy",
+  "used-in": "usedIn",
+  usedIn: "usedIn",
+  pick: "pick",
+};
+
+export const USAGE = `Usage: react-grab-bridge [options]
+
+Serves the React Grab bridge protocol on 127.0.0.1 and opens picked
+components in your editor.
+
+Options:
+  --root <dir>          Project root; repeat for several (default: current directory)
+  --port <n>            First port to try (default: ${DEFAULT_PORT}, then the next 10)
+  --editor <editor>     Built-in editor name or a command template, e.g.
+                        "idea --line {line} {file}" (default: $REACT_GRAB_EDITOR,
+                        $VISUAL or $EDITOR when they name a built-in editor, else "code")
+  --nvim-server <addr>  Neovim server address for --editor nvim (default: $NVIM)
+  --open <mode>         rendered | used-in | pick (default: pick in a terminal, else rendered)
+  --config <file>       Config file (default: <root>/${CONFIG_FILE})
+  --no-token            Don't require the pairing token
+  --list-editors        Print the built-in editor templates and exit
+  --print-token         Print the pairing token and exit
+  -h, --help            Show this help
+`;
+
+/** Keep `value` only if it has the default's type (arrays: every item a string). */
+function typed<T>(value: unknown, fallback: T): T {
+  if (Array.isArray(fallback)) {
+    return Array.isArray(value) && value.every((v) => typeof v === "string") ? (value as T) : fallback;
+  }
+  return value !== undefined && value !== null && typeof value === typeof fallback ? (value as T) : fallback;
+}
+
+function readConfigFile(file: string, required: boolean): Record<string, unknown> {
+  let text: string;
+  try {
+    text = fs.readFileSync(file, "utf8");
+  } catch (err) {
+    if (required) {
+      throw new Error(`Can't read ${file}: ${(err as Error).message}`);
+    }
+    return {};
+  }
+  try {
+    const parsed = JSON.parse(text);
+    return parsed && typeof parsed === "object" && !Array.isArray(parsed) ? parsed : {};
+  } catch (err) {
+    throw new Error(`${file} is not valid JSON: ${(err as Error).message}`);
+  }
+}
+
+function section(config: Record<string, unknown>, key: string): Record<string, unknown> {
+  const value = config[key];
+  return value && typeof value === "object" && !Array.isArray(value) ? (value as Record<string, unknown>) : {};
+}
+
+function parseRules(value: unknown): PathMappingRule[] {
+  if (!Array.isArray(value)) {
+    return [];
+  }
+  return value.filter(
+    (r): r is PathMappingRule =>
+      r && typeof r === "object" && typeof r.pattern === "string" && typeof r.replacement === "string"
+  );
+}
+
+function parsePort(value: string, flag: string): number {
+  const port = Number(value);
+  if (!Number.isInteger(port) || port < 1 || port > 65535) {
+    throw new Error(`${flag} expects a port number, got "${value}"`);
+  }
+  return port;
+}
+
+/** Parse `argv` (without node and the script). Throws with a message for the user on bad input. */
+export function loadConfig(
+  argv: string[],
+  env: NodeJS.ProcessEnv = process.env,
+  interactive = false
+): { config: CliConfig; actions: CliActions } {
+  const actions: CliActions = { help: false, listEditors: false, printToken: false };
+  const roots: string[] = [];
+  const flags: Partial<CliConfig> = {};
+  let configFile: string | null = null;
+
+  for (let i = 0; i < argv.length; i++) {
+    const arg = argv[i];
+    const value = (): string => {
+      const next = argv[++i];
+      if (next === undefined) {
+        throw new Error(`${arg} expects a value`);
+      }
+      return next;
+    };
+    switch (arg) {
+      case "-h":
+      case "--help":
+        actions.help = true;
+        break;
+      case "--list-editors":
+        actions.listEditors = true;
+        break;
+      case "--print-token":
+        actions.printToken = true;
+        break;
+      case "--root":
+        roots.push(path.resolve(value()));
+        break;
+      case "--port":
+        flags.port = parsePort(value(), arg);
+        break;
+      case "--editor":
+        flags.editor = value();
+        break;
+      case "--nvim-server":
+        flags.nvimServer = value();
+        break;
+      case "--open": {
+        const mode = value();
+        if (!OPEN_MODES[mode]) {
+          throw new Error(`--open expects rendered, used-in or pick, got "${mode}"`);
+        }
+        flags.open = OPEN_MODES[mode];
+        break;
+      }
+      case "--config":
+        configFile = path.resolve(value());
+        break;
+      case "--no-token":
+        flags.requireToken = false;
+        break;
+      default:
+        throw new Error(`Unknown option "${arg}" (see --help)`);
+    }
+  }
+
+  if (roots.length === 0) {
+    roots.push(process.cwd());
+  }
+  const file = readConfigFile(configFile ?? path.join(roots[0], CONFIG_FILE), configFile !== null);
+  const pathMapping = section(file, "pathMapping");
+  const wrappers = section(file, "wrappers");
+  const sourceMaps = section(file, "sourceMaps");
+  const fileOpen = typeof file.open === "string" ? OPEN_MODES[file.open] : undefined;
+
+  const config: CliConfig = {
+    roots,
+    port: flags.port ?? typed(file.port, DEFAULT_PORT),
+    fallbackPorts: Math.max(0, typed(file.fallbackPorts, 10)),
+    editor: flags.editor ?? env.REACT_GRAB_EDITOR ?? typed<string>(file.editor, ""),
+    nvimServer: flags.nvimServer ?? env.NVIM ?? env.NVIM_LISTEN_ADDRESS ?? null,
+    open: flags.open ?? fileOpen ?? (interactive ? "pick" : "renderedBy"),
+    pathMapping: {
+      rules: parseRules(pathMapping.rules),
+      presets: typed(pathMapping.presets, DEFAULT_PRESETS),
+      exclude: typed(pathMapping.exclude, DEFAULT_EXCLUDE),
+    },
+    wrappers: {
+      include: typed(wrappers.include, DEFAULT_WRAPPER_PATTERNS),
+      exclude: typed(wrappers.exclude, [] as string[]),
+      analyzeSource: typed(wrappers.analyzeSource, false),
+    },
+    sourceMaps: {
+      enabled: typed(sourceMaps.enabled, true),
+      buildDirs: typed(sourceMaps.buildDirs, DEFAULT_BUILD_DIRS),
+      fetchFromDevServer: typed(sourceMaps.fetchFromDevServer, true),
+    },
+    allowedOrigins: typed(file.allowedOrigins, DEFAULT_ALLOWED_ORIGINS),
+    requireToken: flags.requireToken ?? typed(file.requireToken, true),
+  };
+  return { config, actions };
+}
@@ -0,0 +1,108 @@
+import * as childProcess from "child_process";
+import * as path from "path";
+
+/* ------------------------------------------------------------------ */
+/*  Editor command templates                                           */
+/*                                                                     */
+/*  A template is a command line with {file}, {line}, {col} and        */
+/*  {server} placeholders ({exfile}: the path escaped for a Vim Ex     */
+/*  command sent as keys). It is split into arguments before the       */
+/*  placeholders are filled in, so paths with spaces stay one          */
+/*  argument; no shell is involved. Quote an argument ("…" or '…')     */
+/*  to keep its spaces.                                                 */
+/* ------------------------------------------------------------------ */
+
+export interface EditorTarget {
+  /** Absolute path. */
+  file: string;
+  /** 1-based. */
+  line: number;
+  /** 1-based. */
+  col: number;
+}
+
+export const EDITOR_TEMPLATES: Record<string, string> = {
+  code: "code -g {file}:{line}:{col}",
+  cursor: "cursor -g {file}:{line}:{col}",
+  windsurf: "windsurf -g {file}:{line}:{col}",
+  // Drives the Neovim instance listening on {server} instead of starting a new one
+  nvim: 'nvim --server {server} --remote-send "<C-\\><C-N>:edit +{line} {exfile}<CR>{col}|"',
+  vim: "vim --remote-silent +{line} {file}",
+  emacs: "emacsclient -n +{line}:{col} {file}",
+  idea: "idea --line {line} --column {col} {file}",
+  webstorm: "webstorm --line {line} --column {col} {file}",
+  zed: "zed {file}:{line}:{col}",
+  subl: "subl {file}:{line}:{col}",
+};
+
+const DEFAULT_EDITOR = "code";
+/** Characters `:edit` treats specially (as Vim's fnameescape() does). */
+const EX_SPECIAL = /[ \t|%#"'<*?[{`$!]/g;
+
+/**
+ * A path for an Ex command typed through --remote-send: special characters
+ * are backslash-escaped, then `<` is spelled `<lt>` so it isn't read as
+ * key notation.
+ */
+export function escapeExPath(file: string): string {
+  // Backslashes are path separators on Windows, escapes everywhere else
+  const escaped = path.sep === "/" ? file.replace(/\\/g, "\\\\") : file;
+  return escaped.replace(EX_SPECIAL, "\\$&").replace(/</g, "<lt>");
+}
+
+/** Split a template into arguments; quotes group, backslashes are kept as-is. */
+export function splitTemplate(template: string): string[] {
+  const args: string[] = [];
+  const re = /"([^"]*)"|'([^']*)'|(\S+)/g;
+  let m: RegExpExecArray | null;
+  while ((m = re.exec(template))) {
+    args.push(m[1] ?? m[2] ?? m[3]);
+  }
+  return args;
+}
+
+/**
+ * The template for `editor`: a built-in name, or a template itself. An
+ * empty `editor` uses $VISUAL / $EDITOR when it names a built-in editor.
+ */
+export function resolveTemplate(editor: string, env: NodeJS.ProcessEnv = process.env): string {
+  if (editor === "") {
+    const fromEnv = [env.VISUAL, env.EDITOR]
+      .map((cmd) => (cmd ? path.basename(splitTemplate(cmd)[0] ?? "") : ""))
+      .find((name) => name in EDITOR_TEMPLATES);
+    return EDITOR_TEMPLATES[fromEnv ?? DEFAULT_EDITOR];
+  }
+  return EDITOR_TEMPLATES[editor] ?? editor;
+}
+
+/** Fill in a template; throws when it needs {server} and there is none. */
+export function expandTemplate(template: string, target: EditorTarget, server: string | null): string[] {
+  const args = splitTemplate(template);
+  if (args.length === 0) {
+    throw new Error("The editor command is empty");
+  }
+  if (server === null && args.some((a) => a.includes("{server}"))) {
+    throw new Error("The editor command needs {server}: pass --nvim-server or run inside Neovim ($NVIM)");
+  }
+  const values: Record<string, string> = {
+    file: target.file,
+    exfile: escapeExPath(target.file),
+    line: String(Math.max(1, target.line)),
+    col: String(Math.max(1, target.col)),
+    server: server ?? "",
+  };
+  return args.map((a) => a.replace(/\{(file|exfile|line|col|server)\}/g, (_, key: string) => values[key]));
+}
+
+/** Start the editor and return once it has spawned (it is not waited for). */
+export function openInEditor(template: string, target: EditorTarget, server: string | null): Promise<void> {
+  const [command, ...args] = expandTemplate(template, target, server);
+  return new Promise((resolve, reject) => {
+    const child = childProcess.spawn(command, args, { stdio: "ignore", detached: true });
+    child.once("error", (err) => reject(new Error(`Can't run "${command}": ${err.message}`)));
+    child.once("spawn", () => {
+      child.unref();
+      resolve();
+    });
+  });
+}
@@ -0,0 +1,214 @@
+#!/usr/bin/env node
+
+/**
+ * react-grab-bridge — the bridge without VS Code. Serves the same HTTP
+ * protocol as the extension and opens picked components through an editor
+ * command template; see `react-grab-bridge --help`.
+ */
+
+import * as fs from "fs";
+import * as path from "path";
+import { FileMatcher, scanSourceFiles } from "../core/fileMatch";
+import { createPathMapper, PathMapper } from "../core/pathMapping";
+import { loadOrCreateToken } from "../core/security";
+import { SourceMapResolver } from "../core/sourceMaps";
+import { findRenderedBy, findUsedIn, normalizeFrames, TargetOptions } from "../core/targets";
+import { DiagnosticReport, NormalizedFrame, Selection } from "../core/types";
+import { WrapperDetector } from "../core/wrappers";
+import { CliConfig, loadConfig, USAGE } from "./config";
+import { EDITOR_TEMPLATES, openInEditor, resolveTemplate } from "./editors";
+import { PickItem, TerminalPicker } from "./picker";
+import { CliServer } from "./server";
+
+interface Session {
+  config: CliConfig;
+  template: string;
+  mapPath: PathMapper;
+  files: FileMatcher;
+  sourceMaps: SourceMapResolver;
+  wrappers: WrapperDetector;
+  picker: TerminalPicker;
+}
+
+function print(session: Pick<Session, "picker">, text: string): void {
+  session.picker.print(text);
+}
+
+function log(session: Pick<Session, "picker">, message: string): void {
+  print(session, `[${new Date().toLocaleTimeString()}] ${message}`);
+}
+
+function location(frame: NormalizedFrame): string {
+  return frame.line > 0 ? `${frame.normalizedFile}:${frame.line}:${frame.col}` : frame.normalizedFile;
+}
+
+/* ------------------------------------------------------------------ */
+/*  Resolving frame paths to files                                     */
+/* ------------------------------------------------------------------ */
+
+function findExact(config: CliConfig, normalizedFile: string): string | null {
+  for (const root of config.roots) {
+    const candidate = path.join(root, normalizedFile);
+    if (fs.existsSync(candidate)) {
+      return candidate;
+    }
+  }
+  return null;
+}
+
+/** Exact path under a root, else the scanned file list (rescanned once on a miss). */
+async function resolveToAbsolute(session: Session, normalizedFile: string): Promise<string | null> {
+  const exact = findExact(session.config, normalizedFile);
+  if (exact) {
+    return exact;
+  }
+  let match = session.files.match(normalizedFile);
+  if (match.candidates.length === 0) {
+    session.files = await scanSourceFiles(session.config.roots);
+    match = session.files.match(normalizedFile);
+  }
+  if (match.candidates.length <= 1 || !session.picker.available) {
+    return match.candidates[0]?.absPath ?? null;
+  }
+  const index = await session.picker.pick(
+    `${match.candidates.length} files match "${normalizedFile}" (${match.kind === "basename" ? "by file name only" : "by path suffix"}):`,
+    match.candidates.map((c) => ({ label: c.relPath, detail: c.folder }))
+  );
+  return index === null ? null : match.candidates[index].absPath;
+}
+
+async function openFrame(session: Session, frame: NormalizedFrame): Promise<void> {
+  const file = await resolveToAbsolute(session, frame.normalizedFile);
+  if (!file) {
+    log(session, `Can't find ${frame.normalizedFile} under ${session.config.roots.join(", ")}`);
+    return;
+  }
+  try {
+    await openInEditor(session.template, { file, line: frame.line, col: frame.col }, session.config.nvimServer);
+    log(session, `Opened ${location(frame)}`);
+  } catch (err) {
+    log(session, (err as Error).message);
+  }
+}
+
+/* ------------------------------------------------------------------ */
+/*  Handling posts                                                     */
+/* ------------------------------------------------------------------ */
+
+async function prepareFrames(session: Session, sel: Pick<Selection, "frames">): Promise<NormalizedFrame[]> {
+  const mapped = session.config.sourceMaps.enabled ? await session.sourceMaps.mapFrames(sel) : sel;
+  const frames = normalizeFrames(mapped, session.mapPath);
+  try {
+    await session.wrappers.prepare(frames.filter((f) => f.isProject));
+  } catch (err) {
+    log(session, `Wrapper analysis failed: ${(err as Error).message}`);
+  }
+  return frames;
+}
+
+async function handleSelection(session: Session, selection: Selection): Promise<void> {
+  const frames = await prepareFrames(session, selection);
+  const options: TargetOptions = { isWrapper: (f) => session.wrappers.isWrapper(f) };
+  const rendered = findRenderedBy(frames, options);
+  const usedIn = rendered ? findUsedIn(frames, rendered, options) : null;
+  const label = selection.domLabel ?? "(unknown)";
+  log(session, `Received "${label}" — ${frames.length} frames`);
+
+  const mode = session.config.open;
+  if (mode === "pick" && session.picker.available) {
+    const items: PickItem[] = frames.map((f) => ({
+      tag: f === rendered?.frame ? "R" : f === usedIn ? "U" : f.isProject ? "" : "·",
+      label: f.name ?? "(anonymous)",
+      detail: location(f),
+    }));
+    const index = await session.picker.pick(
+      `"${label}" — R rendered by, U used in, · library code:`,
+      items,
+      rendered?.index ?? 0
+    );
+    if (index !== null) {
+      await openFrame(session, frames[index]);
+    }
+    return;
+  }
+
+  const target = mode === "usedIn" ? usedIn : rendered?.frame;
+  if (!target) {
+    log(session, "No project frame with a source location to open");
+    return;
+  }
+  await openFrame(session, target);
+}
+
+async function handleDiagnostic(session: Session, report: DiagnosticReport): Promise<void> {
+  const frames = await prepareFrames(session, report);
+  const at = frames.find((f) => f.isProject && f.line > 0);
+  const firstLine = report.message.split("\n")[0];
+  log(session, `${report.severity} (${report.origin}) ${at ? location(at) + " " : ""}${firstLine}`);
+}
+
+/* ------------------------------------------------------------------ */
+/*  Entry point                                                        */
+/* ------------------------------------------------------------------ */
+
+async function main(argv: string[]): Promise<void> {
+  const picker = new TerminalPicker();
+  const { config, actions } = loadConfig(argv, process.env, picker.available);
+  if (actions.help) {
+    process.stdout.write(USAGE);
+    return;
+  }
+  if (actions.listEditors) {
+    for (const [name, template] of Object.entries(EDITOR_TEMPLATES)) {
+      process.stdout.write(`${name.padEnd(10)} ${template}\n`);
+    }
+    return;
+  }
+  if (actions.printToken) {
+    process.stdout.write(loadOrCreateToken() + "\n");
+    return;
+  }
+
+  const session: Session = {
+    config,
+    template: resolveTemplate(config.editor),
+    mapPath: createPathMapper({ ...config.pathMapping, roots: config.roots }),
+    files: await scanSourceFiles(config.roots),
+    sourceMaps: new SourceMapResolver({
+      roots: config.roots,
+      buildDirs: config.sourceMaps.buildDirs,
+      fetchFromDevServer: config.sourceMaps.fetchFromDevServer,
+    }),
+    wrappers: new WrapperDetector((normalizedFile) => findExact(config, normalizedFile)),
+    picker,
+  };
+  session.wrappers.setOptions(config.wrappers);
+
+  // Create the token up front so --print-token works before the first request
+  loadOrCreateToken();
+  const server = new CliServer(config, {
+    selection: (sel) => void handleSelection(session, sel).catch((err: Error) => log(session, `Selection failed: ${err.message}`)),
+    diagnostic: (report) =>
+      void handleDiagnostic(session, report).catch((err: Error) => log(session, `Diagnostic failed: ${err.message}`)),
+    log: (message) => log(session, message),
+  });
+  const port = await server.start();
+  log(session, `React Grab Bridge listening on 127.0.0.1:${port}`);
+  print(session, `  roots:  ${config.roots.join(", ")} (${session.files.size} source files)`);
+  print(session, `  editor: ${session.template}`);
+  if (config.requireToken) {
+    print(session, "  pair the browser with the token from `react-grab-bridge --print-token`");
+  }
+
+  const shutdown = () => {
+    picker.cancel();
+    void server.stop().then(() => process.exit(0));
+  };
+  process.once("SIGINT", shutdown);
+  process.once("SIGTERM", shutdown);
+}
+
+main(process.argv.slice(2)).catch((err: Error) => {
+  process.stderr.write(`react-grab-bridge: ${err.message}\n`);
+  process.exit(1);
+});
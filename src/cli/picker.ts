@@ -0,0 +1,163 @@
+import * as readline from "readline";
+
+/* ------------------------------------------------------------------ */
+/*  Terminal picker — the CLI's stand-in for the extension's quick     */
+/*  pick. ↑/↓ (or j/k) move, Enter opens, 1–9 open that row, Esc or q   */
+/*  dismisses. Only one list is shown at a time; a new one replaces    */
+/*  the old.                                                            */
+/* ------------------------------------------------------------------ */
+
+export interface PickItem {
+  label: string;
+  /** Shown dimmed after the label. */
+  detail: string;
+  /** Short tag before the label, e.g. "R" for the rendered-by frame. */
+  tag?: string;
+}
+
+interface ActivePick {
+  title: string;
+  items: PickItem[];
+  index: number;
+  /** Lines written by the last render, erased before the next one. */
+  drawn: number;
+  done: (index: number | null) => void;
+}
+
+const INVERSE = "\x1b[7m";
+const DIM = "\x1b[2m";
+const RESET = "\x1b[0m";
+
+export class TerminalPicker {
+  private active: ActivePick | null = null;
+  private onKeypress = (str: string | undefined, key: readline.Key | undefined) => this.handleKey(str, key);
+
+  constructor(
+    private input: NodeJS.ReadStream = process.stdin,
+    private output: NodeJS.WriteStream = process.stdout
+  ) {}
+
+  /** Whether the terminal can show a picker at all. */
+  get available(): boolean {
+    return Boolean(this.input.isTTY && this.output.isTTY);
+  }
+
+  /** Resolves the chosen row, or null when dismissed or replaced by another pick. */
+  pick(title: string, items: PickItem[], initial = 0): Promise<number | null> {
+    this.cancel();
+    if (items.length === 0) {
+      return Promise.resolve(null);
+    }
+    return new Promise((resolve) => {
+      this.active = {
+        title,
+        items,
+        index: Math.min(Math.max(0, initial), items.length - 1),
+        drawn: 0,
+        done: resolve,
+      };
+      readline.emitKeypressEvents(this.input);
+      this.input.setRawMode(true);
+      this.input.on("keypress", this.onKeypress);
+      this.input.resume();
+      this.render();
+    });
+  }
+
+  /** Write a line of output without breaking the open list (drawn again below it). */
+  print(text: string): void {
+    this.erase();
+    this.output.write(text + "\n");
+    this.render();
+  }
+
+  /** Dismiss the open list, if any. */
+  cancel(): void {
+    this.finish(null);
+  }
+
+  private finish(index: number | null): void {
+    const active = this.active;
+    if (!active) {
+      return;
+    }
+    this.erase();
+    this.active = null;
+    this.input.off("keypress", this.onKeypress);
+    this.input.setRawMode(false);
+    this.input.pause();
+    active.done(index);
+  }
+
+  private handleKey(str: string | undefined, key: readline.Key | undefined): void {
+    const active = this.active;
+    if (!active) {
+      return;
+    }
+    const name = key?.name;
+    if (key?.ctrl && name === "c") {
+      this.finish(null);
+      // Raw mode swallows Ctrl+C; pass it on so the CLI can shut down
+      process.kill(process.pid, "SIGINT");
+      return;
+    }
+    if (name === "escape" || name === "q") {
+      this.finish(null);
+    } else if (name === "return" || name === "enter") {
+      this.finish(active.index);
+    } else if (name === "up" || name === "k") {
+      active.index = (active.index - 1 + active.items.length) % active.items.length;
+      this.render();
+    } else if (name === "down" || name === "j") {
+      active.index = (active.index + 1) % active.items.length;
+      this.render();
+    } else if (str && /^[1-9]$/.test(str) && Number(str) <= active.items.length) {
+      this.finish(Number(str) - 1);
+    }
+  }
+
+  /** Rows that fit: the title and hint take two lines. */
+  private visibleRows(): number {
+    return Math.max(3, (this.output.rows || 24) - 2);
+  }
+
+  private render(): void {
+    const active = this.active;
+    if (!active) {
+      return;
+    }
+    this.erase();
+    const rows = this.visibleRows();
+    const start = Math.min(
+      Math.max(0, active.index - Math.floor(rows / 2)),
+      Math.max(0, active.items.length - rows)
+    );
+    const shown = active.items.slice(start, start + rows);
+    const width = String(active.items.length).length;
+    const columns = this.output.columns || 80;
+
+    const lines = [active.title.slice(0, columns - 1)];
+    shown.forEach((item, i) => {
+      const n = start + i;
+      const number = String(n + 1).padStart(width);
+      // Cut to the terminal width: wrapped lines would throw off erase()
+      const text = `${number} ${(item.tag ?? "").padEnd(1)} ${item.label}`.slice(0, columns - 1);
+      const detail = item.detail.slice(0, Math.max(0, columns - text.length - 2));
+      lines.push(n === active.index ? `${INVERSE}${text}${RESET} ${DIM}${detail}${RESET}` : `${text} ${DIM}${detail}${RESET}`);
+    });
+    lines.push(`${DIM}↑/↓ move · Enter open · 1–9 open row · Esc dismiss${RESET}`);
+
+    this.output.write(lines.join("\n") + "\n");
+    active.drawn = lines.length;
+  }
+
+  private erase(): void {
+    const active = this.active;
+    if (!active || active.drawn === 0) {
+      return;
+    }
+    readline.moveCursor(this.output, 0, -active.drawn);
+    readline.clearScreenDown(this.output);
+    active.drawn = 0;
+  }
+}
@@ -0,0 +1,173 @@
+import * as http from "http";
+import {
+  Capability,
+  parseDiagnosticPayload,
+  parseSelectionPayload,
+  PROTOCOL_VERSION,
+  SUPPORTED_PROTOCOL_VERSIONS,
+} from "../../browser-bridge/protocol";
+import { removeDiscovery, writeDiscovery } from "../core/discovery";
+import { EventHub } from "../core/events";
+import { guardRequests, HOST, listenOn, readJsonBody, sendInvalid, sendJson, setCorsHeaders } from "../core/http";
+import { authenticate, AuthOptions, loadOrCreateToken, TOKEN_HEADER, tokensMatch } from "../core/security";
+import { DiagnosticReport, Selection } from "../core/types";
+import { CliConfig } from "./config";
+
+/* ------------------------------------------------------------------ */
+/*  The CLI's HTTP server — the extension's protocol, minus the parts  */
+/*  that need an editor UI (reveal, renders, snapshots, windows).      */
+/* ------------------------------------------------------------------ */
+
+export interface ServerHandlers {
+  /** Called after the response is sent, so a slow pick doesn't hold up the page. */
+  selection(selection: Selection): void;
+  diagnostic(report: DiagnosticReport): void;
+  log(message: string): void;
+}
+
+const CAPABILITIES: Capability[] = ["selection", "events", "diagnostic"];
+
+export class CliServer {
+  private server: http.Server | null = null;
+  private events = new EventHub();
+  private lastSelection: Selection | null = null;
+  port: number | null = null;
+
+  constructor(private config: CliConfig, private handlers: ServerHandlers) {}
+
+  /** Bind the first free port from `config.port` on and write the discovery file. */
+  async start(): Promise<number> {
+    const first = this.config.port;
+    const last = Math.min(65535, first + this.config.fallbackPorts);
+    let lastError: Error | null = null;
+    for (let port = first; port <= last; port++) {
+      const srv = http.createServer(
+        guardRequests((req, res) => this.handleRequest(req, res), this.handlers.log)
+      );
+      try {
+        await listenOn(srv, port);
+      } catch (err) {
+        lastError = err as Error;
+        if ((err as NodeJS.ErrnoException).code !== "EADDRINUSE") {
+          break;
+        }
+        continue;
+      }
+      this.server = srv;
+      this.port = port;
+      writeDiscovery({
+        server: "react-grab-bridge",
+        host: HOST,
+        port,
+        pid: process.pid,
+        workspaceFolders: this.config.roots,
+        startedAt: new Date().toISOString(),
+      });
+      return port;
+    }
+    throw new Error(`${lastError?.message ?? "no free port"} (tried ${first}–${last})`);
+  }
+
+  stop(): Promise<void> {
+    const srv = this.server;
+    if (!srv) {
+      return Promise.resolve();
+    }
+    removeDiscovery();
+    this.events.closeAll();
+    this.server = null;
+    this.port = null;
+    return new Promise((resolve) => srv.close(() => resolve()));
+  }
+
+  private authOptions(): AuthOptions {
+    return {
+      port: this.port,
+      token: loadOrCreateToken(),
+      allowedOrigins: this.config.allowedOrigins,
+      requireToken: this.config.requireToken,
+    };
+  }
+
+  private async handleRequest(req: http.IncomingMessage, res: http.ServerResponse): Promise<void> {
+    const auth = this.authOptions();
+    setCorsHeaders(req, res, auth.allowedOrigins);
+
+    const { pathname, searchParams } = new URL(req.url ?? "/", `http://${HOST}`);
+    const isHealth = req.method === "GET" && (pathname === "/" || pathname === "/health");
+    const isEvents = req.method === "GET" && pathname === "/events";
+    const needsToken = req.method !== "OPTIONS" && !isHealth;
+    const failure = authenticate(req.headers, auth, needsToken, isEvents ? searchParams.get("token") : null);
+    if (failure) {
+      this.handlers.log(`Rejected ${req.method} ${pathname} (origin: ${req.headers.origin ?? "-"}): ${failure.error}`);
+      sendJson(res, failure.status, { error: failure.error, code: failure.code });
+      return;
+    }
+
+    if (req.method === "OPTIONS") {
+      res.writeHead(204);
+      res.end();
+      return;
+    }
+
+    if (isHealth) {
+      const paired = !auth.requireToken || tokensMatch(req.headers[TOKEN_HEADER] as string | undefined, auth.token);
+      sendJson(res, 200, {
+        status: "ok",
+        server: "react-grab-bridge",
+        port: this.port,
+        // Tells VS Code windows not to join this server as a secondary
+        role: "standalone",
+        pairingRequired: auth.requireToken,
+        paired,
+        protocol: { version: PROTOCOL_VERSION, supported: SUPPORTED_PROTOCOL_VERSIONS },
+        capabilities: CAPABILITIES,
+        workspaceFolders: paired ? this.config.roots : undefined,
+        lastSelection:
+          paired && this.lastSelection
+            ? { domLabel: this.lastSelection.domLabel, frameCount: this.lastSelection.frames.length }
+            : null,
+      });
+      return;
+    }
+
+    // Nothing is pushed yet, but bridges subscribe unconditionally; an open stream keeps them quiet
+    if (isEvents) {
+      this.events.add(req, res);
+      return;
+    }
+
+    if (req.method === "POST" && pathname === "/diagnostic") {
+      const parsed = await readJsonBody(req, res);
+      if (parsed === undefined) {
+        return;
+      }
+      const result = parseDiagnosticPayload(parsed);
+      if (!result.ok) {
+        sendInvalid(res, result.error);
+        return;
+      }
+      sendJson(res, 200, { ok: true });
+      this.handlers.diagnostic(result.value);
+      return;
+    }
+
+    if (req.method === "POST" && pathname === "/selection") {
+      const parsed = await readJsonBody(req, res);
+      if (parsed === undefined) {
+        return;
+      }
+      const result = parseSelectionPayload(parsed);
+      if (!result.ok) {
+        sendInvalid(res, result.error);
+        return;
+      }
+      this.lastSelection = result.value;
+      sendJson(res, 200, { ok: true });
+      this.handlers.selection(result.value);
+      return;
+    }
+
+    sendJson(res, 404, { error: "Not found" });
+  }
+}
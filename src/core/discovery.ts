@@ -0,0 +1,65 @@
+import * as fs from "fs";
+import * as os from "os";
+import * as path from "path";
+
+/* ------------------------------------------------------------------ */
+/*  Discovery file — tells local tools which port the bridge bound.    */
+/*                                                                     */
+/*  Location: ~/.react-grab/bridge.json                                */
+/* ------------------------------------------------------------------ */
+
+export interface DiscoveryInfo {
+  server: "react-grab-bridge";
+  host: string;
+  port: number;
+  /** PID of the process that owns the server (the extension host). */
+  pid: number;
+  workspaceFolders: string[];
+  startedAt: string;
+}
+
+export const DEFAULT_PORT = 3344;
+
+/** Directory shared by every bridge instance on this machine. */
+export function getBridgeDir(): string {
+  return path.join(os.homedir(), ".react-grab");
+}
+
+export function getDiscoveryFile(): string {
+  return path.join(getBridgeDir(), "bridge.json");
+}
+
+export function writeDiscovery(info: DiscoveryInfo): void {
+  const file = getDiscoveryFile();
+  try {
+    fs.mkdirSync(path.dirname(file), { recursive: true });
+    fs.writeFileSync(file, JSON.stringify(info, null, 2) + "\n", "utf8");
+  } catch {
+    // Best-effort: the bridge still works without the file
+  }
+}
+
+export function readDiscovery(): DiscoveryInfo | null {
+  try {
+    const parsed = JSON.parse(fs.readFileSync(getDiscoveryFile(), "utf8"));
+    if (parsed?.server === "react-grab-bridge" && typeof parsed.port === "number") {
+      return parsed as DiscoveryInfo;
+    }
+  } catch {
+    // missing or corrupt
+  }
+  return null;
+}
+
+/** Remove the discovery file, but only if this process wrote it. */
+export function removeDiscovery(pid: number = process.pid): void {
+  const current = readDiscovery();
+  if (current && current.pid !== pid) {
+    return;
+  }
+  try {
+    fs.unlinkSync(getDiscoveryFile());
+  } catch {
+    // already gone
+  }
+}
@@ -0,0 +1,69 @@
+import * as http from "http";
+
+/* ------------------------------------------------------------------ */
+/*  Server-sent events — editor → browser push channel                 */
+/*                                                                     */
+/*  Pages open `GET /events` with EventSource and keep the response    */
+/*  open; the hub writes one `event:`/`data:` block per broadcast.     */
+/* ------------------------------------------------------------------ */
+
+/** Comment lines keep idle connections from being dropped by proxies/browsers. */
+const KEEPALIVE_MS = 15000;
+
+export class EventHub {
+  private clients = new Set<http.ServerResponse>();
+  private keepalive: ReturnType<typeof setInterval> | null = null;
+
+  get size(): number {
+    return this.clients.size;
+  }
+
+  /** Turn `res` into an event stream and keep it until the client disconnects. */
+  add(req: http.IncomingMessage, res: http.ServerResponse): void {
+    res.writeHead(200, {
+      "Content-Type": "text/event-stream",
+      "Cache-Control": "no-cache",
+      Connection: "keep-alive",
+    });
+    res.write(": connected\n\n");
+    this.clients.add(res);
+    req.on("close", () => {
+      this.clients.delete(res);
+      if (this.clients.size === 0) {
+        this.stopKeepalive();
+      }
+    });
+    if (!this.keepalive) {
+      this.keepalive = setInterval(() => {
+        for (const c of this.clients) {
+          c.write(": ping\n\n");
+        }
+      }, KEEPALIVE_MS);
+    }
+  }
+
+  /** Send an event to every connected page. Returns how many received it. */
+  broadcast(event: string, data: unknown): number {
+    const block = `event: ${event}\ndata: ${JSON.stringify(data)}\n\n`;
+    for (const c of this.clients) {
+      c.write(block);
+    }
+    return this.clients.size;
+  }
+
+  /** End every stream (open streams would otherwise keep `server.close()` waiting). */
+  closeAll(): void {
+    for (const c of this.clients) {
+      c.end();
+    }
+    this.clients.clear();
+    this.stopKeepalive();
+  }
+
+  private stopKeepalive(): void {
+    if (this.keepalive) {
+      clearInterval(this.keepalive);
+      this.keepalive = null;
+    }
+  }
+}
@@ -0,0 +1,653 @@
+import * as path from "path";
+import type * as TS from "typescript";
+import { findJsxElementNode, TextSpan } from "./jsxRange";
+import { scriptKind } from "./wrappers";
+
+/* ------------------------------------------------------------------ */
+/*  Extract JSX into a new component                                   */
+/*                                                                     */
+/*  Works out what the grabbed element needs from its surroundings:    */
+/*  names declared in the enclosing component (props, state,           */
+/*  handlers, map callback parameters) become props of the new         */
+/*  component; module-level names are imported by the new file (from   */
+/*  the same place, or from the source file after exporting them).     */
+/*  Globals are left alone. Produces text only; applying it is the     */
+/*  caller's job.                                                      */
+/* ------------------------------------------------------------------ */
+
+export interface ExtractOptions {
+  /** Name of the new component (PascalCase). */
+  name: string;
+  /** Absolute path of the file to create. */
+  targetFile: string;
+  /** One level of indentation, e.g. "  ". */
+  indent: string;
+}
+
+export interface ExtractedProp {
+  /** The name at the call site. */
+  name: string;
+  /** The prop name; differs from `name` for `key` and `ref`, which React keeps to itself. */
+  prop: string;
+  /** TypeScript type, or null in JavaScript files. */
+  type: string | null;
+}
+
+export interface SourceEdit extends TextSpan {
+  text: string;
+  /** Describes the change in a preview. */
+  label: string;
+}
+
+export interface ExtractPlan {
+  props: ExtractedProp[];
+  /** Content of the new file. */
+  componentText: string;
+  /** Non-overlapping edits to the source file. */
+  sourceEdits: SourceEdit[];
+}
+
+/** Where a name used by the element is declared, seen from the element. */
+type Origin =
+  /** Lib/ambient declaration — nothing to do. */
+  | { kind: "global" }
+  /** Inside the element itself. */
+  | { kind: "inner" }
+  /** In the enclosing component: passed as a prop. */
+  | { kind: "prop" }
+  /** An import of the source file: copied. */
+  | { kind: "import"; decl: TS.ImportSpecifier | TS.ImportClause | TS.NamespaceImport }
+  /** A top-level declaration of the source file: exported there and imported. */
+  | { kind: "local"; statement: TS.Statement; name: string; typeOnly: boolean };
+
+interface ModuleImports {
+  default?: { local: string; typeOnly: boolean };
+  namespace?: { local: string; typeOnly: boolean };
+  named: Map<string, { imported: string; typeOnly: boolean }>;
+}
+
+/** Props React handles itself; never passed through to the component. */
+const RESERVED_PROPS = new Set(["key", "ref"]);
+const SCRIPT_EXTENSION = /\.[cm]?[jt]sx?$/;
+
+/**
+ * A program for type information: the options of the nearest
+ * tsconfig.json / jsconfig.json, with `text` standing in for the file's
+ * saved contents (the editor may have unsaved changes).
+ */
+export function createExtractionProgram(ts: typeof TS, fileName: string, text: string): TS.Program {
+  let options: TS.CompilerOptions = {};
+  const dir = path.dirname(fileName);
+  const configFile =
+    ts.findConfigFile(dir, ts.sys.fileExists, "tsconfig.json") ??
+    ts.findConfigFile(dir, ts.sys.fileExists, "jsconfig.json");
+  if (configFile) {
+    const read = ts.readConfigFile(configFile, ts.sys.readFile);
+    if (!read.error) {
+      options = ts.parseJsonConfigFileContent(read.config, ts.sys, path.dirname(configFile)).options;
+    }
+  }
+  options = { ...options, allowJs: true, noEmit: true, skipLibCheck: true, jsx: options.jsx ?? ts.JsxEmit.Preserve };
+
+  const host = ts.createCompilerHost(options, true);
+  const getSourceFile = host.getSourceFile;
+  const target = path.resolve(fileName);
+  host.getSourceFile = (name, languageVersion, onError, shouldCreate) =>
+    path.resolve(name) === target
+      ? ts.createSourceFile(name, text, languageVersion, true, scriptKind(ts, name))
+      : getSourceFile.call(host, name, languageVersion, onError, shouldCreate);
+  return ts.createProgram([fileName], options, host);
+}
+
+/* ------------------------------------------------------------------ */
+/*  Helpers                                                            */
+/* ------------------------------------------------------------------ */
+
+function spanOf(source: TS.SourceFile, node: TS.Node): TextSpan {
+  return { start: node.getStart(source), end: node.end };
+}
+
+function within(source: TS.SourceFile, node: TS.Node, span: TextSpan): boolean {
+  return node.getStart(source) >= span.start && node.end <= span.end;
+}
+
+/** Module specifier for `toFile` from a file in `fromDir`; `extension` replaces the file's own. */
+function relativeSpecifier(fromDir: string, toFile: string, extension: string | null): string {
+  const file = extension === null ? toFile : toFile.replace(SCRIPT_EXTENSION, extension);
+  const rel = path.relative(fromDir, file).split(path.sep).join("/");
+  return rel.startsWith(".") ? rel : `./${rel}`;
+}
+
+function leftmostName(ts: typeof TS, name: TS.EntityName | TS.Expression): string | null {
+  while (ts.isQualifiedName(name) || ts.isPropertyAccessExpression(name)) {
+    name = ts.isQualifiedName(name) ? name.left : name.expression;
+  }
+  return ts.isIdentifier(name) ? ts.idText(name) : null;
+}
+
+/** Identifiers that refer to something, as opposed to naming a property, attribute or declaration. */
+function isReference(ts: typeof TS, id: TS.Identifier): boolean {
+  const p = id.parent;
+  if (ts.isPropertyAccessExpression(p) && p.name === id) {
+    return false;
+  }
+  if (ts.isQualifiedName(p) && p.right === id) {
+    return false;
+  }
+  if (ts.isJsxOpeningElement(p) || ts.isJsxSelfClosingElement(p) || ts.isJsxClosingElement(p)) {
+    // Lowercase tags are host elements; closing tags repeat the opening one
+    return !ts.isJsxClosingElement(p) && !/^[a-z]/.test(ts.idText(id));
+  }
+  if (ts.isJsxAttribute(p) || ts.isPropertyAssignment(p) || ts.isPropertySignature(p) || ts.isEnumMember(p)) {
+    return p.name !== id;
+  }
+  if (ts.isBindingElement(p)) {
+    return p.name !== id && p.propertyName !== id;
+  }
+  if (
+    ts.isParameter(p) ||
+    ts.isVariableDeclaration(p) ||
+    ts.isFunctionDeclaration(p) ||
+    ts.isFunctionExpression(p) ||
+    ts.isClassDeclaration(p) ||
+    ts.isClassExpression(p) ||
+    ts.isMethodDeclaration(p) ||
+    ts.isPropertyDeclaration(p) ||
+    ts.isGetAccessorDeclaration(p) ||
+    ts.isSetAccessorDeclaration(p) ||
+    ts.isTypeParameterDeclaration(p)
+  ) {
+    return p.name !== id;
+  }
+  return !(ts.isLabeledStatement(p) || ts.isBreakStatement(p) || ts.isContinueStatement(p));
+}
+
+function isInTypePosition(ts: typeof TS, node: TS.Node, root: TS.Node): boolean {
+  for (let n: TS.Node = node; n !== root; n = n.parent) {
+    if (ts.isTypeNode(n)) {
+      return true;
+    }
+  }
+  return false;
+}
+
+function isExported(ts: typeof TS, statement: TS.Statement): "default" | "named" | null {
+  const modifiers = ts.canHaveModifiers(statement) ? ts.getModifiers(statement) ?? [] : [];
+  if (!modifiers.some((m) => m.kind === ts.SyntaxKind.ExportKeyword)) {
+    return null;
+  }
+  return modifiers.some((m) => m.kind === ts.SyntaxKind.DefaultKeyword) ? "default" : "named";
+}
+
+/** How `local` is exported by `export { … }` or `export default local` statements, if at all. */
+function exportedElsewhere(ts: typeof TS, source: TS.SourceFile, local: string): string | null {
+  for (const s of source.statements) {
+    if (ts.isExportAssignment(s) && !s.isExportEquals && ts.isIdentifier(s.expression) && s.expression.text === local) {
+      return "default";
+    }
+    if (ts.isExportDeclaration(s) && !s.moduleSpecifier && s.exportClause && ts.isNamedExports(s.exportClause)) {
+      const spec = s.exportClause.elements.find((e) => (e.propertyName ?? e.name).text === local);
+      if (spec) {
+        return spec.name.text;
+      }
+    }
+  }
+  return null;
+}
+
+/* ------------------------------------------------------------------ */
+/*  Planner                                                            */
+/* ------------------------------------------------------------------ */
+
+class Planner {
+  private checker: TS.TypeChecker;
+  private element: TS.JsxElement | TS.JsxSelfClosingElement;
+  private elementSpan: TextSpan;
+  /** Parameters and body of the outermost function around the element. */
+  private componentSpan: TextSpan | null = null;
+  private keyAttribute: TS.JsxAttribute | null;
+  private modules = new Map<string, ModuleImports>();
+  private exports = new Map<TS.Statement, string>();
+  private scopeSymbols: Map<string, TS.Symbol> | null = null;
+  private quote: string;
+  private semi: string;
+  /** Extension for our own relative specifiers ("" for extensionless, ".js" for ESM-style). */
+  private specifierExtension: string;
+
+  constructor(
+    private ts: typeof TS,
+    program: TS.Program,
+    private source: TS.SourceFile,
+    offset: number,
+    private options: ExtractOptions
+  ) {
+    this.checker = program.getTypeChecker();
+    const element = findJsxElementNode(ts, source, offset);
+    if (!element) {
+      throw new Error("there is no JSX element at the grabbed position");
+    }
+    this.element = element;
+    this.elementSpan = spanOf(source, element);
+
+    let component: TS.SignatureDeclaration | null = null;
+    for (let n: TS.Node = element.parent; !ts.isSourceFile(n); n = n.parent) {
+      if (ts.isFunctionLike(n)) {
+        component = n;
+      }
+    }
+    if (component) {
+      const first = component.parameters[0] ?? (component as TS.FunctionLikeDeclaration).body ?? component;
+      this.componentSpan = { start: first.getStart(source), end: component.end };
+    }
+
+    const attributes = ts.isJsxElement(element) ? element.openingElement.attributes : element.attributes;
+    this.keyAttribute =
+      attributes.properties.find(
+        (p): p is TS.JsxAttribute => ts.isJsxAttribute(p) && ts.isIdentifier(p.name) && p.name.text === "key"
+      ) ?? null;
+
+    const firstImport = source.statements.find(ts.isImportDeclaration);
+    this.quote = firstImport?.moduleSpecifier.getText(source).startsWith("'") ? "'" : '"';
+    this.semi = !firstImport || firstImport.getText(source).trimEnd().endsWith(";") ? ";" : "";
+    const esmStyle = source.statements.some(
+      (s) =>
+        ts.isImportDeclaration(s) &&
+        ts.isStringLiteral(s.moduleSpecifier) &&
+        /^\.\.?\/.*\.[cm]?js$/.test(s.moduleSpecifier.text)
+    );
+    this.specifierExtension = esmStyle ? ".js" : "";
+  }
+
+  plan(): ExtractPlan {
+    const { ts, source, options } = this;
+    this.checkName();
+
+    // Names the element uses, in order of first use; `key` stays at the call site
+    const props = new Map<TS.Symbol, { id: TS.Identifier; prop: ExtractedProp }>();
+    const renames: SourceEdit[] = [];
+    const visit = (node: TS.Node): void => {
+      if (node === this.keyAttribute) {
+        return;
+      }
+      if (node.kind === ts.SyntaxKind.ThisKeyword) {
+        throw new Error("the element uses `this`; extract from a function component");
+      }
+      if (ts.isIdentifier(node) && isReference(ts, node)) {
+        this.addReference(node, props, renames);
+      }
+      ts.forEachChild(node, visit);
+    };
+    visit(this.element);
+
+    const extracted = [...props.values()].map((p) => p.prop);
+    const typed = /\.[cm]?tsx?$/.test(source.fileName);
+    if (typed) {
+      for (const { id, prop } of props.values()) {
+        prop.type = this.propType(id);
+      }
+    }
+    this.addReactImport();
+
+    return {
+      props: extracted,
+      componentText: this.componentText(extracted, renames, typed),
+      sourceEdits: this.sourceEdits(extracted, options.name),
+    };
+  }
+
+  /** The new name must not shadow or be shadowed by anything the source can see. */
+  private checkName(): void {
+    const { ts, source } = this;
+    const flags = ts.SymbolFlags.Value | ts.SymbolFlags.Type | ts.SymbolFlags.Alias;
+    const clash = this.checker
+      .getSymbolsInScope(this.element, flags)
+      .some((s) => s.name === this.options.name && s.declarations?.some((d) => d.getSourceFile() === source));
+    if (clash) {
+      throw new Error(`"${this.options.name}" is already defined in ${path.basename(source.fileName)}`);
+    }
+  }
+
+  private addReference(
+    id: TS.Identifier,
+    props: Map<TS.Symbol, { id: TS.Identifier; prop: ExtractedProp }>,
+    renames: SourceEdit[]
+  ): void {
+    const { ts, checker } = this;
+    const parent = id.parent;
+    const symbol =
+      ts.isShorthandPropertyAssignment(parent) && parent.name === id
+        ? checker.getShorthandAssignmentValueSymbol(parent)
+        : checker.getSymbolAtLocation(id);
+    const decl = symbol?.declarations?.[0];
+    if (!symbol || !decl) {
+      return;
+    }
+    const origin = this.origin(decl);
+    if (origin.kind === "prop") {
+      const name = ts.idText(id);
+      if (isInTypePosition(ts, id, this.element)) {
+        throw new Error(`the element uses "${name}", a type declared inside the component; move it out first`);
+      }
+      let entry = props.get(symbol);
+      if (!entry) {
+        const prop = RESERVED_PROPS.has(name) ? `${name}Prop` : name;
+        entry = { id, prop: { name, prop, type: null } };
+        props.set(symbol, entry);
+      }
+      if (entry.prop.prop !== name) {
+        const shorthand = ts.isShorthandPropertyAssignment(parent);
+        renames.push({
+          ...spanOf(this.source, id),
+          text: shorthand ? `${name}: ${entry.prop.prop}` : entry.prop.prop,
+          label: "",
+        });
+      }
+    } else {
+      this.addModuleImport(origin);
+    }
+  }
+
+  private origin(decl: TS.Declaration): Origin {
+    const { ts, source } = this;
+    if (decl.getSourceFile() !== source) {
+      return { kind: "global" };
+    }
+    if (within(source, decl, this.elementSpan)) {
+      return { kind: "inner" };
+    }
+    if (this.componentSpan && within(source, decl, this.componentSpan)) {
+      return { kind: "prop" };
+    }
+    if (ts.isImportSpecifier(decl) || ts.isImportClause(decl) || ts.isNamespaceImport(decl)) {
+      return { kind: "import", decl };
+    }
+    const statement = ts.isVariableDeclaration(decl) ? decl.parent.parent : decl;
+    const named = decl as TS.NamedDeclaration;
+    if (statement.parent === source && named.name && ts.isIdentifier(named.name)) {
+      return {
+        kind: "local",
+        statement: statement as TS.Statement,
+        name: named.name.text,
+        typeOnly: ts.isInterfaceDeclaration(decl) || ts.isTypeAliasDeclaration(decl),
+      };
+    }
+    // Declared somewhere the new file can't reach (e.g. another function's scope)
+    return { kind: "prop" };
+  }
+
+  private module(specifier: string): ModuleImports {
+    let m = this.modules.get(specifier);
+    if (!m) {
+      m = { named: new Map() };
+      this.modules.set(specifier, m);
+    }
+    return m;
+  }
+
+  private addModuleImport(origin: Origin): void {
+    const { ts, source } = this;
+    const newDir = path.dirname(this.options.targetFile);
+    if (origin.kind === "import") {
+      const decl = origin.decl;
+      const clause: TS.ImportClause = ts.isImportClause(decl)
+        ? decl
+        : ts.isNamespaceImport(decl)
+          ? decl.parent
+          : decl.parent.parent;
+      const declaration = clause.parent;
+      if (!ts.isImportDeclaration(declaration) || !ts.isStringLiteral(declaration.moduleSpecifier)) {
+        return;
+      }
+      let specifier = declaration.moduleSpecifier.text;
+      if (specifier.startsWith(".")) {
+        specifier = relativeSpecifier(newDir, path.resolve(path.dirname(source.fileName), specifier), null);
+      }
+      const m = this.module(specifier);
+      const local = ts.idText(decl.name!);
+      if (ts.isImportClause(decl)) {
+        m.default = { local, typeOnly: decl.isTypeOnly };
+      } else if (ts.isNamespaceImport(decl)) {
+        m.namespace = { local, typeOnly: clause.isTypeOnly };
+      } else {
+        const imported = decl.propertyName ? ts.idText(decl.propertyName as TS.Identifier) : local;
+        m.named.set(local, { imported, typeOnly: decl.isTypeOnly || clause.isTypeOnly });
+      }
+    } else if (origin.kind === "local") {
+      const specifier = relativeSpecifier(newDir, source.fileName, this.specifierExtension);
+      const m = this.module(specifier);
+      const how = isExported(ts, origin.statement) ?? exportedElsewhere(ts, source, origin.name);
+      if (how === "default") {
+        m.default = { local: origin.name, typeOnly: origin.typeOnly };
+        return;
+      }
+      if (how === null) {
+        this.exports.set(origin.statement, origin.name);
+      }
+      m.named.set(origin.name, { imported: how && how !== "named" ? how : origin.name, typeOnly: origin.typeOnly });
+    }
+  }
+
+  /** Classic-runtime JSX needs React in scope, so its default/namespace import comes along. */
+  private addReactImport(): void {
+    const { ts } = this;
+    for (const s of this.source.statements) {
+      if (!ts.isImportDeclaration(s) || !ts.isStringLiteral(s.moduleSpecifier) || s.moduleSpecifier.text !== "react") {
+        continue;
+      }
+      const clause = s.importClause;
+      if (clause?.name) {
+        this.addModuleImport({ kind: "import", decl: clause });
+      }
+      if (clause?.namedBindings && ts.isNamespaceImport(clause.namedBindings)) {
+        this.addModuleImport({ kind: "import", decl: clause.namedBindings });
+      }
+    }
+  }
+
+  /** The prop's type where the element uses it; names in it are imported like the element's own. */
+  private propType(id: TS.Identifier): string {
+    const { ts, checker } = this;
+    const parent = id.parent;
+    const symbol = ts.isShorthandPropertyAssignment(parent)
+      ? checker.getShorthandAssignmentValueSymbol(parent)
+      : checker.getSymbolAtLocation(id);
+    if (!symbol) {
+      return "any";
+    }
+    // Narrowed where the element uses it (`user && <Card user={user} />`), except that a
+    // literal narrowed from a declared union goes back to the union, and a plain literal
+    // (`const label = "Save"`) is widened so the prop takes any string
+    const isLiteral = (t: TS.Type) => t.isLiteral() || (t.flags & ts.TypeFlags.BooleanLiteral) !== 0;
+    let type = checker.getTypeOfSymbolAtLocation(symbol, id);
+    if (isLiteral(type)) {
+      type = checker.getTypeOfSymbol(symbol);
+    }
+    if (isLiteral(type)) {
+      type = checker.getBaseTypeOfLiteralType(type);
+    }
+    const node = checker.typeToTypeNode(
+      type,
+      this.element,
+      ts.NodeBuilderFlags.NoTruncation | ts.NodeBuilderFlags.UseAliasDefinedOutsideCurrentScope
+    );
+    if (!node) {
+      return "any";
+    }
+
+    const names = new Set<string>();
+    const collect = (n: TS.Node): void => {
+      const name = ts.isTypeReferenceNode(n)
+        ? leftmostName(ts, n.typeName)
+        : ts.isTypeQueryNode(n)
+          ? leftmostName(ts, n.exprName)
+          : null;
+      if (name) {
+        names.add(name);
+      }
+      ts.forEachChild(n, collect);
+    };
+    collect(node);
+
+    const origins: Origin[] = [];
+    for (const name of names) {
+      const decl = this.scopeSymbol(name)?.declarations?.[0];
+      const origin = decl ? this.origin(decl) : ({ kind: "global" } as Origin);
+      if (origin.kind === "prop" || origin.kind === "inner") {
+        // A type local to the component can't be named from the new file
+        return "any";
+      }
+      origins.push(origin);
+    }
+    origins.forEach((o) => this.addModuleImport(o));
+
+    const printed = ts.createPrinter({ removeComments: true }).printNode(ts.EmitHint.Unspecified, node, this.source);
+    // Types the source can't name are printed as import("…") relative to it
+    return printed.replace(/import\("(\.[^"]*)"\)/g, (_, spec: string) => {
+      const abs = path.resolve(path.dirname(this.source.fileName), spec);
+      return `import("${relativeSpecifier(path.dirname(this.options.targetFile), abs, null)}")`;
+    });
+  }
+
+  private scopeSymbol(name: string): TS.Symbol | undefined {
+    if (!this.scopeSymbols) {
+      const { ts } = this;
+      const flags = ts.SymbolFlags.Type | ts.SymbolFlags.Namespace | ts.SymbolFlags.Alias | ts.SymbolFlags.Value;
+      this.scopeSymbols = new Map(this.checker.getSymbolsInScope(this.element, flags).map((s) => [s.name, s]));
+    }
+    return this.scopeSymbols.get(name);
+  }
+
+  /* ---------------------------------------------------------------- */
+  /*  Output                                                          */
+  /* ---------------------------------------------------------------- */
+
+  private importLines(): string[] {
+    const q = this.quote;
+    const lines: string[] = [];
+    const entries = [...this.modules].sort(([a], [b]) => Number(a.startsWith(".")) - Number(b.startsWith(".")));
+    for (const [specifier, m] of entries) {
+      const from = `from ${q}${specifier}${q}${this.semi}`;
+      if (m.namespace) {
+        lines.push(`import ${m.namespace.typeOnly ? "type " : ""}* as ${m.namespace.local} ${from}`);
+      }
+      const named = [...m.named].map(([local, n]) => ({
+        text: n.imported === local ? local : `${n.imported} as ${local}`,
+        typeOnly: n.typeOnly,
+      }));
+      if (!m.default && named.length === 0) {
+        continue;
+      }
+      const allTypes = (!m.default || m.default.typeOnly) && named.every((n) => n.typeOnly);
+      const list = (inline: boolean) =>
+        `{ ${named.map((n) => (inline && n.typeOnly ? `type ${n.text}` : n.text)).join(", ")} }`;
+      if (allTypes && m.default && named.length > 0) {
+        // `import type A, { B }` isn't allowed
+        lines.push(`import type ${m.default.local} ${from}`, `import type ${list(false)} ${from}`);
+      } else if (allTypes) {
+        lines.push(`import type ${m.default ? m.default.local : list(false)} ${from}`);
+      } else {
+        const parts = [m.default?.local, named.length > 0 ? list(true) : undefined].filter(Boolean);
+        lines.push(`import ${parts.join(", ")} ${from}`);
+      }
+    }
+    return lines;
+  }
+
+  /** The element's text with `key` removed and reserved names renamed, re-indented for `return (…)`. */
+  private jsxBody(renames: SourceEdit[]): string {
+    const { source, elementSpan } = this;
+    const edits = [...renames];
+    if (this.keyAttribute) {
+      // `pos` includes the whitespace before the attribute
+      edits.push({ start: this.keyAttribute.pos, end: this.keyAttribute.end, text: "", label: "" });
+    }
+    let text = source.text.slice(elementSpan.start, elementSpan.end);
+    for (const e of edits.sort((a, b) => b.start - a.start)) {
+      text = text.slice(0, e.start - elementSpan.start) + e.text + text.slice(e.end - elementSpan.start);
+    }
+
+    const lineStart = source.text.lastIndexOf("\n", elementSpan.start - 1) + 1;
+    const baseIndent = /^[ \t]*/.exec(source.text.slice(lineStart, elementSpan.start))![0];
+    const indent = this.options.indent.repeat(2);
+    return text
+      .split("\n")
+      .map((line, i) => (i > 0 && line.startsWith(baseIndent) ? line.slice(baseIndent.length) : i > 0 ? line.trimStart() : line))
+      .map((line) => (line.trim() === "" ? "" : indent + line.trimEnd()))
+      .join("\n");
+  }
+
+  private componentText(props: ExtractedProp[], renames: SourceEdit[], typed: boolean): string {
+    const { name, indent } = this.options;
+    const imports = this.importLines();
+    let params = "";
+    let propsType = "";
+    if (props.length > 0) {
+      params = `{ ${props.map((p) => p.prop).join(", ")} }`;
+      if (typed) {
+        const members = props.map((p) => `${indent}${p.prop}: ${p.type ?? "any"};`).join("\n");
+        propsType = `export interface ${name}Props {\n${members}\n}\n\n`;
+        params += `: ${name}Props`;
+      }
+    }
+    return [
+      imports.length > 0 ? imports.join("\n") + "\n\n" : "",
+      propsType,
+      `export function ${name}(${params}) {\n`,
+      `${indent}return (\n${this.jsxBody(renames)}\n${indent})${this.semi}\n`,
+      "}\n",
+    ].join("");
+  }
+
+  private sourceEdits(props: ExtractedProp[], name: string): SourceEdit[] {
+    const { ts, source } = this;
+    const attributes = [
+      this.keyAttribute ? this.keyAttribute.getText(source) : null,
+      ...props.map((p) => `${p.prop}={${p.name}}`),
+    ].filter((a): a is string => a !== null);
+    const edits: SourceEdit[] = [
+      {
+        ...this.elementSpan,
+        text: `<${name}${attributes.map((a) => " " + a).join("")} />`,
+        label: `Replace the element with <${name} />`,
+      },
+    ];
+
+    for (const [statement, exported] of this.exports) {
+      const start = statement.getStart(source);
+      edits.push({ start, end: start, text: "export ", label: `Export ${exported} for ${name}` });
+    }
+
+    const q = this.quote;
+    const specifier = relativeSpecifier(path.dirname(source.fileName), this.options.targetFile, this.specifierExtension);
+    const statement = `import { ${name} } from ${q}${specifier}${q}${this.semi}`;
+    const imports = source.statements.filter(ts.isImportDeclaration);
+    const directives = source.statements.filter(
+      (s, i) => ts.isExpressionStatement(s) && ts.isStringLiteral(s.expression) && source.statements.slice(0, i).every((p) => ts.isExpressionStatement(p))
+    );
+    const after = imports[imports.length - 1] ?? directives[directives.length - 1];
+    edits.push(
+      after
+        ? { start: after.end, end: after.end, text: `\n${imports.length > 0 ? "" : "\n"}${statement}`, label: `Import ${name}` }
+        : { start: 0, end: 0, text: `${statement}\n\n`, label: `Import ${name}` }
+    );
+    return edits.sort((a, b) => a.start - b.start);
+  }
+}
+
+/**
+ * Plan extracting the JSX element at `offset` of `fileName` into a new
+ * component. Throws with a message for the user when it can't be done.
+ */
+export function planExtraction(
+  ts: typeof TS,
+  program: TS.Program,
+  fileName: string,
+  offset: number,
+  options: ExtractOptions
+): ExtractPlan {
+  const source = program.getSourceFile(fileName);
+  if (!source) {
+    throw new Error(`could not parse ${path.basename(fileName)}`);
+  }
+  return new Planner(ts, program, source, offset, options).plan();
+}
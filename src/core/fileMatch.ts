@@ -0,0 +1,177 @@
+import * as fs from "fs";
+import * as path from "path";
+
+/* ------------------------------------------------------------------ */
+/*  File matching — finds the project file a frame path names when it  */
+/*  doesn't exist as-is. The VS Code extension fills the index from    */
+/*  the workspace (fileIndex.ts); the CLI scans the disk.              */
+/* ------------------------------------------------------------------ */
+
+export interface IndexedFile {
+  /** Absolute filesystem path. */
+  absPath: string;
+  /** Path relative to its workspace folder, forward slashes. */
+  relPath: string;
+  /** Name of the owning workspace folder. */
+  folder: string;
+}
+
+export type MatchKind = "exact" | "suffix" | "basename" | "none";
+
+export interface FileMatch {
+  kind: MatchKind;
+  /** Ranked best-first. Empty when kind === "none". */
+  candidates: IndexedFile[];
+  /** Number of trailing path segments shared with the query (exact/suffix/basename). */
+  score: number;
+}
+
+export const SOURCE_EXTENSIONS = ["js", "jsx", "ts", "tsx", "mjs", "cjs", "mts", "cts"];
+export const EXCLUDED_DIRS = ["node_modules", ".git", ".next", ".turbo", "dist", "build", "out", "coverage"];
+
+function segments(p: string): string[] {
+  return p.replace(/\\/g, "/").split("/").filter((s) => s.length > 0);
+}
+
+/** Count how many trailing segments two paths have in common. */
+function commonSuffixLength(a: string[], b: string[]): number {
+  let n = 0;
+  while (
+    n < a.length &&
+    n < b.length &&
+    a[a.length - 1 - n] === b[b.length - 1 - n]
+  ) {
+    n++;
+  }
+  return n;
+}
+
+export class FileMatcher {
+  private files = new Map<string, IndexedFile>();
+  private byBasename = new Map<string, IndexedFile[]>();
+
+  get size(): number {
+    return this.files.size;
+  }
+
+  add(entry: IndexedFile): void {
+    if (this.files.has(entry.absPath)) {
+      return;
+    }
+    this.files.set(entry.absPath, entry);
+    const base = path.basename(entry.absPath);
+    const list = this.byBasename.get(base);
+    if (list) {
+      list.push(entry);
+    } else {
+      this.byBasename.set(base, [entry]);
+    }
+  }
+
+  /** Remove a file, or everything under a directory (deleting a directory is reported once). */
+  remove(absPath: string): void {
+    const dirPrefix = absPath + path.sep;
+    for (const [file, entry] of this.files) {
+      if (file !== absPath && !file.startsWith(dirPrefix)) {
+        continue;
+      }
+      this.files.delete(file);
+      const base = path.basename(file);
+      const list = (this.byBasename.get(base) ?? []).filter((f) => f !== entry);
+      if (list.length > 0) {
+        this.byBasename.set(base, list);
+      } else {
+        this.byBasename.delete(base);
+      }
+    }
+  }
+
+  clear(): void {
+    this.files.clear();
+    this.byBasename.clear();
+  }
+
+  /**
+   * Find the file(s) best matching a workspace-relative path.
+   * Order of preference: exact relative path, longest common path
+   * suffix (at least two segments), then bare file name.
+   */
+  match(normalizedFile: string): FileMatch {
+    const query = segments(normalizedFile);
+    const base = query[query.length - 1];
+    if (!base) {
+      return { kind: "none", candidates: [], score: 0 };
+    }
+    const sameName = this.byBasename.get(base) ?? [];
+    if (sameName.length === 0) {
+      return { kind: "none", candidates: [], score: 0 };
+    }
+
+    const scored = sameName
+      .map((file) => ({
+        file,
+        score: commonSuffixLength(query, segments(file.relPath)),
+      }))
+      .sort(
+        (a, b) =>
+          b.score - a.score || a.file.relPath.length - b.file.relPath.length
+      );
+
+    const best = scored[0].score;
+    const exact = scored.filter(
+      (s) => s.score === query.length && segments(s.file.relPath).length === query.length
+    );
+    if (exact.length > 0) {
+      return { kind: "exact", candidates: exact.map((s) => s.file), score: best };
+    }
+    if (best >= 2) {
+      return {
+        kind: "suffix",
+        candidates: scored.filter((s) => s.score === best).map((s) => s.file),
+        score: best,
+      };
+    }
+    return { kind: "basename", candidates: scored.map((s) => s.file), score: 1 };
+  }
+}
+
+/**
+ * Walk `roots` for source files, skipping `excludeDirs` anywhere in the
+ * tree. For tools without an editor's file search (the CLI).
+ */
+export async function scanSourceFiles(
+  roots: string[],
+  options: { extensions?: string[]; excludeDirs?: string[] } = {}
+): Promise<FileMatcher> {
+  const extensions = new Set((options.extensions ?? SOURCE_EXTENSIONS).map((e) => `.${e}`));
+  const excluded = new Set(options.excludeDirs ?? EXCLUDED_DIRS);
+  const matcher = new FileMatcher();
+
+  const walk = async (root: string, dir: string): Promise<void> => {
+    let entries: fs.Dirent[];
+    try {
+      entries = await fs.promises.readdir(dir, { withFileTypes: true });
+    } catch {
+      return;
+    }
+    for (const entry of entries) {
+      const absPath = path.join(dir, entry.name);
+      if (entry.isDirectory()) {
+        if (!excluded.has(entry.name)) {
+          await walk(root, absPath);
+        }
+      } else if (entry.isFile() && extensions.has(path.extname(entry.name))) {
+        matcher.add({
+          absPath,
+          relPath: path.relative(root, absPath).replace(/\\/g, "/"),
+          folder: path.basename(root),
+        });
+      }
+    }
+  };
+
+  for (const root of roots) {
+    await walk(root, root);
+  }
+  return matcher;
+}
@@ -0,0 +1,115 @@
+import * as http from "http";
+import { FieldError, SUPPORTED_PROTOCOL_VERSIONS } from "../../browser-bridge/protocol";
+import { isOriginAllowed } from "./security";
+
+/* ------------------------------------------------------------------ */
+/*  HTTP helpers shared by the extension's server and the CLI's        */
+/* ------------------------------------------------------------------ */
+
+export const MAX_BODY = 200 * 1024; // 200 KB
+export const HOST = "127.0.0.1";
+
+export function sendJson(res: http.ServerResponse, status: number, body: unknown): void {
+  res.writeHead(status, { "Content-Type": "application/json" });
+  res.end(JSON.stringify(body));
+}
+
+/**
+ * Read and parse a JSON request body. Resolves `undefined` when an error
+ * response (413 / 400) has already been sent, or when the request failed
+ * or was aborted before it ended (there's no one left to answer).
+ */
+export function readJsonBody(
+  req: http.IncomingMessage,
+  res: http.ServerResponse
+): Promise<unknown | undefined> {
+  return new Promise((resolve) => {
+    let body = "";
+    let tooLarge = false;
+
+    req.on("data", (chunk: Buffer) => {
+      body += chunk.toString();
+      if (body.length > MAX_BODY && !tooLarge) {
+        tooLarge = true;
+        sendJson(res, 413, { error: "Body too large" });
+        req.destroy();
+        resolve(undefined);
+      }
+    });
+
+    req.on("end", () => {
+      if (tooLarge) {
+        return;
+      }
+      try {
+        resolve(JSON.parse(body));
+      } catch {
+        sendJson(res, 400, { error: "Invalid JSON" });
+        resolve(undefined);
+      }
+    });
+
+    // After "end" this is a no-op; before it, the client went away mid-body
+    req.on("error", () => resolve(undefined));
+    req.on("close", () => resolve(undefined));
+  });
+}
+
+/** 400 with the field that failed, so bridge authors can see what to fix. */
+export function sendInvalid(res: http.ServerResponse, error: FieldError): void {
+  sendJson(res, 400, {
+    error: error.message,
+    code: error.code,
+    path: error.path,
+    supportedVersions: SUPPORTED_PROTOCOL_VERSIONS,
+  });
+}
+
+/** CORS headers; only allow-listed origins are echoed. */
+export function setCorsHeaders(req: http.IncomingMessage, res: http.ServerResponse, allowedOrigins: string[]): void {
+  const origin = req.headers.origin;
+  if (origin && isOriginAllowed(origin, allowedOrigins)) {
+    res.setHeader("Access-Control-Allow-Origin", origin);
+  }
+  res.setHeader("Vary", "Origin");
+  res.setHeader("Access-Control-Allow-Methods", "GET, POST, OPTIONS");
+  res.setHeader("Access-Control-Allow-Headers", "Content-Type, X-React-Grab-Token");
+}
+
+/** Resolve once the server is listening on `port`; reject with the listen error otherwise. */
+export function listenOn(srv: http.Server, port: number): Promise<void> {
+  return new Promise((resolve, reject) => {
+    const onError = (err: Error) => {
+      srv.off("listening", onListening);
+      reject(err);
+    };
+    const onListening = () => {
+      srv.off("error", onError);
+      resolve();
+    };
+    srv.once("error", onError);
+    srv.once("listening", onListening);
+    srv.listen(port, HOST);
+  });
+}
+
+/**
+ * A request listener for an async handler. A rejection is logged and,
+ * if no response has started yet, answered with a 500 so the client
+ * isn't left waiting.
+ */
+export function guardRequests(
+  handler: (req: http.IncomingMessage, res: http.ServerResponse) => Promise<void>,
+  log: (message: string) => void
+): http.RequestListener {
+  return (req, res) => {
+    handler(req, res).catch((err: Error) => {
+      log(`Request ${req.method} ${req.url} failed: ${err?.stack ?? err}`);
+      if (!res.headersSent) {
+        sendJson(res, 500, { error: "Internal error" });
+      } else if (!res.writableEnded) {
+        res.end();
+      }
+    });
+  };
+}
@@ -0,0 +1,98 @@
+import type * as TS from "typescript";
+
+/* ------------------------------------------------------------------ */
+/*  JSX element at a position                                          */
+/*                                                                     */
+/*  A frame points at the `<` of the element React created, so the     */
+/*  smallest JSX element around that offset is the one that was        */
+/*  grabbed. Also lists the multi-line code around it in the same      */
+/*  component, for folding everything but the path to the element.     */
+/* ------------------------------------------------------------------ */
+
+/** Character offsets; `end` is exclusive. */
+export interface TextSpan {
+  start: number;
+  end: number;
+}
+
+export interface JsxElementAt {
+  /** The smallest element or self-closing tag containing the offset. */
+  element: TextSpan;
+  /**
+   * Multi-line code in the same component that doesn't contain the
+   * element: the JSX siblings of the element and of each of its parent
+   * elements, and the component's other statements.
+   */
+  others: TextSpan[];
+}
+
+function span(source: TS.SourceFile, node: TS.Node): TextSpan {
+  return { start: node.getStart(source), end: node.end };
+}
+
+function contains(outer: TextSpan, inner: TextSpan): boolean {
+  return outer.start <= inner.start && inner.end <= outer.end;
+}
+
+function isMultiLine(source: TS.SourceFile, node: TS.Node): boolean {
+  const start = source.getLineAndCharacterOfPosition(node.getStart(source)).line;
+  return start < source.getLineAndCharacterOfPosition(node.end).line;
+}
+
+function otherSpans(ts: typeof TS, source: TS.SourceFile, element: TS.Node): TextSpan[] {
+  const target = span(source, element);
+  const others: TextSpan[] = [];
+  // The outermost function around the element is the component (or a class's `render`)
+  let component: TS.FunctionLikeDeclaration | null = null;
+
+  let child: TS.Node = element;
+  for (let parent = element.parent; parent && !ts.isSourceFile(parent); child = parent, parent = parent.parent) {
+    if (ts.isJsxElement(parent) || ts.isJsxFragment(parent)) {
+      for (const c of parent.children) {
+        if (c !== child && !ts.isJsxText(c) && isMultiLine(source, c)) {
+          others.push(span(source, c));
+        }
+      }
+    } else if (ts.isFunctionLike(parent)) {
+      component = parent as TS.FunctionLikeDeclaration;
+    }
+  }
+
+  if (component?.body && ts.isBlock(component.body)) {
+    for (const statement of component.body.statements) {
+      if (!contains(span(source, statement), target) && isMultiLine(source, statement)) {
+        others.push(span(source, statement));
+      }
+    }
+  }
+  return others.sort((a, b) => a.start - b.start);
+}
+
+/** The smallest JSX element or self-closing tag containing `offset`. */
+export function findJsxElementNode(
+  ts: typeof TS,
+  source: TS.SourceFile,
+  offset: number
+): TS.JsxElement | TS.JsxSelfClosingElement | null {
+  let element: TS.JsxElement | TS.JsxSelfClosingElement | null = null;
+  const visit = (node: TS.Node): void => {
+    if (offset < node.getStart(source) || offset >= node.end) {
+      return;
+    }
+    if (ts.isJsxElement(node) || ts.isJsxSelfClosingElement(node)) {
+      element = node;
+    }
+    ts.forEachChild(node, visit);
+  };
+  ts.forEachChild(source, visit);
+  return element;
+}
+
+/** The smallest JSX element containing `offset`, or null when the offset isn't inside one. */
+export function findJsxElementAt(ts: typeof TS, source: TS.SourceFile, offset: number): JsxElementAt | null {
+  const element = findJsxElementNode(ts, source, offset);
+  if (!element) {
+    return null;
+  }
+  return { element: span(source, element), others: otherSpans(ts, source, element) };
+}
@@ -0,0 +1,215 @@
+/* ------------------------------------------------------------------ */
+/*  Path mapping — turns bundler / runtime frame paths into            */
+/*  workspace-relative paths.                                          */
+/*                                                                     */
+/*  Deliberately free of any `vscode` import so it can be reused by    */
+/*  non-editor tooling.                                                */
+/* ------------------------------------------------------------------ */
+
+/* ------------------------------------------------------------------ */
+/*  Types                                                              */
+/* ------------------------------------------------------------------ */
+
+export interface PathMappingRule {
+  /** Regular expression (JS syntax) matched against the frame path. */
+  pattern: string;
+  /** Replacement string. Supports `$1`-style capture references. */
+  replacement: string;
+  /** Optional label, only used for debugging output. */
+  name?: string;
+}
+
+export interface PathMapperOptions {
+  /** User rules — applied in order, before any preset. */
+  rules?: PathMappingRule[];
+  /** Preset names, applied in the given order after the user rules. */
+  presets?: string[];
+  /** Absolute workspace folder paths; stripped from absolute frame paths. */
+  roots?: string[];
+  /** Regular expressions; mapped paths matching any of them are not project code. */
+  exclude?: string[];
+}
+
+export interface MappedPath {
+  /** Workspace-relative path (forward slashes, no leading "/"). */
+  path: string;
+  /** True when the path looks like project source rather than a dependency or bundler internal. */
+  isProject: boolean;
+}
+
+export type PathMapper = (file: string) => MappedPath;
+
+interface CompiledRule {
+  re: RegExp;
+  replacement: string;
+}
+
+/* ------------------------------------------------------------------ */
+/*  Built-in presets                                                   */
+/* ------------------------------------------------------------------ */
+
+const NEXT_LAYERS =
+  "app-pages-browser|app-client|pages-dir-browser|pages-dir-node|action-browser|rsc|ssr|middleware|shared|instrument";
+
+export const PRESETS: Record<string, PathMappingRule[]> = {
+  // webpack-internal:///(app-pages-browser)/./src/app/page.tsx
+  // /(rsc)/./app/layout.tsx
+  // webpack:///_N_E/./src/pages/index.tsx
+  next: [
+    { name: "next:layer", pattern: `^/?\\((?:${NEXT_LAYERS})\\)/`, replacement: "" },
+    { name: "next:_N_E", pattern: "^/?_N_E/", replacement: "" },
+  ],
+  // /@fs/Users/me/app/src/App.tsx, http://localhost:5173/src/App.tsx?t=1700000000
+  vite: [
+    { name: "vite:fs-url", pattern: "^https?://[^/]+/@fs/", replacement: "/" },
+    { name: "vite:fs", pattern: "^/@fs/", replacement: "/" },
+    {
+      name: "vite:origin",
+      pattern: "^https?://(?:localhost|127\\.0\\.0\\.1|\\[::1\\])(?::\\d+)?/",
+      replacement: "",
+    },
+    { name: "vite:query", pattern: "[?#].*$", replacement: "" },
+  ],
+  // webpack-internal:///./src/index.js, webpack://my-lib/./src/Button.tsx
+  webpack: [
+    { name: "webpack:internal", pattern: "^webpack-internal:///", replacement: "" },
+    { name: "webpack:namespace", pattern: "^webpack://[^/]*/", replacement: "" },
+  ],
+  // CRA emits webpack:///src/App.js and webpack://<package-name>/src/App.js
+  cra: [
+    { name: "cra:webpack", pattern: "^webpack:///?(?:[^/]+/)??(?=src/)", replacement: "" },
+  ],
+  // Container and devcontainer mounts: /app/..., /usr/src/app/..., /workspaces/<repo>/...
+  docker: [
+    { name: "docker:usr-src-app", pattern: "^/usr/src/app/", replacement: "" },
+    { name: "docker:app", pattern: "^/app/", replacement: "" },
+    { name: "docker:workspaces", pattern: "^/workspaces?/[^/]+/", replacement: "" },
+  ],
+  // Legacy behaviour: keep everything from the first "/src/" segment (root-relative "/src/App.tsx" included)
+  src: [{ name: "src:anchor", pattern: "^(?:[A-Za-z]:)?(?:/.*?)?/(src/)", replacement: "$1" }],
+};
+
+// webpack runs first so "webpack-internal:///(rsc)/..." is unwrapped before the Next.js layer rule
+export const DEFAULT_PRESETS = ["webpack", "next", "cra", "vite", "docker", "src"];
+
+export const DEFAULT_EXCLUDE = [
+  "(^|/)node_modules/",
+  "^\\(webpack\\)/",
+  "^webpack/",
+  "^next/dist/",
+  "^\\.next/",
+];
+
+/* ------------------------------------------------------------------ */
+/*  Helpers                                                            */
+/* ------------------------------------------------------------------ */
+
+function compileRules(rules: PathMappingRule[]): CompiledRule[] {
+  const compiled: CompiledRule[] = [];
+  for (const rule of rules) {
+    try {
+      compiled.push({ re: new RegExp(rule.pattern), replacement: rule.replacement });
+    } catch {
+      // Invalid user regex — skip rather than break every lookup
+    }
+  }
+  return compiled;
+}
+
+/** Compile regex strings, skipping invalid ones. */
+export function compilePatterns(patterns: string[]): RegExp[] {
+  const compiled: RegExp[] = [];
+  for (const p of patterns) {
+    try {
+      compiled.push(new RegExp(p));
+    } catch {
+      // ignore
+    }
+  }
+  return compiled;
+}
+
+function toSlashes(p: string): string {
+  return p.replace(/\\/g, "/");
+}
+
+function decodeFileUrl(file: string): string {
+  if (!/^file:\/\//i.test(file)) {
+    return file;
+  }
+  let rest = file.replace(/^file:\/\//i, "");
+  try {
+    rest = decodeURIComponent(rest);
+  } catch {
+    // keep as-is
+  }
+  // file:///C:/x → C:/x
+  return rest.replace(/^\/([A-Za-z]:\/)/, "$1");
+}
+
+function stripRoot(file: string, roots: string[]): string | null {
+  const lower = file.toLowerCase();
+  for (const root of roots) {
+    const r = toSlashes(root).replace(/\/+$/, "") + "/";
+    // Case-insensitive so Windows drive letters and macOS volumes match
+    if (lower.startsWith(r.toLowerCase())) {
+      return file.substring(r.length);
+    }
+  }
+  return null;
+}
+
+function isAbsolute(p: string): boolean {
+  return p.startsWith("/") || /^[A-Za-z]:\//.test(p);
+}
+
+/* ------------------------------------------------------------------ */
+/*  Mapper                                                             */
+/* ------------------------------------------------------------------ */
+
+/**
+ * Build a mapper that rewrites raw frame paths into workspace-relative
+ * paths. Rules run in order: user rules first, then presets. As soon as
+ * the path lands inside a workspace root it is made relative and the
+ * remaining rules are skipped.
+ */
+export function createPathMapper(options: PathMapperOptions = {}): PathMapper {
+  const presetRules: PathMappingRule[] = [];
+  for (const name of options.presets ?? DEFAULT_PRESETS) {
+    const preset = PRESETS[name];
+    if (preset) {
+      presetRules.push(...preset);
+    }
+  }
+  const rules = compileRules([...(options.rules ?? []), ...presetRules]);
+  const exclude = compilePatterns(options.exclude ?? DEFAULT_EXCLUDE);
+  const roots = options.roots ?? [];
+
+  return (file: string): MappedPath => {
+    let p = toSlashes(decodeFileUrl(file.trim()));
+
+    // A workspace root always wins over later rules, so a monorepo
+    // package path is never collapsed by the generic "src" anchor.
+    let relative = stripRoot(p, roots);
+    for (const rule of rules) {
+      if (relative !== null) {
+        break;
+      }
+      p = p.replace(rule.re, rule.replacement);
+      relative = stripRoot(p, roots);
+    }
+    if (relative === null) {
+      p = p.replace(/^(?:\.\/)+/, "");
+      relative = isAbsolute(p) ? null : p;
+    }
+
+    // Anything still absolute lives outside the workspace
+    const outside = relative === null;
+    const result = (relative ?? p).replace(/^\/+/, "").replace(/^(?:\.\/)+/, "");
+
+    return {
+      path: result,
+      isProject: !outside && result.length > 0 && !exclude.some((re) => re.test(result)),
+    };
+  };
+}
@@ -0,0 +1,151 @@
+import * as crypto from "crypto";
+import * as fs from "fs";
+import * as path from "path";
+import { getBridgeDir } from "./discovery";
+
+/* ------------------------------------------------------------------ */
+/*  Request authentication                                             */
+/*                                                                     */
+/*  - Host header must name the loopback interface (blocks DNS         */
+/*    rebinding, where evil.example resolves to 127.0.0.1).            */
+/*  - Origin, when present, must match the configured allowlist.       */
+/*  - State-changing requests must carry the pairing token.            */
+/* ------------------------------------------------------------------ */
+
+export const TOKEN_HEADER = "x-react-grab-token";
+
+export const DEFAULT_ALLOWED_ORIGINS = [
+  "http://localhost:*",
+  "http://127.0.0.1:*",
+  "http://[::1]:*",
+  "https://localhost:*",
+];
+
+export type AuthFailure =
+  | { status: 403; code: "forbidden_host"; error: string }
+  | { status: 403; code: "forbidden_origin"; error: string }
+  | { status: 401; code: "unauthorized"; error: string };
+
+/* ------------------------------------------------------------------ */
+/*  Pairing token                                                      */
+/* ------------------------------------------------------------------ */
+
+export function getTokenFile(): string {
+  return path.join(getBridgeDir(), "token");
+}
+
+function generateToken(): string {
+  return crypto.randomBytes(16).toString("hex");
+}
+
+function writeToken(token: string): void {
+  const file = getTokenFile();
+  fs.mkdirSync(path.dirname(file), { recursive: true });
+  fs.writeFileSync(file, token + "\n", { encoding: "utf8", mode: 0o600 });
+}
+
+/**
+ * Read the shared pairing token, creating it on first use. Every VS Code
+ * window (and the CLI scripts) read the same file, so selections forwarded
+ * between windows authenticate with the same token.
+ */
+export function loadOrCreateToken(): string {
+  try {
+    const existing = fs.readFileSync(getTokenFile(), "utf8").trim();
+    if (/^[0-9a-f]{32}$/.test(existing)) {
+      return existing;
+    }
+  } catch {
+    // missing — create below
+  }
+  const token = generateToken();
+  writeToken(token);
+  return token;
+}
+
+/** Replace the pairing token; every paired client has to be updated. */
+export function resetToken(): string {
+  const token = generateToken();
+  writeToken(token);
+  return token;
+}
+
+/* ------------------------------------------------------------------ */
+/*  Checks                                                             */
+/* ------------------------------------------------------------------ */
+
+/** Accept only loopback Host headers, e.g. "127.0.0.1:3344" or "localhost:3344". */
+export function isHostAllowed(host: string | undefined, port: number | null): boolean {
+  if (!host) {
+    return false;
+  }
+  const m = host.toLowerCase().match(/^(127\.0\.0\.1|localhost|\[::1\])(?::(\d+))?$/);
+  if (!m) {
+    return false;
+  }
+  return port === null || m[2] === undefined || Number(m[2]) === port;
+}
+
+function globToRegExp(pattern: string): RegExp {
+  const escaped = pattern.replace(/[.+?^${}()|[\]\\]/g, "\\$&").replace(/\*/g, "[^/]*");
+  return new RegExp(`^${escaped}$`, "i");
+}
+
+/** `*` in a pattern matches any run of characters except "/". */
+export function isOriginAllowed(origin: string, patterns: string[]): boolean {
+  return patterns.some((p) => globToRegExp(p).test(origin));
+}
+
+export function tokensMatch(presented: string | undefined, expected: string): boolean {
+  if (!presented) {
+    return false;
+  }
+  const a = Buffer.from(presented);
+  const b = Buffer.from(expected);
+  return a.length === b.length && crypto.timingSafeEqual(a, b);
+}
+
+export interface AuthOptions {
+  port: number | null;
+  token: string;
+  allowedOrigins: string[];
+  /** When false, only the Host and Origin checks apply. */
+  requireToken: boolean;
+}
+
+/**
+ * Check Host and Origin for every request, and the token when
+ * `needsToken` is set. `queryToken` is for EventSource, which can't send
+ * headers. Returns null when the request may proceed.
+ */
+export function authenticate(
+  headers: Record<string, string | string[] | undefined>,
+  options: AuthOptions,
+  needsToken: boolean,
+  queryToken?: string | null
+): AuthFailure | null {
+  const host = headers.host as string | undefined;
+  if (!isHostAllowed(host, options.port)) {
+    return { status: 403, code: "forbidden_host", error: `Host "${host ?? ""}" is not allowed` };
+  }
+
+  const origin = headers.origin as string | undefined;
+  if (origin && !isOriginAllowed(origin, options.allowedOrigins)) {
+    return { status: 403, code: "forbidden_origin", error: `Origin "${origin}" is not allowed` };
+  }
+
+  if (needsToken && options.requireToken) {
+    const presented = (headers[TOKEN_HEADER] as string | undefined) ?? queryToken ?? undefined;
+    if (!tokensMatch(presented, options.token)) {
+      return {
+        status: 401,
+        code: "unauthorized",
+        error: presented
+          ? "Invalid pairing token"
+          : "Missing pairing token (send it in the X-React-Grab-Token header)",
+      };
+    }
+  }
+
+  return null;
+}
@@ -0,0 +1,476 @@
+import * as fs from "fs";
+import * as http from "http";
+import * as https from "https";
+import * as path from "path";
+import { Frame } from "./types";
+
+/* ------------------------------------------------------------------ */
+/*  Source maps — map frames that point into compiled bundles          */
+/*  (e.g. /_next/static/chunks/app/page.js:1:48213) back to the        */
+/*  original file, line and column.                                    */
+/*                                                                     */
+/*  Maps are looked up on disk first (build output directories), then  */
+/*  on the local dev server. Parsed maps are cached and re-read when   */
+/*  the file's mtime (disk) or ETag / Last-Modified (HTTP) changes.    */
+/* ------------------------------------------------------------------ */
+
+/* ------------------------------------------------------------------ */
+/*  Types                                                              */
+/* ------------------------------------------------------------------ */
+
+export interface OriginalPosition {
+  /** Source path from the map, joined with sourceRoot and resolved against the map's location. */
+  file: string;
+  line: number;
+  col: number;
+  /** Symbol name from the map's `names`, if any. */
+  name: string | null;
+}
+
+export interface SourceMapOptions {
+  /** Absolute workspace folder paths. */
+  roots: string[];
+  /** Build output directories, relative to each root. */
+  buildDirs: string[];
+  /** Also fetch maps from localhost dev servers. */
+  fetchFromDevServer: boolean;
+}
+
+interface RawSourceMap {
+  version: number;
+  sources: string[];
+  sourceRoot?: string;
+  names?: string[];
+  mappings: string;
+}
+
+/** [generatedCol, sourceIndex, sourceLine, sourceCol, nameIndex?] — all 0-based. */
+type Segment = [number, number, number, number, number?];
+
+interface ParsedMap {
+  sources: string[];
+  names: string[];
+  lines: Segment[][];
+}
+
+interface DiskEntry {
+  mtimeMs: number;
+  map: ParsedMap;
+}
+
+/** Where a compiled file's map is, as of the file's mtime. */
+interface BundleEntry {
+  mtimeMs: number;
+  /** The `sourceMappingURL`; null when the file has none. */
+  mapUrl: string | null;
+  /** Parsed inline (data:) map, so the URL isn't decoded again. */
+  inline: ParsedMap | null;
+}
+
+interface HttpEntry {
+  etag: string | null;
+  lastModified: string | null;
+  checkedAt: number;
+  map: ParsedMap;
+}
+
+interface HttpResult {
+  status: number;
+  body: string;
+  headers: http.IncomingHttpHeaders;
+}
+
+/* ------------------------------------------------------------------ */
+/*  Constants                                                          */
+/* ------------------------------------------------------------------ */
+
+export const DEFAULT_BUILD_DIRS = [".next", "dist", "build", "out", "storybook-static"];
+
+const BUNDLE_PATH = /(^|\/)(_next\/static|static\/(chunks|js)|assets|dist|build|storybook-static)\//;
+const JS_FILE = /\.(m|c)?js$/;
+const LOCAL_URL = /^https?:\/\/(localhost|127\.0\.0\.1|\[::1\])(:\d+)?\//i;
+/** Don't re-validate an HTTP map more often than this. */
+const HTTP_RECHECK_MS = 2000;
+const HTTP_TIMEOUT_MS = 3000;
+/** sourceMappingURL comments live at the end of the file. */
+const TAIL_BYTES = 4096;
+
+/* ------------------------------------------------------------------ */
+/*  VLQ decoding                                                       */
+/* ------------------------------------------------------------------ */
+
+const BASE64 = "ABCDEFGHIJKLMNOPQRSTUVWXYZabcdefghijklmnopqrstuvwxyz0123456789+/";
+const BASE64_INDEX = new Map([...BASE64].map((c, i) => [c, i]));
+
+function decodeVlq(segment: string): number[] {
+  const values: number[] = [];
+  let value = 0;
+  let shift = 0;
+  for (const ch of segment) {
+    const digit = BASE64_INDEX.get(ch);
+    if (digit === undefined) {
+      break;
+    }
+    value += (digit & 31) << shift;
+    if (digit & 32) {
+      shift += 5;
+    } else {
+      values.push(value & 1 ? -(value >>> 1) : value >>> 1);
+      value = 0;
+      shift = 0;
+    }
+  }
+  return values;
+}
+
+/**
+ * `base` is the map's directory (disk) or URL (dev server); relative
+ * sources are resolved against it so they can go through path mapping.
+ */
+function parseMap(raw: RawSourceMap, base: string): ParsedMap {
+  const root = raw.sourceRoot ? raw.sourceRoot.replace(/\/?$/, "/") : "";
+  const sources = raw.sources.map((src) => {
+    const s = root && !/^[a-z]+:/i.test(src) ? root + src : src;
+    if (/^[a-z][a-z0-9+.-]*:/i.test(s) || path.isAbsolute(s)) {
+      return s; // webpack://, file://, absolute
+    }
+    return /^https?:/.test(base) ? new URL(s, base).toString() : path.resolve(base, s);
+  });
+
+  const lines: Segment[][] = [];
+  let srcIndex = 0;
+  let srcLine = 0;
+  let srcCol = 0;
+  let nameIndex = 0;
+
+  for (const lineText of raw.mappings.split(";")) {
+    const segments: Segment[] = [];
+    let genCol = 0;
+    for (const seg of lineText.split(",")) {
+      if (!seg) {
+        continue;
+      }
+      const v = decodeVlq(seg);
+      genCol += v[0];
+      if (v.length < 4) {
+        continue; // unmapped generated code
+      }
+      srcIndex += v[1];
+      srcLine += v[2];
+      srcCol += v[3];
+      if (v.length >= 5) {
+        nameIndex += v[4];
+        segments.push([genCol, srcIndex, srcLine, srcCol, nameIndex]);
+      } else {
+        segments.push([genCol, srcIndex, srcLine, srcCol]);
+      }
+    }
+    lines.push(segments);
+  }
+
+  return { sources, names: raw.names ?? [], lines };
+}
+
+/** 1-based line/col in, 1-based line/col out. */
+function lookup(map: ParsedMap, line: number, col: number): OriginalPosition | null {
+  const segments = map.lines[line - 1];
+  if (!segments || segments.length === 0) {
+    return null;
+  }
+  // Last segment starting at or before the column
+  const target = col - 1;
+  let lo = 0;
+  let hi = segments.length - 1;
+  let found = -1;
+  while (lo <= hi) {
+    const mid = (lo + hi) >> 1;
+    if (segments[mid][0] <= target) {
+      found = mid;
+      lo = mid + 1;
+    } else {
+      hi = mid - 1;
+    }
+  }
+  const seg = segments[found === -1 ? 0 : found];
+  const file = map.sources[seg[1]];
+  if (file === undefined) {
+    return null;
+  }
+  return {
+    file,
+    line: seg[2] + 1,
+    col: seg[3] + 1,
+    name: seg[4] !== undefined ? map.names[seg[4]] ?? null : null,
+  };
+}
+
+/* ------------------------------------------------------------------ */
+/*  Helpers                                                            */
+/* ------------------------------------------------------------------ */
+
+/** Heuristic: does this frame path point at compiled output rather than source? */
+export function isCompiledFrame(file: string): boolean {
+  const clean = file.replace(/[?#].*$/, "").replace(/\\/g, "/");
+  return JS_FILE.test(clean) && (LOCAL_URL.test(clean) || BUNDLE_PATH.test(clean));
+}
+
+async function readTail(file: string, size: number): Promise<string> {
+  const handle = await fs.promises.open(file, "r");
+  try {
+    const length = Math.min(size, TAIL_BYTES);
+    const buf = Buffer.alloc(length);
+    await handle.read(buf, 0, length, size - length);
+    return buf.toString("utf8");
+  } finally {
+    await handle.close();
+  }
+}
+
+async function statOrNull(file: string): Promise<fs.Stats | null> {
+  try {
+    return await fs.promises.stat(file);
+  } catch {
+    return null;
+  }
+}
+
+function findMappingUrl(code: string): string | null {
+  const matches = [...code.matchAll(/[#@]\s*sourceMappingURL=(\S+)/g)];
+  return matches.length > 0 ? matches[matches.length - 1][1] : null;
+}
+
+function decodeDataUrl(url: string): RawSourceMap | null {
+  const m = url.match(/^data:application\/json[^,]*?(;base64)?,(.*)$/);
+  if (!m) {
+    return null;
+  }
+  const text = m[1] ? Buffer.from(m[2], "base64").toString("utf8") : decodeURIComponent(m[2]);
+  return JSON.parse(text) as RawSourceMap;
+}
+
+function httpGet(url: string, headers: Record<string, string> = {}): Promise<HttpResult> {
+  const client = url.startsWith("https:") ? https : http;
+  return new Promise((resolve, reject) => {
+    const req = client.get(url, { headers, timeout: HTTP_TIMEOUT_MS }, (res) => {
+      let body = "";
+      res.setEncoding("utf8");
+      res.on("data", (chunk: string) => (body += chunk));
+      res.on("end", () => resolve({ status: res.statusCode ?? 0, body, headers: res.headers }));
+    });
+    req.on("timeout", () => req.destroy(new Error("Request timed out")));
+    req.on("error", reject);
+  });
+}
+
+/* ------------------------------------------------------------------ */
+/*  Resolver                                                           */
+/* ------------------------------------------------------------------ */
+
+export class SourceMapResolver {
+  private disk = new Map<string, DiskEntry>();
+  private bundles = new Map<string, BundleEntry>();
+  private remote = new Map<string, HttpEntry>();
+
+  constructor(private options: SourceMapOptions) {}
+
+  setOptions(options: SourceMapOptions): void {
+    this.options = options;
+  }
+
+  clear(): void {
+    this.disk.clear();
+    this.bundles.clear();
+    this.remote.clear();
+  }
+
+  /** Map a generated position to its original one. Null when no map is found. */
+  async resolve(file: string, line: number, col: number): Promise<OriginalPosition | null> {
+    try {
+      const map = (await this.findDiskMap(file)) ?? (await this.findRemoteMap(file));
+      return map ? lookup(map, line, col) : null;
+    } catch {
+      return null;
+    }
+  }
+
+  /**
+   * Replace frames that point into compiled bundles with their original
+   * positions. The bundle position is kept in `generated`.
+   */
+  async mapFrames<T extends { frames: Frame[] }>(sel: T): Promise<T> {
+    const frames = await Promise.all(
+      sel.frames.map(async (f): Promise<Frame> => {
+        // Already mapped (e.g. forwarded from the primary window), or no position to map
+        if (f.generated || f.line < 1 || !isCompiledFrame(f.file)) {
+          return f;
+        }
+        const original = await this.resolve(f.file, f.line, f.col);
+        if (!original) {
+          return f;
+        }
+        return {
+          ...f,
+          name: f.name ?? original.name,
+          file: original.file,
+          line: original.line,
+          col: original.col,
+          generated: { file: f.file, line: f.line, col: f.col },
+        };
+      })
+    );
+    return { ...sel, frames };
+  }
+
+  /* ---------------------------------------------------------------- */
+  /*  Disk                                                            */
+  /* ---------------------------------------------------------------- */
+
+  /** Candidate on-disk locations of the compiled file. */
+  private diskCandidates(file: string): string[] {
+    let p = file.replace(/[?#].*$/, "").replace(/\\/g, "/");
+    if (p.startsWith("file://")) {
+      p = decodeURIComponent(p.replace(/^file:\/\//, ""));
+    }
+    if (path.isAbsolute(p) && fs.existsSync(p)) {
+      return [p];
+    }
+    // Strip origin: http://localhost:3000/_next/static/... → _next/static/...
+    const rel = p.replace(/^https?:\/\/[^/]+\//, "").replace(/^\/+/, "");
+    const candidates: string[] = [];
+    for (const root of this.options.roots) {
+      candidates.push(path.join(root, rel));
+      for (const dir of this.options.buildDirs) {
+        candidates.push(path.join(root, dir, rel));
+        // /_next/static/x.js is served from .next/static/x.js
+        candidates.push(path.join(root, dir, rel.replace(/^[^/]+\//, "")));
+      }
+    }
+    return candidates;
+  }
+
+  private async findDiskMap(file: string): Promise<ParsedMap | null> {
+    for (const candidate of this.diskCandidates(file)) {
+      const stat = await statOrNull(candidate);
+      if (stat) {
+        const bundle = await this.readBundle(candidate, stat);
+        if (bundle.inline || bundle.mapUrl?.startsWith("data:")) {
+          return bundle.inline;
+        }
+        const mapPath = bundle.mapUrl
+          ? path.resolve(path.dirname(candidate), decodeURIComponent(bundle.mapUrl))
+          : `${candidate}.map`;
+        const map = await this.loadDiskMap(mapPath);
+        if (map) {
+          return map;
+        }
+      } else {
+        this.bundles.delete(candidate);
+        const map = await this.loadDiskMap(`${candidate}.map`);
+        if (map) {
+          return map;
+        }
+      }
+    }
+    return null;
+  }
+
+  /** The compiled file's `sourceMappingURL`, cached by path and mtime. */
+  private async readBundle(file: string, stat: fs.Stats): Promise<BundleEntry> {
+    const cached = this.bundles.get(file);
+    if (cached && cached.mtimeMs === stat.mtimeMs) {
+      return cached;
+    }
+    // Inline (data:) maps can be far larger than the tail — fall back to the whole file
+    const mapUrl =
+      findMappingUrl(await readTail(file, stat.size)) ??
+      findMappingUrl(await fs.promises.readFile(file, "utf8"));
+    let inline: ParsedMap | null = null;
+    if (mapUrl?.startsWith("data:")) {
+      const raw = decodeDataUrl(mapUrl);
+      inline = raw ? parseMap(raw, path.dirname(file)) : null;
+    }
+    // Don't keep a multi-megabyte data: URL around once it's parsed
+    const entry: BundleEntry = { mtimeMs: stat.mtimeMs, mapUrl: inline ? null : mapUrl, inline };
+    this.bundles.set(file, entry);
+    return entry;
+  }
+
+  private async loadDiskMap(mapPath: string): Promise<ParsedMap | null> {
+    const stat = await statOrNull(mapPath);
+    if (!stat) {
+      this.disk.delete(mapPath);
+      return null;
+    }
+    const cached = this.disk.get(mapPath);
+    if (cached && cached.mtimeMs === stat.mtimeMs) {
+      return cached.map;
+    }
+    const map = parseMap(
+      JSON.parse(await fs.promises.readFile(mapPath, "utf8")) as RawSourceMap,
+      path.dirname(mapPath)
+    );
+    this.disk.set(mapPath, { mtimeMs: stat.mtimeMs, map });
+    return map;
+  }
+
+  /* ---------------------------------------------------------------- */
+  /*  Dev server                                                      */
+  /* ---------------------------------------------------------------- */
+
+  private async findRemoteMap(file: string): Promise<ParsedMap | null> {
+    const url = file.replace(/[?#].*$/, "");
+    if (!this.options.fetchFromDevServer || !LOCAL_URL.test(url)) {
+      return null;
+    }
+    // Cheap guess first, then ask the bundle itself where its map is
+    const guess = await this.loadRemoteMap(`${url}.map`);
+    if (guess) {
+      return guess;
+    }
+    const js = await httpGet(file);
+    if (js.status !== 200) {
+      return null;
+    }
+    const mapUrl = findMappingUrl(js.body);
+    if (!mapUrl) {
+      return null;
+    }
+    if (mapUrl.startsWith("data:")) {
+      const raw = decodeDataUrl(mapUrl);
+      return raw ? parseMap(raw, url) : null;
+    }
+    return this.loadRemoteMap(new URL(mapUrl, url).toString());
+  }
+
+  private async loadRemoteMap(url: string): Promise<ParsedMap | null> {
+    const cached = this.remote.get(url);
+    if (cached && Date.now() - cached.checkedAt < HTTP_RECHECK_MS) {
+      return cached.map;
+    }
+
+    const headers: Record<string, string> = {};
+    if (cached?.etag) {
+      headers["If-None-Match"] = cached.etag;
+    }
+    if (cached?.lastModified) {
+      headers["If-Modified-Since"] = cached.lastModified;
+    }
+    const res = await httpGet(url, headers);
+    if (res.status === 304 && cached) {
+      cached.checkedAt = Date.now();
+      return cached.map;
+    }
+    if (res.status !== 200) {
+      this.remote.delete(url);
+      return null;
+    }
+    const map = parseMap(JSON.parse(res.body) as RawSourceMap, url);
+    this.remote.set(url, {
+      etag: (res.headers.etag as string | undefined) ?? null,
+      lastModified: (res.headers["last-modified"] as string | undefined) ?? null,
+      checkedAt: Date.now(),
+      map,
+    });
+    return map;
+  }
+}
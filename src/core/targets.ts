@@ -0,0 +1,94 @@
+import { PathMapper } from "./pathMapping";
+import { NormalizedFrame, Selection } from "./types";
+
+/* ------------------------------------------------------------------ */
+/*  Target selection — which frame "Rendered by" and "Used in" open.   */
+/*                                                                     */
+/*  Shared by the VS Code extension and the standalone CLI; no         */
+/*  editor APIs here.                                                  */
+/* ------------------------------------------------------------------ */
+
+export interface TargetContext {
+  /** The wrapper verdict used by the built-in "Used in" search (settings + source analysis). */
+  isWrapper(frame: NormalizedFrame): boolean;
+}
+
+/** Custom choices asked before the built-in ones (the extension's API strategies); null falls through. */
+export interface TargetHooks {
+  renderedBy(frames: NormalizedFrame[], context: TargetContext): NormalizedFrame | null;
+  usedIn(frames: NormalizedFrame[], renderedBy: NormalizedFrame, context: TargetContext): NormalizedFrame | null;
+}
+
+export interface TargetOptions extends TargetContext {
+  hooks?: TargetHooks;
+}
+
+export interface RenderedBy {
+  frame: NormalizedFrame;
+  index: number;
+}
+
+export function normalizeFrames(sel: Pick<Selection, "frames">, mapPath: PathMapper): NormalizedFrame[] {
+  return sel.frames.map((f) => {
+    const mapped = mapPath(f.file);
+    return { ...f, normalizedFile: mapped.path, isProject: mapped.isProject };
+  });
+}
+
+export function findRenderedBy(frames: NormalizedFrame[], options: TargetOptions): RenderedBy | null {
+  const custom = options.hooks?.renderedBy(frames, options);
+  if (custom) {
+    return { frame: custom, index: frames.indexOf(custom) };
+  }
+
+  // Choose the first project-code frame (per the path-mapping rules) with line > 0
+  const candidates = frames
+    .map((f, i) => ({ f, i }))
+    .filter((x) => x.f.isProject && x.f.line > 0);
+
+  if (candidates.length === 0) {
+    return null;
+  }
+
+  // Prefer one with name != null; otherwise first
+  const withName = candidates.find((c) => c.f.name !== null);
+  const chosen = withName ?? candidates[0];
+  return { frame: chosen.f, index: chosen.i };
+}
+
+export function findUsedIn(frames: NormalizedFrame[], rendered: RenderedBy, options: TargetOptions): NormalizedFrame {
+  const custom = options.hooks?.usedIn(frames, rendered.frame, options);
+  if (custom) {
+    return custom;
+  }
+
+  const renderedFile = rendered.frame.normalizedFile;
+
+  // Scan from i+1 downward; name-only frames (no file) can't be opened
+  for (let j = rendered.index + 1; j < frames.length; j++) {
+    const f = frames[j];
+    if (f.normalizedFile && !options.isWrapper(f) && f.normalizedFile !== renderedFile) {
+      return f;
+    }
+  }
+
+  // Fallback: first frame where file differs (even if wrapper)
+  for (let j = rendered.index + 1; j < frames.length; j++) {
+    const f = frames[j];
+    if (f.normalizedFile && f.normalizedFile !== renderedFile) {
+      return f;
+    }
+  }
+
+  // Final fallback: rendered itself
+  return rendered.frame;
+}
+
+/** Both targets at once; `usedIn` is null when there is no rendered-by frame. */
+export function chooseTargets(
+  frames: NormalizedFrame[],
+  options: TargetOptions
+): { rendered: NormalizedFrame | null; usedIn: NormalizedFrame | null } {
+  const rendered = findRenderedBy(frames, options);
+  return { rendered: rendered?.frame ?? null, usedIn: rendered ? findUsedIn(frames, rendered, options) : null };
+}
@@ -0,0 +1,30 @@
+import { DiagnosticPayload, Frame, RenderStatsPayload, SelectionPayload } from "../../browser-bridge/protocol";
+
+/* ------------------------------------------------------------------ */
+/*  Selection types shared by the server, commands and views           */
+/*  (the wire format lives in browser-bridge/protocol.ts)              */
+/* ------------------------------------------------------------------ */
+
+export type {
+  ComponentSnapshot,
+  ElementStyles,
+  Frame,
+  FrameworkInfo,
+  MatchedRule,
+  RenderStat,
+  SnapshotValue,
+} from "../../browser-bridge/protocol";
+
+/** A picked element, as posted to `/selection` (any supported protocol version). */
+export type Selection = SelectionPayload;
+
+/** A browser console warning/error or uncaught error, posted to `/diagnostic`. */
+export type DiagnosticReport = DiagnosticPayload;
+
+export type RenderStatsReport = RenderStatsPayload;
+
+export interface NormalizedFrame extends Frame {
+  normalizedFile: string;
+  /** Whether the path-mapping rules consider this frame project code. */
+  isProject: boolean;
+}
@@ -0,0 +1,346 @@
+import * as fs from "fs";
+import * as path from "path";
+import type * as TS from "typescript";
+import { compilePatterns } from "./pathMapping";
+
+/* ------------------------------------------------------------------ */
+/*  Wrapper detection for "Used in"                                    */
+/*                                                                     */
+/*  A wrapper is plumbing between the element and the component that   */
+/*  used it: providers, contexts, boundaries, layout shells, HOCs.     */
+/*  Patterns (from settings) decide first; optionally the frame's      */
+/*  source is parsed and a component whose JSX only renders            */
+/*  `children` or spreads its props into another component counts too. */
+/* ------------------------------------------------------------------ */
+
+export interface WrapperOptions {
+  /**
+   * Regexes for wrappers. Entries containing a `/` are tested against the
+   * normalized file path, the others against the component name.
+   */
+  include: string[];
+  /** Same, but never a wrapper — wins over `include` and the analysis. */
+  exclude: string[];
+  /** Parse frame sources with the TypeScript compiler to find pass-through components. */
+  analyzeSource: boolean;
+}
+
+export interface WrapperCandidate {
+  name: string | null;
+  normalizedFile: string;
+}
+
+interface WrapperPatterns {
+  names: RegExp[];
+  paths: RegExp[];
+}
+
+interface ParsedFile {
+  mtimeMs: number;
+  source: TS.SourceFile;
+  /** Pass-through verdict per component name. */
+  verdicts: Map<string, boolean>;
+}
+
+export const DEFAULT_WRAPPER_PATTERNS = ["/context/", "/providers/", "Provider", "Context", "Boundary"];
+
+const MAX_SOURCE_BYTES = 1024 * 1024;
+
+/** Split settings entries into path patterns (with a `/`) and name patterns. */
+function compileWrapperPatterns(patterns: string[]): WrapperPatterns {
+  return {
+    names: compilePatterns(patterns.filter((p) => !p.includes("/"))),
+    paths: compilePatterns(patterns.filter((p) => p.includes("/"))),
+  };
+}
+
+/* ------------------------------------------------------------------ */
+/*  Source analysis                                                    */
+/* ------------------------------------------------------------------ */
+
+type ComponentNode = TS.FunctionLikeDeclaration | TS.ClassLikeDeclaration;
+
+function unwrapExpression(ts: typeof TS, e: TS.Expression): TS.Expression {
+  while (ts.isParenthesizedExpression(e) || ts.isAsExpression(e) || ts.isNonNullExpression(e)) {
+    e = e.expression;
+  }
+  return e;
+}
+
+/** `() => …`, `function () {…}`, or `memo(…)` / `forwardRef(…)` around one. */
+function componentFromInitializer(ts: typeof TS, init: TS.Expression): ComponentNode | null {
+  const e = unwrapExpression(ts, init);
+  if (ts.isArrowFunction(e) || ts.isFunctionExpression(e) || ts.isClassExpression(e)) {
+    return e;
+  }
+  if (ts.isCallExpression(e)) {
+    for (const arg of e.arguments) {
+      const inner = componentFromInitializer(ts, arg);
+      if (inner) {
+        return inner;
+      }
+    }
+  }
+  return null;
+}
+
+function findComponent(ts: typeof TS, source: TS.SourceFile, name: string): ComponentNode | null {
+  let found: ComponentNode | null = null;
+  const visit = (node: TS.Node): void => {
+    if (found) {
+      return;
+    }
+    if ((ts.isFunctionDeclaration(node) || ts.isClassDeclaration(node)) && node.name?.text === name) {
+      found = node;
+      return;
+    }
+    if (
+      ts.isVariableDeclaration(node) &&
+      ts.isIdentifier(node.name) &&
+      node.name.text === name &&
+      node.initializer
+    ) {
+      found = componentFromInitializer(ts, node.initializer);
+      if (found) {
+        return;
+      }
+    }
+    ts.forEachChild(node, visit);
+  };
+  visit(source);
+  return found;
+}
+
+/** Expressions the component renders: `return` values (not of nested functions) or an arrow's body. */
+function renderedExpressions(ts: typeof TS, component: ComponentNode): TS.Expression[] {
+  let fn: TS.FunctionLikeDeclaration | undefined;
+  if (ts.isClassDeclaration(component) || ts.isClassExpression(component)) {
+    fn = component.members.find(
+      (m): m is TS.MethodDeclaration =>
+        ts.isMethodDeclaration(m) && ts.isIdentifier(m.name) && m.name.text === "render"
+    );
+  } else {
+    fn = component;
+  }
+  if (!fn?.body) {
+    return [];
+  }
+  if (!ts.isBlock(fn.body)) {
+    return [fn.body];
+  }
+  const out: TS.Expression[] = [];
+  const visit = (node: TS.Node): void => {
+    if (ts.isFunctionLike(node) || ts.isClassLike(node)) {
+      return;
+    }
+    if (ts.isReturnStatement(node)) {
+      if (node.expression) {
+        out.push(node.expression);
+      }
+      return;
+    }
+    ts.forEachChild(node, visit);
+  };
+  ts.forEachChild(fn.body, visit);
+  return out;
+}
+
+/** `children`, `props.children`, `this.props.children`. */
+function isChildrenRef(ts: typeof TS, e: TS.Expression): boolean {
+  e = unwrapExpression(ts, e);
+  return (
+    (ts.isIdentifier(e) && e.text === "children") ||
+    (ts.isPropertyAccessExpression(e) && e.name.text === "children")
+  );
+}
+
+/** `<Foo>`, `<Ctx.Provider>` — not host elements like `<div>`. */
+function isComponentTag(ts: typeof TS, tag: TS.JsxTagNameExpression): boolean {
+  return ts.isIdentifier(tag) ? /^[A-Z]/.test(tag.text) : ts.isPropertyAccessExpression(tag);
+}
+
+function hasSpreadProps(ts: typeof TS, attrs: TS.JsxAttributes): boolean {
+  return attrs.properties.some((p) => ts.isJsxSpreadAttribute(p));
+}
+
+/** JSX children that are only whitespace and `{children}`; `requireRef` needs at least one ref. */
+function onlyChildren(ts: typeof TS, children: TS.NodeArray<TS.JsxChild>, requireRef: boolean): boolean {
+  let refs = 0;
+  for (const c of children) {
+    if (ts.isJsxText(c) && c.containsOnlyTriviaWhiteSpaces) {
+      continue;
+    }
+    if (ts.isJsxExpression(c) && (!c.expression || isChildrenRef(ts, c.expression))) {
+      refs += c.expression ? 1 : 0;
+      continue;
+    }
+    return false;
+  }
+  return !requireRef || refs > 0;
+}
+
+/**
+ * Does this rendered expression only pass things through? Returns
+ * "pass" for pass-through, "empty" for null/undefined, "render" otherwise.
+ */
+function classify(ts: typeof TS, expr: TS.Expression): "pass" | "empty" | "render" {
+  const e = unwrapExpression(ts, expr);
+  if (e.kind === ts.SyntaxKind.NullKeyword || (ts.isIdentifier(e) && e.text === "undefined")) {
+    return "empty";
+  }
+  if (isChildrenRef(ts, e)) {
+    return "pass";
+  }
+  const both = (a: TS.Expression, b: TS.Expression) => {
+    const ca = classify(ts, a);
+    const cb = classify(ts, b);
+    if (ca === "render" || cb === "render") {
+      return "render";
+    }
+    return ca === "pass" || cb === "pass" ? "pass" : "empty";
+  };
+  if (ts.isConditionalExpression(e)) {
+    return both(e.whenTrue, e.whenFalse);
+  }
+  if (ts.isBinaryExpression(e)) {
+    const op = e.operatorToken.kind;
+    if (op === ts.SyntaxKind.AmpersandAmpersandToken) {
+      return classify(ts, e.right);
+    }
+    if (op === ts.SyntaxKind.BarBarToken || op === ts.SyntaxKind.QuestionQuestionToken) {
+      return both(e.left, e.right);
+    }
+    return "render";
+  }
+  if (ts.isJsxFragment(e)) {
+    return onlyChildren(ts, e.children, true) ? "pass" : "render";
+  }
+  if (ts.isJsxSelfClosingElement(e)) {
+    return isComponentTag(ts, e.tagName) && hasSpreadProps(ts, e.attributes) ? "pass" : "render";
+  }
+  if (ts.isJsxElement(e)) {
+    const open = e.openingElement;
+    if (!isComponentTag(ts, open.tagName)) {
+      return "render";
+    }
+    if (onlyChildren(ts, e.children, true)) {
+      return "pass";
+    }
+    return hasSpreadProps(ts, open.attributes) && onlyChildren(ts, e.children, false) ? "pass" : "render";
+  }
+  return "render";
+}
+
+/** A component is pass-through when everything it renders is, and it renders something. */
+export function isPassThroughComponent(ts: typeof TS, source: TS.SourceFile, name: string): boolean {
+  const component = findComponent(ts, source, name);
+  if (!component) {
+    return false;
+  }
+  const kinds = renderedExpressions(ts, component).map((e) => classify(ts, e));
+  return kinds.includes("pass") && !kinds.includes("render");
+}
+
+/* ------------------------------------------------------------------ */
+/*  Detector                                                           */
+/* ------------------------------------------------------------------ */
+
+/** How to parse `file`, from its extension. */
+export function scriptKind(ts: typeof TS, file: string): TS.ScriptKind {
+  switch (path.extname(file).toLowerCase()) {
+    case ".tsx":
+      return ts.ScriptKind.TSX;
+    case ".ts":
+      return ts.ScriptKind.TS;
+    case ".jsx":
+      return ts.ScriptKind.JSX;
+    default:
+      // Plain .js files often contain JSX too
+      return ts.ScriptKind.JSX;
+  }
+}
+
+export class WrapperDetector {
+  private include = compileWrapperPatterns(DEFAULT_WRAPPER_PATTERNS);
+  private exclude = compileWrapperPatterns([]);
+  private analyzeSource = false;
+  private ts: typeof TS | null = null;
+  private files = new Map<string, ParsedFile>();
+
+  /** `resolvePath` maps a normalized frame path to an absolute path (or null). */
+  constructor(private resolvePath: (normalizedFile: string) => string | null) {}
+
+  setOptions(options: WrapperOptions): void {
+    this.include = compileWrapperPatterns(options.include);
+    this.exclude = compileWrapperPatterns(options.exclude);
+    this.analyzeSource = options.analyzeSource;
+    if (!this.analyzeSource) {
+      this.files.clear();
+    }
+  }
+
+  /**
+   * Classify a frame. Source analysis only applies to files `prepare()`
+   * has parsed; until then only the patterns are used.
+   */
+  isWrapper(frame: WrapperCandidate): boolean {
+    const name = frame.name ?? "";
+    const matches = ({ names, paths }: WrapperPatterns) =>
+      (name !== "" && names.some((re) => re.test(name))) || paths.some((re) => re.test(frame.normalizedFile));
+    if (matches(this.exclude)) {
+      return false;
+    }
+    if (matches(this.include)) {
+      return true;
+    }
+    if (!this.analyzeSource || !this.ts || !frame.name) {
+      return false;
+    }
+    const absPath = this.resolvePath(frame.normalizedFile);
+    const parsed = absPath ? this.files.get(absPath) : undefined;
+    if (!parsed) {
+      return false;
+    }
+    let verdict = parsed.verdicts.get(frame.name);
+    if (verdict === undefined) {
+      verdict = isPassThroughComponent(this.ts, parsed.source, frame.name);
+      parsed.verdicts.set(frame.name, verdict);
+    }
+    return verdict;
+  }
+
+  /** Load the compiler and parse the frames' source files (cached by mtime). */
+  async prepare(frames: WrapperCandidate[]): Promise<void> {
+    if (!this.analyzeSource) {
+      return;
+    }
+    // Loaded on first use — the compiler is large and most users never enable this
+    this.ts ??= await import("typescript");
+    const ts = this.ts;
+    const paths = new Set<string>();
+    for (const f of frames) {
+      const absPath = f.name ? this.resolvePath(f.normalizedFile) : null;
+      if (absPath) {
+        paths.add(absPath);
+      }
+    }
+    await Promise.all(
+      [...paths].map(async (absPath) => {
+        try {
+          const stat = await fs.promises.stat(absPath);
+          if (stat.size > MAX_SOURCE_BYTES || this.files.get(absPath)?.mtimeMs === stat.mtimeMs) {
+            return;
+          }
+          const text = await fs.promises.readFile(absPath, "utf8");
+          this.files.set(absPath, {
+            mtimeMs: stat.mtimeMs,
+            source: ts.createSourceFile(absPath, text, ts.ScriptTarget.Latest, true, scriptKind(ts, absPath)),
+            verdicts: new Map(),
+          });
+        } catch {
+          this.files.delete(absPath);
+        }
+      })
+    );
+  }
+}
@@ -0,0 +1,112 @@
+import * as vscode from "vscode";
+import { DiagnosticReport } from "./core/types";
+
+/* ------------------------------------------------------------------ */
+/*  Runtime diagnostics                                                */
+/*                                                                     */
+/*  React warnings and uncaught errors the browser bridge forwards     */
+/*  are shown in the Problems view at the component that rendered      */
+/*  them, with the parent components as related locations. The same    */
+/*  message at the same place is one entry with an occurrence count.   */
+/* ------------------------------------------------------------------ */
+
+/** A resolved stack frame. */
+export interface DiagnosticLocation {
+  absPath: string;
+  /** 1-based. */
+  line: number;
+  col: number;
+  name: string | null;
+}
+
+interface Entry {
+  report: DiagnosticReport;
+  target: DiagnosticLocation;
+  related: DiagnosticLocation[];
+  count: number;
+}
+
+/** Oldest entries are dropped beyond this. */
+const MAX_ENTRIES = 200;
+
+function toPosition(loc: DiagnosticLocation): vscode.Position {
+  return new vscode.Position(Math.max(0, loc.line - 1), Math.max(0, loc.col - 1));
+}
+
+export class RuntimeDiagnostics implements vscode.Disposable {
+  private collection = vscode.languages.createDiagnosticCollection("react-grab");
+  /** Insertion-ordered, so the first key is the oldest entry. */
+  private entries = new Map<string, Entry>();
+
+  get size(): number {
+    return this.entries.size;
+  }
+
+  /** Publish a report at `target`. Returns false when it repeats an existing entry. */
+  add(report: DiagnosticReport, target: DiagnosticLocation, related: DiagnosticLocation[]): boolean {
+    const key = `${report.severity}\n${report.message}\n${target.absPath}:${target.line}:${target.col}`;
+    const existing = this.entries.get(key);
+    if (existing) {
+      existing.count++;
+      existing.report = report;
+      this.publish(target.absPath);
+      return false;
+    }
+    this.entries.set(key, { report, target, related, count: 1 });
+    const dropped: string[] = [];
+    for (const [oldKey, old] of this.entries) {
+      if (this.entries.size <= MAX_ENTRIES) {
+        break;
+      }
+      this.entries.delete(oldKey);
+      dropped.push(old.target.absPath);
+    }
+    for (const absPath of new Set([target.absPath, ...dropped])) {
+      this.publish(absPath);
+    }
+    return true;
+  }
+
+  clear(): void {
+    this.entries.clear();
+    this.collection.clear();
+  }
+
+  dispose(): void {
+    this.collection.dispose();
+  }
+
+  /** Rebuild the diagnostics of one file from the entries. */
+  private publish(absPath: string): void {
+    const diagnostics: vscode.Diagnostic[] = [];
+    for (const entry of this.entries.values()) {
+      if (entry.target.absPath === absPath) {
+        diagnostics.push(this.toDiagnostic(entry));
+      }
+    }
+    this.collection.set(vscode.Uri.file(absPath), diagnostics);
+  }
+
+  private toDiagnostic(entry: Entry): vscode.Diagnostic {
+    const { report, target, related, count } = entry;
+    const start = toPosition(target);
+    // The end is clamped to the line's length when shown
+    const range = new vscode.Range(start, new vscode.Position(start.line, Number.MAX_SAFE_INTEGER));
+    const message = count > 1 ? `${report.message} (×${count})` : report.message;
+    const diagnostic = new vscode.Diagnostic(
+      range,
+      message,
+      report.severity === "error" ? vscode.DiagnosticSeverity.Error : vscode.DiagnosticSeverity.Warning
+    );
+    diagnostic.source = "React Grab";
+    diagnostic.code = report.origin;
+    diagnostic.relatedInformation = related.map(
+      (loc) =>
+        new vscode.DiagnosticRelatedInformation(
+          new vscode.Location(vscode.Uri.file(loc.absPath), toPosition(loc)),
+          `in ${loc.name ?? "(anonymous)"}`
+        )
+    );
+    return diagnostic;
+  }
+}
@@ -2,27 +2,65 @@ import * as vscode from "vscode";
 import * as http from "http";
 import * as fs from "fs";
 import * as path from "path";
-
-/* ------------------------------------------------------------------ */
-/*  Types                                                              */
-/* ------------------------------------------------------------------ */
-
-interface Frame {
-  raw: string;
-  name: string | null;
-  file: string;
-  line: number;
-  col: number;
-}
-
-interface Selection {
-  domLabel: string | null;
-  frames: Frame[];
-}
-
-interface NormalizedFrame extends Frame {
-  normalizedFile: string;
-}
+import { createPathMapper, PathMapper, PathMappingRule } from "./core/pathMapping";
+import {
+  findRenderedBy as chooseRenderedBy,
+  findUsedIn as chooseUsedIn,
+  normalizeFrames as normalizeWithMapper,
+  RenderedBy,
+  TargetOptions,
+} from "./core/targets";
+import { FileMatch, WorkspaceFileIndex } from "./fileIndex";
+import { DEFAULT_PORT, removeDiscovery, writeDiscovery } from "./core/discovery";
+import {
+  isBridgeListening,
+  parseWindowInfo,
+  PrimaryLink,
+  requestJson,
+  WindowInfo,
+  WindowRegistry,
+} from "./windows";
+import { DEFAULT_BUILD_DIRS, SourceMapResolver } from "./core/sourceMaps";
+import { checkPosition, EditHistory, PositionCheck } from "./staleLines";
+import { DiagnosticReport, Frame, NormalizedFrame, RenderStat, Selection } from "./core/types";
+import {
+  Capability,
+  parseDiagnosticPayload,
+  parseRenderStatsPayload,
+  parseSelectionPayload,
+  PROTOCOL_VERSION,
+  SUPPORTED_PROTOCOL_VERSIONS,
+} from "../browser-bridge/protocol";
+import { DEFAULT_STACK_PARSERS, parseStack, StackParser } from "../browser-bridge/stackParsers";
+import { SnapshotPanel } from "./snapshotPanel";
+import { ElementHighlighter, GrabbedElement } from "./highlight";
+import { ComponentExtractor } from "./extract";
+import { findStyleCandidates, StyleCandidate } from "./styles";
+import { DiagnosticLocation, RuntimeDiagnostics } from "./diagnostics";
+import { formatRenders, findDeclarationLine, RenderCodeLensProvider, RenderStatsStore } from "./renderStats";
+import { API_VERSION, ReactGrabApi, ResolvedFrame, SelectionEvent, TargetStrategies } from "./api";
+import { DEFAULT_WRAPPER_PATTERNS, WrapperDetector } from "./core/wrappers";
+import { DEFAULT_HISTORY_LIMIT, HistoryEntry, SelectionHistory } from "./history";
+import {
+  FrameNode,
+  framePosition,
+  HistoryTreeProvider,
+  StackAnalysis,
+  StackNode,
+  StackTreeProvider,
+} from "./selectionView";
+import { EventHub } from "./core/events";
+import { guardRequests, HOST, listenOn, readJsonBody, sendInvalid, sendJson, setCorsHeaders } from "./core/http";
+import { getRevealTarget, parseRevealTarget, RevealTarget } from "./reveal";
+import {
+  authenticate,
+  AuthOptions,
+  DEFAULT_ALLOWED_ORIGINS,
+  loadOrCreateToken,
+  resetToken,
+  TOKEN_HEADER,
+  tokensMatch,
+} from "./core/security";
 
 /* ------------------------------------------------------------------ */
 /*  Module-level state                                                 */
@@ -30,31 +68,56 @@ interface NormalizedFrame extends Frame {
 
 let server: http.Server | null = null;
 let serverRunning = false;
+let serverPort: number | null = null;
+/** "primary" owns the public port; "secondary" forwards through another window. */
+let role: "primary" | "secondary" | null = null;
+const windowRegistry = new WindowRegistry();
+let primaryLink: PrimaryLink | null = null;
+/** Pages subscribed to `GET /events` (primary only — pages discover the public port). */
+const events = new EventHub();
+/** The selection commands act on: the newest one, or the history entry picked in the sidebar. */
 let lastSelection: Selection | null = null;
+let currentEntryId: string | null = null;
+let history: SelectionHistory;
+let historyProvider: HistoryTreeProvider;
+let stackProvider: StackTreeProvider;
+let stackView: vscode.TreeView<StackNode>;
 let statusBarItem: vscode.StatusBarItem;
+let output: vscode.OutputChannel;
+let fileIndex: WorkspaceFileIndex;
+let sourceMaps: SourceMapResolver;
+let editHistory: EditHistory;
+let wrappers: WrapperDetector;
+let highlighter: ElementHighlighter;
+let extractor: ComponentExtractor;
+let diagnostics: RuntimeDiagnostics;
+let renderStats: RenderStatsStore;
+let strategies: TargetStrategies;
+let selectionEmitter: vscode.EventEmitter<SelectionEvent>;
+/** Parsers registered through the API; asked before the built-in ones, newest first. */
+let customStackParsers: StackParser[] = [];
+
+function log(message: string): void {
+  output?.appendLine(`[${new Date().toLocaleTimeString()}] ${message}`);
+}
 
 /* ------------------------------------------------------------------ */
 /*  Path normalization + resolving                                     */
 /* ------------------------------------------------------------------ */
 
-function normalizePath(file: string): string {
-  // Keep substring starting at "/src/" or "src\"
-  const srcSlash = file.indexOf("/src/");
-  const srcBackslash = file.indexOf("src\\");
-  let result: string;
-  if (srcSlash !== -1) {
-    result = file.substring(srcSlash + 1); // strip leading "/"
-  } else if (srcBackslash !== -1) {
-    result = file.substring(srcBackslash);
-  } else {
-    result = file;
-  }
-  // Strip leading "/" and replace backslashes
-  result = result.replace(/^\/+/, "").replace(/\\/g, "/");
-  return result;
+function getPathMapper(
+  roots: string[] = (vscode.workspace.workspaceFolders ?? []).map((f) => f.uri.fsPath)
+): PathMapper {
+  const config = vscode.workspace.getConfiguration("reactGrab.pathMapping");
+  return createPathMapper({
+    rules: config.get<PathMappingRule[]>("rules", []),
+    presets: config.get<string[]>("presets"),
+    exclude: config.get<string[]>("exclude"),
+    roots,
+  });
 }
 
-function resolveToAbsolute(normalizedFile: string): string | null {
+function findExact(normalizedFile: string): string | null {
   const folders = vscode.workspace.workspaceFolders;
   if (!folders) {
     return null;
@@ -68,15 +131,78 @@ function resolveToAbsolute(normalizedFile: string): string | null {
   return null;
 }
 
+/** Look a frame path up in the file index without prompting. */
+function matchFile(normalizedFile: string): FileMatch {
+  const exact = findExact(normalizedFile);
+  if (exact) {
+    return {
+      kind: "exact",
+      candidates: [{ absPath: exact, relPath: normalizedFile, folder: "" }],
+      score: normalizedFile.split("/").length,
+    };
+  }
+  return fileIndex.match(normalizedFile);
+}
+
+async function resolveToAbsolute(normalizedFile: string): Promise<string | null> {
+  const exact = findExact(normalizedFile);
+  if (exact) {
+    return exact;
+  }
+
+  // Fall back to the file index: longest path suffix, then basename
+  await fileIndex.ready();
+  const match = fileIndex.match(normalizedFile);
+  if (match.candidates.length === 0) {
+    return null;
+  }
+  if (match.candidates.length === 1) {
+    return match.candidates[0].absPath;
+  }
+
+  const multiRoot = (vscode.workspace.workspaceFolders?.length ?? 0) > 1;
+  const picked = await vscode.window.showQuickPick(
+    match.candidates.map((c) => ({
+      label: c.relPath,
+      description: multiRoot ? c.folder : undefined,
+      detail: c.absPath,
+    })),
+    {
+      title: `React Grab: ${match.candidates.length} files match "${normalizedFile}"`,
+      placeHolder:
+        match.kind === "basename" ? "Matched by file name only" : "Matched by path suffix",
+    }
+  );
+  return picked?.detail ?? null;
+}
+
 /* ------------------------------------------------------------------ */
 /*  Normalize all frames in a selection                                */
 /* ------------------------------------------------------------------ */
 
-function normalizeFrames(sel: Selection): NormalizedFrame[] {
-  return sel.frames.map((f) => ({
-    ...f,
-    normalizedFile: normalizePath(f.file),
-  }));
+function normalizeFrames(
+  sel: Pick<Selection, "frames">,
+  mapPath: PathMapper = getPathMapper()
+): NormalizedFrame[] {
+  return normalizeWithMapper(sel, mapPath);
+}
+
+/* ------------------------------------------------------------------ */
+/*  Source maps                                                        */
+/* ------------------------------------------------------------------ */
+
+/** Map bundle frames back to their sources, per the `reactGrab.sourceMaps` settings. */
+async function applySourceMaps<T extends { frames: Frame[] }>(sel: T): Promise<T> {
+  const config = vscode.workspace.getConfiguration("reactGrab.sourceMaps");
+  if (!config.get<boolean>("enabled", true)) {
+    return sel;
+  }
+  sourceMaps.setOptions({
+    roots: (vscode.workspace.workspaceFolders ?? []).map((f) => f.uri.fsPath),
+    buildDirs: config.get<string[]>("buildDirs", DEFAULT_BUILD_DIRS),
+    fetchFromDevServer: config.get<boolean>("fetchFromDevServer", true),
+  });
+  return sourceMaps.mapFrames(sel);
 }
 
 /* ------------------------------------------------------------------ */
@@ -84,72 +210,105 @@ function normalizeFrames(sel: Selection): NormalizedFrame[] {
 /* ------------------------------------------------------------------ */
 
 function isWrapper(frame: NormalizedFrame): boolean {
-  const f = frame.normalizedFile;
-  const n = frame.name ?? "";
-  return (
-    f.includes("/context/") ||
-    f.includes("/providers/") ||
-    n.includes("Provider") ||
-    n.includes("Context") ||
-    n.includes("Boundary")
-  );
-}
-
-function findRenderedBy(frames: NormalizedFrame[]): {
-  frame: NormalizedFrame;
-  index: number;
-} | null {
-  // Choose the first frame whose normalized path starts with "src/" and line > 0
-  const candidates = frames
-    .map((f, i) => ({ f, i }))
-    .filter((x) => x.f.normalizedFile.startsWith("src/") && x.f.line > 0);
+  return wrappers.isWrapper(frame);
+}
 
-  if (candidates.length === 0) {
-    return null;
+/**
+ * Read the wrapper settings and, when source analysis is on, parse the
+ * selection's files so `isWrapper` can use the result.
+ */
+async function prepareWrappers(frames: NormalizedFrame[]): Promise<void> {
+  const config = vscode.workspace.getConfiguration("reactGrab.wrappers");
+  wrappers.setOptions({
+    include: config.get<string[]>("include", DEFAULT_WRAPPER_PATTERNS),
+    exclude: config.get<string[]>("exclude", []),
+    analyzeSource: config.get<boolean>("analyzeSource", false),
+  });
+  try {
+    await wrappers.prepare(frames.filter((f) => f.isProject));
+  } catch (err) {
+    log(`Wrapper analysis failed: ${(err as Error).message}`);
   }
-
-  // Prefer one with name != null; otherwise first
-  const withName = candidates.find((c) => c.f.name !== null);
-  const chosen = withName ?? candidates[0];
-  return { frame: chosen.f, index: chosen.i };
 }
 
-function findUsedIn(
-  frames: NormalizedFrame[],
-  rendered: { frame: NormalizedFrame; index: number }
-): NormalizedFrame {
-  const renderedFile = rendered.frame.normalizedFile;
+/** API strategies first, then the built-in choice (see core/targets). */
+function targetOptions(): TargetOptions {
+  return { isWrapper, hooks: strategies };
+}
 
-  // Scan from i+1 downward
-  for (let j = rendered.index + 1; j < frames.length; j++) {
-    const f = frames[j];
-    if (!isWrapper(f) && f.normalizedFile !== renderedFile) {
-      return f;
-    }
-  }
+function findRenderedBy(frames: NormalizedFrame[]): RenderedBy | null {
+  return chooseRenderedBy(frames, targetOptions());
+}
 
-  // Fallback: first frame where file differs (even if wrapper)
-  for (let j = rendered.index + 1; j < frames.length; j++) {
-    const f = frames[j];
-    if (f.normalizedFile !== renderedFile) {
-      return f;
-    }
-  }
+function findUsedIn(frames: NormalizedFrame[], rendered: RenderedBy): NormalizedFrame {
+  return chooseUsedIn(frames, rendered, targetOptions());
+}
 
-  // Final fallback: rendered itself
-  return rendered.frame;
+/** Everything the sidebar needs to draw a selection's stack. */
+function analyzeSelection(sel: Selection): StackAnalysis {
+  const frames = normalizeFrames(sel);
+  const rendered = findRenderedBy(frames);
+  return {
+    frames,
+    rendered: rendered?.frame ?? null,
+    usedIn: rendered ? findUsedIn(frames, rendered) : null,
+    isWrapper,
+  };
 }
 
 /* ------------------------------------------------------------------ */
 /*  Open file at line/col                                              */
 /* ------------------------------------------------------------------ */
 
+/** The stale-line check inputs for a frame of the last selection. */
+function positionCheck(frame: Frame, sel: Selection | null = lastSelection): PositionCheck {
+  return {
+    context: frame.context,
+    lineHash: frame.lineHash,
+    pageLoadedAt: sel?.pageLoadedAt,
+  };
+}
+
+/**
+ * Where a 1-based position from the page is in the file now; the page may
+ * have been built from an older version of it. Warns when the position had
+ * to be estimated or couldn't be found.
+ */
+async function currentPosition(
+  doc: vscode.TextDocument,
+  line: number,
+  col: number,
+  check?: PositionCheck
+): Promise<{ line: number; col: number }> {
+  // Line 0: the page didn't know the position, so there's nothing to check
+  if (!check || line < 1) {
+    return { line, col };
+  }
+  const checked = await checkPosition(doc, line, col, check, editHistory);
+  if (checked.status === "relocated" && checked.line !== line) {
+    vscode.window.setStatusBarMessage(
+      `React Grab: source changed since the page loaded — moved from line ${line} to ${checked.line}`,
+      5000
+    );
+  } else if (checked.status === "approximate") {
+    vscode.window.showWarningMessage(
+      `React Grab: ${path.basename(doc.fileName)} changed since the page loaded; line ${checked.line} is an estimate. Reload the page for an exact position.`
+    );
+  } else if (checked.status === "unverified") {
+    vscode.window.showWarningMessage(
+      `React Grab: ${path.basename(doc.fileName)} changed since the page loaded and the grabbed code could not be found. Reload the page and grab again.`
+    );
+  }
+  return { line: checked.line, col: checked.col };
+}
+
 async function openAtLineCol(
   normalizedFile: string,
   line: number,
-  col: number
+  col: number,
+  check?: PositionCheck
 ): Promise<void> {
-  const absPath = resolveToAbsolute(normalizedFile);
+  const absPath = await resolveToAbsolute(normalizedFile);
   if (!absPath) {
     vscode.window.showErrorMessage(
       `React Grab: could not find "${normalizedFile}" in any workspace folder.`
@@ -157,232 +316,1101 @@ async function openAtLineCol(
     return;
   }
   const uri = vscode.Uri.file(absPath);
+  const doc = await vscode.workspace.openTextDocument(uri);
+  ({ line, col } = await currentPosition(doc, line, col, check));
+
   const zeroLine = Math.max(0, line - 1);
   const zeroCol = Math.max(0, col - 1);
-  const pos = new vscode.Position(zeroLine, zeroCol);
-  const sel = new vscode.Selection(pos, pos);
+  const pos = doc.validatePosition(new vscode.Position(zeroLine, zeroCol));
 
-  const doc = await vscode.workspace.openTextDocument(uri);
   const editor = await vscode.window.showTextDocument(doc);
-  editor.selection = sel;
+  const config = vscode.workspace.getConfiguration("reactGrab.highlight");
+  const selectElement = config.get<boolean>("selectElement", true);
+  const duration = config.get<number>("duration", 1500);
+  const foldOthers = config.get<boolean>("foldOthers", false);
+
+  // The whole element the frame points at (line 0: no position to look at)
+  let element: GrabbedElement | null = null;
+  if (line >= 1 && (selectElement || duration > 0 || foldOthers)) {
+    try {
+      element = await highlighter.findElement(doc, pos);
+    } catch (err) {
+      log(`JSX element lookup failed: ${(err as Error).message}`);
+    }
+  }
+  if (element && foldOthers) {
+    await highlighter.foldOthers(editor, element);
+  }
+
+  // Anchor at the end so the cursor sits on the element's `<`
+  editor.selection =
+    element && selectElement
+      ? new vscode.Selection(element.range.end, element.range.start)
+      : new vscode.Selection(pos, pos);
   editor.revealRange(
     new vscode.Range(pos, pos),
     vscode.TextEditorRevealType.InCenter
   );
+  if (element) {
+    highlighter.flash(editor, element.range, duration);
+  }
+}
+
+/* ------------------------------------------------------------------ */
+/*  HTTP server                                                        */
+/* ------------------------------------------------------------------ */
+
+/** Set on selections the primary window forwards to a secondary one. */
+const FORWARDED_HEADER = "x-react-grab-forwarded";
+/** Advertised on `/health` so bridges can skip features an older extension lacks. */
+const CAPABILITIES: Capability[] = [
+  "selection",
+  "events",
+  "reveal",
+  "diagnostic",
+  "renders",
+  "snippets",
+  "snapshot",
+  "styles",
+  "windows",
+];
+
+function getAuthOptions(): AuthOptions {
+  const config = vscode.workspace.getConfiguration("reactGrab.security");
+  return {
+    port: serverPort,
+    token: loadOrCreateToken(),
+    allowedOrigins: config.get<string[]>("allowedOrigins", DEFAULT_ALLOWED_ORIGINS),
+    requireToken: config.get<boolean>("requireToken", true),
+  };
+}
+
+async function handleRequest(
+  req: http.IncomingMessage,
+  res: http.ServerResponse
+): Promise<void> {
+  const auth = getAuthOptions();
+  const origin = req.headers.origin;
+
+  setCorsHeaders(req, res, auth.allowedOrigins);
+
+  const { pathname, searchParams } = new URL(req.url ?? "/", `http://${HOST}`);
+
+  // Health is readable without the token (browser bridges probe it to discover
+  // the port); everything else needs it. Host/Origin are checked for all.
+  const isHealth = req.method === "GET" && (pathname === "/" || pathname === "/health");
+  const isEvents = req.method === "GET" && pathname === "/events";
+  const needsToken = req.method !== "OPTIONS" && !isHealth;
+  const failure = authenticate(
+    req.headers,
+    auth,
+    needsToken,
+    isEvents ? searchParams.get("token") : null
+  );
+  if (failure) {
+    log(
+      `Rejected ${req.method} ${pathname} (host: ${req.headers.host ?? "-"}, origin: ${origin ?? "-"}): ${failure.error}`
+    );
+    sendJson(res, failure.status, { error: failure.error, code: failure.code });
+    return;
+  }
+
+  // Handle CORS preflight
+  if (req.method === "OPTIONS") {
+    res.writeHead(204);
+    res.end();
+    return;
+  }
+
+  // Health check — visit http://127.0.0.1:3344 in a browser to confirm the server is up.
+  // Browser bridges also probe this to discover which port we bound.
+  // Selection details are only included for paired clients.
+  if (isHealth) {
+    const paired = !auth.requireToken || tokensMatch(req.headers[TOKEN_HEADER] as string | undefined, auth.token);
+    sendJson(res, 200, {
+      status: "ok",
+      server: "react-grab-bridge",
+      port: serverPort,
+      role,
+      pairingRequired: auth.requireToken,
+      paired,
+      protocol: { version: PROTOCOL_VERSION, supported: SUPPORTED_PROTOCOL_VERSIONS },
+      capabilities: CAPABILITIES,
+      windows: paired && role === "primary" ? windowRegistry.list().length + 1 : undefined,
+      // Lets the browser extension find the project root for URL-scheme targets
+      workspaceFolders: paired ? allWorkspaceFolders() : undefined,
+      lastSelection:
+        paired && lastSelection
+          ? {
+              domLabel: lastSelection.domLabel,
+              frameCount: lastSelection.frames.length,
+            }
+          : null,
+    });
+    return;
+  }
+
+  // Editor → browser push channel (EventSource passes the token as ?token=)
+  if (isEvents) {
+    events.add(req, res);
+    return;
+  }
+
+  // Reveal request from a secondary window (or a script) — push it to the pages
+  if (req.method === "POST" && pathname === "/reveal") {
+    const parsed = await readJsonBody(req, res);
+    if (parsed === undefined) {
+      return;
+    }
+    const target = parseRevealTarget(parsed);
+    if (!target) {
+      sendJson(res, 400, { error: "Invalid reveal target" });
+      return;
+    }
+    sendJson(res, 200, { ok: true, clients: events.broadcast("reveal", target) });
+    return;
+  }
+
+  // Console warning / uncaught error from the page — show it in the Problems view
+  if (req.method === "POST" && pathname === "/diagnostic") {
+    const parsed = await readJsonBody(req, res);
+    if (parsed === undefined) {
+      return;
+    }
+    const result = parseDiagnosticPayload(parsed);
+    if (!result.ok) {
+      sendInvalid(res, result.error);
+      return;
+    }
+    const report = await applySourceMaps(result.value);
+
+    // Primary: the window that owns the file shows it
+    if (role === "primary" && req.headers[FORWARDED_HEADER] !== "1") {
+      const target = routeSelection(report);
+      if (target) {
+        try {
+          const fwd = await requestJson(target.port, "POST", "/diagnostic", report, {
+            [FORWARDED_HEADER]: "1",
+            [TOKEN_HEADER]: auth.token,
+          });
+          if (fwd.status === 200) {
+            sendJson(res, 200, { ok: true, window: target.id });
+            return;
+          }
+        } catch {
+          // Window went away — publish it here instead
+        }
+        windowRegistry.unregister(target.id);
+      }
+    }
+
+    sendJson(res, 200, { ok: true, published: await publishDiagnostic(report) });
+    return;
+  }
+
+  // Render counts from the page (deltas since its previous post)
+  if (req.method === "POST" && pathname === "/renders") {
+    const parsed = await readJsonBody(req, res);
+    if (parsed === undefined) {
+      return;
+    }
+    const result = parseRenderStatsPayload(parsed);
+    if (!result.ok) {
+      sendInvalid(res, result.error);
+      return;
+    }
+    let stats = result.value.stats;
+    if (role === "primary" && req.headers[FORWARDED_HEADER] !== "1") {
+      stats = await forwardRenderStats(stats, auth.token);
+    }
+    sendJson(res, 200, { ok: true, recorded: recordRenderStats(stats) });
+    return;
+  }
+
+  // Window registration (secondary → primary)
+  if (req.method === "POST" && (pathname === "/windows/register" || pathname === "/windows/unregister")) {
+    if (role !== "primary") {
+      sendJson(res, 409, { error: "Not the primary bridge" });
+      return;
+    }
+    const parsed = await readJsonBody(req, res);
+    if (parsed === undefined) {
+      return;
+    }
+    if (pathname === "/windows/unregister") {
+      const id = (parsed as { id?: unknown } | null)?.id;
+      if (typeof id === "string") {
+        windowRegistry.unregister(id);
+      }
+      sendJson(res, 200, { ok: true });
+      return;
+    }
+    const info = parseWindowInfo(parsed);
+    if (!info) {
+      sendJson(res, 400, { error: "Invalid window registration" });
+      return;
+    }
+    windowRegistry.register(info);
+    sendJson(res, 200, { ok: true });
+    return;
+  }
+
+  // Only accept POST /selection
+  if (req.method !== "POST" || pathname !== "/selection") {
+    sendJson(res, 404, { error: "Not found" });
+    return;
+  }
+
+  const parsed = await readJsonBody(req, res);
+  if (parsed === undefined) {
+    return;
+  }
+
+  // Validate shape (protocol 1 bodies have no version and strict positions)
+  const result = parseSelectionPayload(parsed);
+  if (!result.ok) {
+    sendInvalid(res, result.error);
+    return;
+  }
+  const selection = await applySourceMaps(result.value);
+  const forwarded = req.headers[FORWARDED_HEADER] === "1";
+
+  // Primary: hand the selection to the window that owns the file
+  if (role === "primary" && !forwarded) {
+    const target = routeSelection(selection);
+    if (target) {
+      try {
+        const fwd = await requestJson(target.port, "POST", "/selection", selection, {
+          [FORWARDED_HEADER]: "1",
+          [TOKEN_HEADER]: auth.token,
+        });
+        if (fwd.status === 200) {
+          sendJson(res, 200, { ok: true, window: target.id });
+          return;
+        }
+      } catch {
+        // Window went away between heartbeats — handle it here instead
+      }
+      windowRegistry.unregister(target.id);
+    }
+  }
+
+  setCurrentEntry(history.add(selection));
+  sendJson(res, 200, { ok: true });
+  fireSelection(selection);
+
+  // Show quick info in the status bar
+  const nFrames = normalizeFrames(selection);
+  const rendered = findRenderedBy(nFrames);
+  if (rendered) {
+    const label = selection.domLabel ?? "(unknown)";
+    vscode.window.setStatusBarMessage(
+      `React Grab: received "${label}" — ${nFrames.length} frames`,
+      5000
+    );
+    if (forwarded) {
+      focusWindow(rendered.frame);
+    }
+  }
+}
+
+/** Ports to try, in order: the configured port, then `fallbackPorts` consecutive ones. */
+function getCandidatePorts(): number[] {
+  const config = vscode.workspace.getConfiguration("reactGrab");
+  const base = config.get<number>("port", DEFAULT_PORT);
+  const fallbacks = Math.max(0, config.get<number>("fallbackPorts", 10));
+  const ports: number[] = [];
+  for (let p = base; p <= base + fallbacks && p <= 65535; p++) {
+    ports.push(p);
+  }
+  return ports;
+}
+
+function handleServerError(err: Error): void {
+  vscode.window.showErrorMessage(
+    `React Grab Bridge error: ${err.message}`
+  );
+  if (role === "primary") {
+    removeDiscovery();
+  }
+  primaryLink?.stop();
+  primaryLink = null;
+  events.closeAll();
+  server = null;
+  serverRunning = false;
+  serverPort = null;
+  role = null;
+  updateStatusBar();
+}
+
+/* ------------------------------------------------------------------ */
+/*  Multi-window roles                                                 */
+/* ------------------------------------------------------------------ */
+
+function getWindowInfo(): WindowInfo {
+  return {
+    id: vscode.env.sessionId,
+    port: serverPort ?? 0,
+    folders: (vscode.workspace.workspaceFolders ?? []).map((f) => f.uri.fsPath),
+  };
+}
+
+/** This window's folders, then those of the windows registered with it (primary only). */
+function allWorkspaceFolders(): string[] {
+  const others = role === "primary" ? windowRegistry.list().flatMap((w) => w.folders) : [];
+  return [...new Set([...getWindowInfo().folders, ...others])];
+}
+
+/**
+ * How well a set of workspace folders resolves a selection:
+ * 2 = the rendered-by file exists, 1 = some other frame does, 0 = nothing.
+ */
+function scoreSelection(folders: string[], sel: Pick<Selection, "frames">): number {
+  if (folders.length === 0) {
+    return 0;
+  }
+  const nFrames = normalizeFrames(sel, getPathMapper(folders));
+  const exists = (f: NormalizedFrame) =>
+    folders.some((folder) => fs.existsSync(path.join(folder, f.normalizedFile)));
+
+  const rendered = findRenderedBy(nFrames);
+  if (rendered && exists(rendered.frame)) {
+    return 2;
+  }
+  return nFrames.some((f) => f.isProject && exists(f)) ? 1 : 0;
+}
+
+/** Pick the registered window that should receive a selection (or diagnostic), or null to keep it here. */
+function routeSelection(sel: Pick<Selection, "frames">): WindowInfo | null {
+  const windows = windowRegistry.list();
+  if (windows.length === 0) {
+    return null;
+  }
+  const own = scoreSelection(getWindowInfo().folders, sel);
+  if (own === 2) {
+    return null;
+  }
+  let best: WindowInfo | null = null;
+  let bestScore = own;
+  for (const w of windows) {
+    const score = scoreSelection(w.folders, sel);
+    if (score > bestScore) {
+      best = w;
+      bestScore = score;
+    }
+  }
+  return best;
+}
+
+/**
+ * Bring this window to the front. Extensions can't raise their own window
+ * directly, but opening a `vscode://file/...` URL routes to the window that
+ * has the file's folder open and focuses it.
+ */
+function focusWindow(frame: NormalizedFrame): void {
+  if (!vscode.workspace.getConfiguration("reactGrab").get<boolean>("focusOnForwardedSelection", true)) {
+    return;
+  }
+  const absPath = findExact(frame.normalizedFile);
+  if (!absPath) {
+    return;
+  }
+  const filePath = "/" + absPath.replace(/\\/g, "/").replace(/^\/+/, "");
+  void vscode.env.openExternal(
+    vscode.Uri.from({
+      scheme: vscode.env.uriScheme,
+      authority: "file",
+      path: frame.line >= 1 ? `${filePath}:${frame.line}:${frame.col}` : filePath,
+    })
+  );
+}
+
+function becomePrimary(srv: http.Server, port: number): void {
+  server = srv;
+  serverPort = port;
+  serverRunning = true;
+  role = "primary";
+  writeDiscovery({
+    server: "react-grab-bridge",
+    host: HOST,
+    port,
+    pid: process.pid,
+    workspaceFolders: getWindowInfo().folders,
+    startedAt: new Date().toISOString(),
+  });
+  updateStatusBar();
+}
+
+/** Join the bridge another window already runs on `primaryPort`. */
+async function becomeSecondary(srv: http.Server, primaryPort: number): Promise<void> {
+  await listenOn(srv, 0);
+  const address = srv.address();
+  server = srv;
+  serverPort = typeof address === "object" && address ? address.port : null;
+  serverRunning = true;
+  role = "secondary";
+  primaryLink = new PrimaryLink(
+    primaryPort,
+    getWindowInfo,
+    () => takeOver(primaryPort),
+    () => ({ [TOKEN_HEADER]: loadOrCreateToken() })
+  );
+  await primaryLink.start();
+  updateStatusBar();
+}
+
+/** The primary stopped answering — try to claim its port. */
+async function takeOver(primaryPort: number): Promise<void> {
+  const srv = http.createServer(guardRequests(handleRequest, log));
+  try {
+    await listenOn(srv, primaryPort);
+  } catch {
+    // Another window won the race; the next heartbeat registers with it
+    return;
+  }
+  primaryLink?.stop();
+  primaryLink = null;
+  server?.close();
+  srv.on("error", handleServerError);
+  becomePrimary(srv, primaryPort);
+  vscode.window.setStatusBarMessage(
+    `React Grab: this window took over the bridge on ${HOST}:${primaryPort}`,
+    5000
+  );
+}
+
+/* ------------------------------------------------------------------ */
+/*  Start / stop                                                       */
+/* ------------------------------------------------------------------ */
+
+async function startServer(options: { quiet?: boolean } = {}): Promise<void> {
+  if (server) {
+    if (!options.quiet) {
+      vscode.window.showInformationMessage("React Grab Bridge already running.");
+    }
+    return;
+  }
+
+  const srv = http.createServer(guardRequests(handleRequest, log));
+  server = srv;
+
+  const ports = getCandidatePorts();
+  let lastError: Error | null = null;
+  for (const port of ports) {
+    try {
+      await listenOn(srv, port);
+    } catch (err) {
+      lastError = err as Error;
+      if ((err as NodeJS.ErrnoException).code !== "EADDRINUSE") {
+        break;
+      }
+      // Another VS Code window already runs the bridge here — join it
+      if (await isBridgeListening(port)) {
+        try {
+          await becomeSecondary(srv, port);
+        } catch (joinErr) {
+          lastError = joinErr as Error;
+          break;
+        }
+        srv.on("error", handleServerError);
+        const message = `React Grab Bridge: joined the bridge on ${HOST}:${port} from another window`;
+        if (options.quiet) {
+          vscode.window.setStatusBarMessage(message, 5000);
+        } else {
+          vscode.window.showInformationMessage(message);
+        }
+        return;
+      }
+      continue;
+    }
+
+    srv.on("error", handleServerError);
+    becomePrimary(srv, port);
+    const message = `React Grab Bridge started on ${HOST}:${port}`;
+    if (options.quiet) {
+      vscode.window.setStatusBarMessage(message, 5000);
+    } else {
+      vscode.window.showInformationMessage(message);
+    }
+    return;
+  }
+
+  server = null;
+  vscode.window.showErrorMessage(
+    `React Grab Bridge error: ${lastError?.message ?? "no free port"} (tried ${ports[0]}–${ports[ports.length - 1]})`
+  );
+  updateStatusBar();
+}
+
+function stopServer(): void {
+  if (!server) {
+    vscode.window.showInformationMessage("React Grab Bridge is not running.");
+    return;
+  }
+  if (role === "primary") {
+    removeDiscovery();
+  }
+  primaryLink?.stop();
+  primaryLink = null;
+  windowRegistry.clear();
+  events.closeAll();
+  server.close(() => {
+    server = null;
+    serverRunning = false;
+    serverPort = null;
+    role = null;
+    updateStatusBar();
+    vscode.window.showInformationMessage("React Grab Bridge stopped.");
+  });
+}
+
+/* ------------------------------------------------------------------ */
+/*  Reveal in browser                                                  */
+/* ------------------------------------------------------------------ */
+
+const FOLLOW_DEBOUNCE_MS = 200;
+const REVEAL_LANGUAGES = new Set(["javascript", "javascriptreact", "typescript", "typescriptreact"]);
+
+/**
+ * Push a reveal target to the connected pages. A secondary window hands it
+ * to the primary, which owns the event streams. Resolves the number of
+ * pages reached, or null when the bridge isn't running.
+ */
+async function pushReveal(target: RevealTarget): Promise<number | null> {
+  if (role === "primary") {
+    return events.broadcast("reveal", target);
+  }
+  if (role === "secondary" && primaryLink) {
+    try {
+      const res = await requestJson(primaryLink.primaryPort, "POST", "/reveal", target, {
+        [TOKEN_HEADER]: loadOrCreateToken(),
+      });
+      return (res.body as { clients?: number } | null)?.clients ?? 0;
+    } catch {
+      return 0;
+    }
+  }
+  return null;
+}
+
+async function revealInBrowser(): Promise<void> {
+  const editor = vscode.window.activeTextEditor;
+  if (!editor) {
+    vscode.window.showWarningMessage("React Grab: open a component file first.");
+    return;
+  }
+  if (!serverRunning) {
+    vscode.window.showWarningMessage("React Grab: the bridge is not running.");
+    return;
+  }
+  const target = await getRevealTarget(editor, false);
+  if (!target) {
+    vscode.window.showWarningMessage("React Grab: the active file is not in the workspace.");
+    return;
+  }
+  const reached = await pushReveal(target);
+  if (!reached) {
+    vscode.window.showWarningMessage(
+      "React Grab: no pages are connected. Start the browser bridge (or the browser extension) on your dev server page."
+    );
+    return;
+  }
+  vscode.window.setStatusBarMessage(
+    `React Grab: revealing ${target.name ?? `${target.file}:${target.line}`} in ${reached} page(s)`,
+    3000
+  );
+}
+
+/** Sends the component under the cursor to the pages while `reactGrab.followCursor` is on. */
+function watchCursor(): vscode.Disposable {
+  let timer: ReturnType<typeof setTimeout> | null = null;
+  let lastKey = "";
+
+  const schedule = (editor: vscode.TextEditor | undefined) => {
+    if (!editor || !REVEAL_LANGUAGES.has(editor.document.languageId)) {
+      return;
+    }
+    if (!serverRunning || !vscode.workspace.getConfiguration("reactGrab").get<boolean>("followCursor", false)) {
+      return;
+    }
+    if (timer) {
+      clearTimeout(timer);
+    }
+    timer = setTimeout(async () => {
+      timer = null;
+      const target = await getRevealTarget(editor, true);
+      if (!target) {
+        return;
+      }
+      // Only push when the cursor moved into a different component
+      const key = `${target.absPath}:${target.startLine}-${target.endLine}`;
+      if (key === lastKey) {
+        return;
+      }
+      lastKey = key;
+      await pushReveal(target);
+    }, FOLLOW_DEBOUNCE_MS);
+  };
+
+  return vscode.Disposable.from(
+    vscode.window.onDidChangeTextEditorSelection((e) => schedule(e.textEditor)),
+    vscode.window.onDidChangeActiveTextEditor(schedule),
+    new vscode.Disposable(() => {
+      if (timer) {
+        clearTimeout(timer);
+      }
+    })
+  );
+}
+
+/* ------------------------------------------------------------------ */
+/*  Status bar                                                         */
+/* ------------------------------------------------------------------ */
+
+function updateStatusBar(): void {
+  statusBarItem.text = !serverRunning
+    ? "$(circle-slash) React Grab: Off"
+    : role === "secondary"
+      ? "$(link) React Grab: Linked"
+      : "$(radio-tower) React Grab: On";
+  statusBarItem.tooltip = !serverRunning
+    ? "Click to start React Grab Bridge"
+    : role === "secondary"
+      ? "Receiving selections through another window's bridge — click to stop"
+      : `Listening on ${HOST}:${serverPort} — click to stop React Grab Bridge`;
+  statusBarItem.command = serverRunning
+    ? "reactGrab.stopBridge"
+    : "reactGrab.startBridge";
+}
+
+/* ------------------------------------------------------------------ */
+/*  Selection history + sidebar                                        */
+/* ------------------------------------------------------------------ */
+
+function isHistoryEntry(value: unknown): value is HistoryEntry {
+  return typeof (value as HistoryEntry | null)?.id === "string" && !!(value as HistoryEntry).selection;
+}
+
+/** Make `entry` the selection commands act on, and show its stack in the sidebar. */
+function setCurrentEntry(entry: HistoryEntry | null | undefined): void {
+  currentEntryId = entry?.id ?? null;
+  lastSelection = entry?.selection ?? null;
+  historyProvider.refresh();
+  stackProvider.refresh();
+  stackView.description = entry ? entry.selection.domLabel ?? "(unknown element)" : undefined;
+  if (entry?.selection.snapshot) {
+    SnapshotPanel.updateIfOpen(entry.selection.snapshot, snapshotSubtitle(entry.selection));
+  }
+  if (entry) {
+    // Wrapper groups may change once the sources are analyzed
+    void prepareWrappers(normalizeFrames(entry.selection)).then(() => stackProvider.refresh());
+  }
+}
+
+/** Open the rendered-by or used-in frame of a selection. */
+async function openTarget(which: "rendered" | "usedIn", sel: Selection | null): Promise<void> {
+  if (!sel) {
+    vscode.window.showWarningMessage(
+      "React Grab: no selection received yet."
+    );
+    return;
+  }
+  const nFrames = normalizeFrames(sel);
+  const rendered = findRenderedBy(nFrames);
+  if (!rendered) {
+    vscode.window.showWarningMessage(
+      "React Grab: could not determine rendered-by target."
+    );
+    return;
+  }
+  if (which === "usedIn") {
+    await prepareWrappers(nFrames);
+  }
+  const frame = which === "rendered" ? rendered.frame : findUsedIn(nFrames, rendered);
+  await openAtLineCol(frame.normalizedFile, frame.line, frame.col, positionCheck(frame, sel));
+}
+
+/** Extract the element at a selection's rendered-by frame into a new component. */
+async function extractComponent(sel: Selection | null): Promise<void> {
+  if (!sel) {
+    vscode.window.showWarningMessage(
+      "React Grab: no selection received yet."
+    );
+    return;
+  }
+  const rendered = findRenderedBy(normalizeFrames(sel));
+  if (!rendered || rendered.frame.line < 1) {
+    vscode.window.showWarningMessage(
+      "React Grab: could not determine rendered-by target."
+    );
+    return;
+  }
+  const frame = rendered.frame;
+  const absPath = await resolveToAbsolute(frame.normalizedFile);
+  if (!absPath) {
+    vscode.window.showErrorMessage(
+      `React Grab: could not find "${frame.normalizedFile}" in any workspace folder.`
+    );
+    return;
+  }
+  const doc = await vscode.workspace.openTextDocument(vscode.Uri.file(absPath));
+  const { line, col } = await currentPosition(doc, frame.line, frame.col, positionCheck(frame, sel));
+  const pos = doc.validatePosition(new vscode.Position(Math.max(0, line - 1), Math.max(0, col - 1)));
+  // Show what's being extracted while the name and folder are asked for
+  const element = await highlighter.findElement(doc, pos);
+  const editor = await vscode.window.showTextDocument(doc);
+  editor.selection = element ? new vscode.Selection(element.range.end, element.range.start) : new vscode.Selection(pos, pos);
+  editor.revealRange(editor.selection, vscode.TextEditorRevealType.InCenterIfOutsideViewport);
+  await extractor.extract(doc, pos, frame.name);
+}
+
+function snapshotSubtitle(sel: Selection): string {
+  return [sel.domLabel ?? "(unknown element)", sel.pageUrl].filter(Boolean).join(" · ");
+}
+
+/** Open the props/state/hooks panel for a selection. */
+function showSnapshot(sel: Selection | null): void {
+  if (!sel) {
+    vscode.window.showWarningMessage(
+      "React Grab: no selection received yet."
+    );
+    return;
+  }
+  if (!sel.snapshot) {
+    vscode.window.showInformationMessage(
+      "React Grab: this selection has no props snapshot. The browser bridge sends one when it can find the element's React fiber (includeSnapshot: true)."
+    );
+    return;
+  }
+  SnapshotPanel.show(sel.snapshot, snapshotSubtitle(sel));
 }
 
 /* ------------------------------------------------------------------ */
-/*  HTTP server                                                        */
+/*  Runtime diagnostics                                                */
 /* ------------------------------------------------------------------ */
 
-const MAX_BODY = 200 * 1024; // 200 KB
+/** Max parent components attached to a diagnostic as related locations. */
+const MAX_RELATED = 10;
 
-function startServer(): void {
-  if (server) {
-    vscode.window.showInformationMessage("React Grab Bridge already running.");
-    return;
+/** Resolve a frame path when there's exactly one match — never prompts. */
+function resolveWithoutPrompt(normalizedFile: string): string | null {
+  const exact = findExact(normalizedFile);
+  if (exact) {
+    return exact;
   }
+  const match = fileIndex.match(normalizedFile);
+  return match.candidates.length === 1 ? match.candidates[0].absPath : null;
+}
 
-  server = http.createServer((req, res) => {
-    // ---- CORS headers (allow any origin on localhost) ----
-    res.setHeader("Access-Control-Allow-Origin", "*");
-    res.setHeader("Access-Control-Allow-Methods", "GET, POST, OPTIONS");
-    res.setHeader("Access-Control-Allow-Headers", "Content-Type");
-
-    // Handle CORS preflight
-    if (req.method === "OPTIONS") {
-      res.writeHead(204);
-      res.end();
-      return;
-    }
+/**
+ * Show a browser warning/error at its rendered-by frame, with the parent
+ * project frames as related locations. Returns false if nothing resolved.
+ */
+async function publishDiagnostic(report: DiagnosticReport): Promise<boolean> {
+  await fileIndex.ready();
+  const nFrames = normalizeFrames(report);
+  await prepareWrappers(nFrames);
+  const rendered = findRenderedBy(nFrames);
+  const toLocation = (f: NormalizedFrame): DiagnosticLocation | null => {
+    const absPath = f.isProject ? resolveWithoutPrompt(f.normalizedFile) : null;
+    return absPath ? { absPath, line: f.line, col: f.col, name: f.name } : null;
+  };
+  const target = rendered ? toLocation(rendered.frame) : null;
+  if (!target || !rendered) {
+    log(`Diagnostic not shown, no workspace file in its stack: ${report.message.split("\n")[0]}`);
+    return false;
+  }
 
-    // Health check — visit http://127.0.0.1:3344 in a browser to confirm the server is up
-    if (req.method === "GET" && (req.url === "/" || req.url === "/health")) {
-      res.writeHead(200, { "Content-Type": "application/json" });
-      res.end(
-        JSON.stringify({
-          status: "ok",
-          server: "react-grab-bridge",
-          lastSelection: lastSelection
-            ? {
-                domLabel: lastSelection.domLabel,
-                frameCount: lastSelection.frames.length,
-              }
-            : null,
-        })
-      );
-      return;
+  const related: DiagnosticLocation[] = [];
+  for (const f of nFrames.slice(rendered.index + 1)) {
+    const loc = f.name && !isWrapper(f) ? toLocation(f) : null;
+    if (loc) {
+      related.push(loc);
     }
-
-    // Only accept POST /selection
-    if (req.method !== "POST" || req.url !== "/selection") {
-      res.writeHead(404, { "Content-Type": "application/json" });
-      res.end(JSON.stringify({ error: "Not found" }));
-      return;
+    if (related.length >= MAX_RELATED) {
+      break;
     }
+  }
+  diagnostics.add(report, target, related);
+  return true;
+}
 
-    let body = "";
-    let tooLarge = false;
-
-    req.on("data", (chunk: Buffer) => {
-      body += chunk.toString();
-      if (body.length > MAX_BODY) {
-        tooLarge = true;
-        res.writeHead(413, { "Content-Type": "application/json" });
-        res.end(JSON.stringify({ error: "Body too large" }));
-        req.destroy();
-      }
-    });
+/* ------------------------------------------------------------------ */
+/*  Render stats                                                       */
+/* ------------------------------------------------------------------ */
 
-    req.on("end", () => {
-      if (tooLarge) {
-        return;
-      }
+/** Components listed by "Show Top Re-rendering Components". */
+const TOP_RENDERS = 50;
 
-      // Parse JSON
-      let parsed: unknown;
-      try {
-        parsed = JSON.parse(body);
-      } catch {
-        res.writeHead(400, { "Content-Type": "application/json" });
-        res.end(JSON.stringify({ error: "Invalid JSON" }));
-        return;
-      }
+function renderStatFrame(stat: RenderStat): Frame {
+  return { raw: `${stat.name} (${stat.file}:${stat.line}:${stat.col})`, ...stat };
+}
 
-      // Validate shape
-      const validationError = validateSelection(parsed);
-      if (validationError) {
-        res.writeHead(400, { "Content-Type": "application/json" });
-        res.end(JSON.stringify({ error: validationError }));
-        return;
+/**
+ * Primary only: send each stat to the window that owns its file. Returns
+ * the stats this window keeps.
+ */
+async function forwardRenderStats(stats: RenderStat[], token: string): Promise<RenderStat[]> {
+  const keep: RenderStat[] = [];
+  const byWindow = new Map<string, { window: WindowInfo; stats: RenderStat[] }>();
+  for (const stat of stats) {
+    const target = routeSelection({ frames: [renderStatFrame(stat)] });
+    if (!target) {
+      keep.push(stat);
+      continue;
+    }
+    const group = byWindow.get(target.id) ?? { window: target, stats: [] };
+    group.stats.push(stat);
+    byWindow.set(target.id, group);
+  }
+  for (const { window, stats: group } of byWindow.values()) {
+    try {
+      const fwd = await requestJson(window.port, "POST", "/renders", { stats: group }, {
+        [FORWARDED_HEADER]: "1",
+        [TOKEN_HEADER]: token,
+      });
+      if (fwd.status === 200) {
+        continue;
       }
+    } catch {
+      // Window went away — count them here instead
+    }
+    windowRegistry.unregister(window.id);
+    keep.push(...group);
+  }
+  return keep;
+}
 
-      lastSelection = parsed as Selection;
-      res.writeHead(200, { "Content-Type": "application/json" });
-      res.end(JSON.stringify({ ok: true }));
-
-      // Show quick info in the status bar
-      const nFrames = normalizeFrames(lastSelection);
-      const rendered = findRenderedBy(nFrames);
-      if (rendered) {
-        const label = lastSelection.domLabel ?? "(unknown)";
-        vscode.window.setStatusBarMessage(
-          `React Grab: received "${label}" — ${nFrames.length} frames`,
-          5000
-        );
-      }
-    });
-  });
+/** Add render deltas for components in this workspace. Returns how many were recorded. */
+function recordRenderStats(stats: RenderStat[]): number {
+  const mapPath = getPathMapper();
+  const batch: { absPath: string; stat: RenderStat }[] = [];
+  for (const stat of stats) {
+    const mapped = mapPath(stat.file);
+    const absPath = mapped.isProject ? resolveWithoutPrompt(mapped.path) : null;
+    if (absPath) {
+      batch.push({ absPath, stat });
+    }
+  }
+  renderStats.add(batch);
+  return batch.length;
+}
 
-  server.listen(3344, "127.0.0.1", () => {
-    serverRunning = true;
-    updateStatusBar();
+async function showTopRenders(): Promise<void> {
+  const top = renderStats.top(TOP_RENDERS);
+  if (top.length === 0) {
     vscode.window.showInformationMessage(
-      "React Grab Bridge started on 127.0.0.1:3344"
-    );
-  });
-
-  server.on("error", (err) => {
-    vscode.window.showErrorMessage(
-      `React Grab Bridge error: ${err.message}`
+      "React Grab: no renders recorded yet. Start the browser bridge with trackRenders: true and use the page."
     );
-    server = null;
-    serverRunning = false;
-    updateStatusBar();
-  });
-}
-
-function stopServer(): void {
-  if (!server) {
-    vscode.window.showInformationMessage("React Grab Bridge is not running.");
     return;
   }
-  server.close(() => {
-    server = null;
-    serverRunning = false;
-    updateStatusBar();
-    vscode.window.showInformationMessage("React Grab Bridge stopped.");
-  });
+  const picked = await vscode.window.showQuickPick(
+    top.map((c) => ({
+      label: `$(pulse) ${c.name}`,
+      description: formatRenders(c),
+      detail: vscode.workspace.asRelativePath(c.absPath),
+      component: c,
+    })),
+    {
+      title: "React Grab: Top Re-rendering Components",
+      placeHolder: "Most renders first — select one to open it",
+      matchOnDetail: true,
+    }
+  );
+  if (!picked) {
+    return;
+  }
+  const doc = await vscode.workspace.openTextDocument(vscode.Uri.file(picked.component.absPath));
+  const line = findDeclarationLine(doc.getText(), picked.component.name, picked.component.line);
+  const pos = new vscode.Position(line, 0);
+  await vscode.window.showTextDocument(doc, { selection: new vscode.Selection(pos, pos), preview: false });
 }
 
 /* ------------------------------------------------------------------ */
-/*  Validation                                                         */
+/*  Styles                                                             */
 /* ------------------------------------------------------------------ */
 
-function validateSelection(data: unknown): string | null {
-  if (typeof data !== "object" || data === null || Array.isArray(data)) {
-    return "Body must be a JSON object";
+/** Map a stylesheet URL or dev-server module id to a workspace file. */
+function resolveStyleSource(source: string): string | null {
+  const mapped = getPathMapper()(source.replace(/[?#].*$/, ""));
+  return mapped.isProject ? resolveWithoutPrompt(mapped.path) : null;
+}
+
+/** Where the selection's styles are defined, searching its project frames' files first. */
+async function styleCandidates(sel: Selection): Promise<StyleCandidate[]> {
+  if (!sel.styles) {
+    return [];
   }
+  await fileIndex.ready();
+  const frameFiles: string[] = [];
+  const { frames, rendered } = analyzeSelection(sel);
+  for (const f of rendered ? [rendered, ...frames] : frames) {
+    const absPath = f.isProject ? findExact(f.normalizedFile) : null;
+    if (absPath && !frameFiles.includes(absPath)) {
+      frameFiles.push(absPath);
+    }
+  }
+  return findStyleCandidates(sel.styles, frameFiles, resolveStyleSource);
+}
 
-  const obj = data as Record<string, unknown>;
+const STYLE_ICONS: Record<StyleCandidate["kind"], string> = {
+  rule: "symbol-ruler",
+  module: "symbol-class",
+  class: "symbol-class",
+  styled: "symbol-constant",
+  classString: "symbol-string",
+};
+
+function styleItem(c: StyleCandidate): FrameQuickPickItem {
+  return {
+    label: `$(${STYLE_ICONS[c.kind]}) ${c.label}`,
+    description: `${vscode.workspace.asRelativePath(c.absPath)}:${c.line}`,
+    detail: c.detail,
+    style: c,
+  };
+}
 
-  // domLabel: string | null
-  if (obj.domLabel !== null && typeof obj.domLabel !== "string") {
-    return "domLabel must be a string or null";
-  }
+async function openStyleCandidate(c: StyleCandidate): Promise<void> {
+  const doc = await vscode.workspace.openTextDocument(vscode.Uri.file(c.absPath));
+  const pos = new vscode.Position(Math.max(0, c.line - 1), Math.max(0, c.col - 1));
+  await vscode.window.showTextDocument(doc, {
+    selection: new vscode.Selection(pos, pos),
+    preview: false,
+  });
+}
 
-  // frames: array
-  if (!Array.isArray(obj.frames)) {
-    return "frames must be an array";
+/** Jump to the CSS rule, CSS Module class, styled component or class string behind a selection. */
+async function openStyles(sel: Selection | null): Promise<void> {
+  if (!sel) {
+    vscode.window.showWarningMessage(
+      "React Grab: no selection received yet."
+    );
+    return;
   }
-  if (obj.frames.length < 1) {
-    return "frames must have at least 1 entry";
+  if (!sel.styles) {
+    vscode.window.showInformationMessage(
+      "React Grab: this selection has no style information. The browser bridge sends the element's classes and matched rules (includeStyles: true)."
+    );
+    return;
   }
-
-  for (let i = 0; i < obj.frames.length; i++) {
-    const f = obj.frames[i];
-    if (typeof f !== "object" || f === null || Array.isArray(f)) {
-      return `frames[${i}] must be an object`;
-    }
-    const frame = f as Record<string, unknown>;
-    if (typeof frame.raw !== "string") {
-      return `frames[${i}].raw must be a string`;
-    }
-    if (frame.name !== null && typeof frame.name !== "string") {
-      return `frames[${i}].name must be a string or null`;
-    }
-    if (typeof frame.file !== "string") {
-      return `frames[${i}].file must be a string`;
-    }
-    if (
-      typeof frame.line !== "number" ||
-      !Number.isInteger(frame.line) ||
-      frame.line < 1
-    ) {
-      return `frames[${i}].line must be a positive integer`;
-    }
-    if (
-      typeof frame.col !== "number" ||
-      !Number.isInteger(frame.col) ||
-      frame.col < 1
-    ) {
-      return `frames[${i}].col must be a positive integer`;
-    }
+  const candidates = await vscode.window.withProgress(
+    { location: vscode.ProgressLocation.Window, title: "React Grab: searching styles…" },
+    () => styleCandidates(sel)
+  );
+  if (candidates.length === 0) {
+    const classes = sel.styles.classList.join(" ");
+    vscode.window.showInformationMessage(
+      classes
+        ? `React Grab: no style definitions found for "${classes}".`
+        : "React Grab: the element has no classes and no matched rules from local stylesheets."
+    );
+    return;
+  }
+  if (candidates.length === 1) {
+    await openStyleCandidate(candidates[0]);
+    return;
+  }
+  const picked = await vscode.window.showQuickPick(candidates.map(styleItem), {
+    title: `React Grab: Styles of ${sel.domLabel ?? "element"}`,
+    placeHolder: "Select a style definition to open…",
+    matchOnDescription: true,
+    matchOnDetail: true,
+  });
+  if (picked?.style) {
+    await openStyleCandidate(picked.style);
   }
-
-  return null;
 }
 
-/* ------------------------------------------------------------------ */
-/*  Status bar                                                         */
-/* ------------------------------------------------------------------ */
+function registerSidebar(context: vscode.ExtensionContext): void {
+  history = new SelectionHistory(context.workspaceState, () =>
+    vscode.workspace.getConfiguration("reactGrab").get<number>("history.limit", DEFAULT_HISTORY_LIMIT)
+  );
+  historyProvider = new HistoryTreeProvider(history, analyzeSelection, () => currentEntryId);
+  stackProvider = new StackTreeProvider(
+    () => (currentEntryId ? history.get(currentEntryId) : undefined),
+    analyzeSelection
+  );
+  stackView = vscode.window.createTreeView("reactGrab.stack", {
+    treeDataProvider: stackProvider,
+    showCollapseAll: true,
+  });
+  context.subscriptions.push(
+    history,
+    stackView,
+    vscode.window.registerTreeDataProvider("reactGrab.history", historyProvider)
+  );
 
-function updateStatusBar(): void {
-  statusBarItem.text = serverRunning
-    ? "$(radio-tower) React Grab: On"
-    : "$(circle-slash) React Grab: Off";
-  statusBarItem.tooltip = serverRunning
-    ? "Click to stop React Grab Bridge"
-    : "Click to start React Grab Bridge";
-  statusBarItem.command = serverRunning
-    ? "reactGrab.stopBridge"
-    : "reactGrab.startBridge";
+  // Deleting the current entry falls back to the newest one
+  context.subscriptions.push(
+    history.onDidChange(() => {
+      if (currentEntryId && !history.get(currentEntryId)) {
+        setCurrentEntry(history.latest());
+      }
+    })
+  );
+  setCurrentEntry(history.latest());
+
+  context.subscriptions.push(
+    vscode.commands.registerCommand("reactGrab.history.select", async (entry: HistoryEntry) => {
+      setCurrentEntry(entry);
+      await openTarget("rendered", entry.selection);
+    }),
+    vscode.commands.registerCommand("reactGrab.history.pin", (entry: HistoryEntry) => {
+      history.setPinned(entry.id, true);
+    }),
+    vscode.commands.registerCommand("reactGrab.history.unpin", (entry: HistoryEntry) => {
+      history.setPinned(entry.id, false);
+    }),
+    vscode.commands.registerCommand("reactGrab.history.delete", (entry: HistoryEntry) => {
+      history.remove(entry.id);
+    }),
+    vscode.commands.registerCommand("reactGrab.history.clear", () => {
+      history.clear();
+    }),
+    vscode.commands.registerCommand("reactGrab.openStackFrame", async (node: FrameNode) => {
+      const f = node.frame;
+      await openAtLineCol(
+        f.normalizedFile,
+        f.line,
+        f.col,
+        positionCheck(f, history.get(node.entryId)?.selection ?? null)
+      );
+    })
+  );
 }
 
 /* ------------------------------------------------------------------ */
 /*  QuickPick                                                          */
 /* ------------------------------------------------------------------ */
 
+interface FrameQuickPickItem extends vscode.QuickPickItem {
+  frame?: NormalizedFrame;
+  style?: StyleCandidate;
+}
+
+/** Short note telling the user how (or whether) a frame will resolve. */
+function describeMatch(match: FileMatch): string | undefined {
+  switch (match.kind) {
+    case "exact":
+      return undefined;
+    case "none":
+      return "$(warning) not found in workspace";
+    default:
+      return match.candidates.length === 1
+        ? `$(search-fuzzy) ${match.candidates[0].relPath}`
+        : `$(search-fuzzy) ${match.candidates.length} possible files`;
+  }
+}
+
+/** Raw frame text, plus the bundle position for source-mapped frames. */
+function frameDetail(f: NormalizedFrame): string {
+  if (!f.generated) {
+    return f.raw;
+  }
+  const g = f.generated;
+  return `$(file-binary) ${g.file}:${g.line}:${g.col} → $(file-code) ${framePosition(f)}`;
+}
+
 async function showQuickPick(): Promise<void> {
   if (!lastSelection) {
     vscode.window.showWarningMessage(
@@ -392,25 +1420,34 @@ async function showQuickPick(): Promise<void> {
   }
 
   const nFrames = normalizeFrames(lastSelection);
+  await prepareWrappers(nFrames);
   const rendered = findRenderedBy(nFrames);
   const usedIn = rendered ? findUsedIn(nFrames, rendered) : null;
 
-  const items: vscode.QuickPickItem[] = [];
+  await fileIndex.ready();
+
+  const items: FrameQuickPickItem[] = [];
 
   // Special entries at top
   if (rendered) {
     const r = rendered.frame;
     items.push({
-      label: `$(arrow-right) Rendered by: ${r.name ?? "(anonymous)"} — ${r.normalizedFile}:${r.line}:${r.col}`,
-      description: "best component that rendered the element",
-      detail: r.raw,
+      label: `$(arrow-right) Rendered by: ${r.name ?? "(anonymous)"} — ${framePosition(r)}`,
+      description:
+        describeMatch(matchFile(r.normalizedFile)) ??
+        "best component that rendered the element",
+      detail: frameDetail(r),
+      frame: r,
     });
   }
   if (usedIn) {
     items.push({
-      label: `$(arrow-up) Used in: ${usedIn.name ?? "(anonymous)"} — ${usedIn.normalizedFile}:${usedIn.line}:${usedIn.col}`,
-      description: "parent / consumer frame",
-      detail: usedIn.raw,
+      label: `$(arrow-up) Used in: ${usedIn.name ?? "(anonymous)"} — ${framePosition(usedIn)}`,
+      description:
+        describeMatch(matchFile(usedIn.normalizedFile)) ??
+        "parent / consumer frame",
+      detail: frameDetail(usedIn),
+      frame: usedIn,
     });
   }
 
@@ -420,50 +1457,144 @@ async function showQuickPick(): Promise<void> {
   // All frames
   for (const f of nFrames) {
     items.push({
-      label: `${f.name ?? "(anonymous)"} — ${f.normalizedFile}:${f.line}:${f.col}`,
-      detail: f.raw,
+      label: `${f.name ?? "(anonymous)"} — ${framePosition(f)}`,
+      description: describeMatch(matchFile(f.normalizedFile)),
+      detail: frameDetail(f),
+      frame: f,
     });
   }
 
-  const picked = await vscode.window.showQuickPick(items, {
-    title: "React Grab: Open Frame",
-    placeHolder: "Select a frame to open…",
+  // Frames show right away; style definitions are appended when the search finishes
+  const sel = lastSelection;
+  const quickPick = vscode.window.createQuickPick<FrameQuickPickItem>();
+  quickPick.title = "React Grab: Open Frame";
+  quickPick.placeholder = "Select a frame to open…";
+  quickPick.items = items;
+  if (sel.styles) {
+    quickPick.busy = true;
+    void styleCandidates(sel).then(
+      (candidates) => {
+        if (candidates.length > 0) {
+          quickPick.items = [
+            ...quickPick.items,
+            { label: "Styles", kind: vscode.QuickPickItemKind.Separator },
+            ...candidates.map(styleItem),
+          ];
+        }
+        quickPick.busy = false;
+      },
+      (err) => {
+        log(`style search failed: ${err}`);
+        quickPick.busy = false;
+      }
+    );
+  }
+  const picked = await new Promise<FrameQuickPickItem | undefined>((resolve) => {
+    quickPick.onDidAccept(() => {
+      resolve(quickPick.selectedItems[0]);
+      quickPick.hide();
+    });
+    quickPick.onDidHide(() => {
+      resolve(undefined);
+      quickPick.dispose();
+    });
+    quickPick.show();
   });
 
-  if (!picked) {
+  if (picked?.style) {
+    await openStyleCandidate(picked.style);
     return;
   }
-
-  // Find the matching frame
-  if (rendered && picked.label.startsWith("$(arrow-right)")) {
-    await openAtLineCol(
-      rendered.frame.normalizedFile,
-      rendered.frame.line,
-      rendered.frame.col
-    );
+  if (!picked?.frame) {
     return;
   }
-  if (usedIn && picked.label.startsWith("$(arrow-up)")) {
-    await openAtLineCol(usedIn.normalizedFile, usedIn.line, usedIn.col);
+  await openAtLineCol(
+    picked.frame.normalizedFile,
+    picked.frame.line,
+    picked.frame.col,
+    positionCheck(picked.frame, sel)
+  );
+}
+
+/* ------------------------------------------------------------------ */
+/*  Paste stack                                                        */
+/* ------------------------------------------------------------------ */
+
+/** Treat a stack trace on the clipboard like a selection from the browser. */
+async function pasteStack(): Promise<void> {
+  const text = await vscode.env.clipboard.readText();
+  const parsed = parseStack(text, [...customStackParsers, ...DEFAULT_STACK_PARSERS]);
+  if (parsed.frames.length === 0) {
+    vscode.window.showWarningMessage(
+      "React Grab: no stack frames found on the clipboard. Copy a React Grab selection, a component stack or an error stack trace first."
+    );
     return;
   }
+  log(`Pasted stack: ${parsed.frames.length} frames (${parsed.formats.join(", ")})`);
+  const selection = await applySourceMaps<Selection>({
+    domLabel: parsed.domLabel ?? "Pasted stack",
+    frames: parsed.frames,
+    timestamp: Date.now(),
+  });
+  setCurrentEntry(history.add(selection));
+  fireSelection(selection);
+  await showQuickPick();
+}
 
-  // Match from frame list
-  const match = nFrames.find(
-    (f) =>
-      `${f.name ?? "(anonymous)"} — ${f.normalizedFile}:${f.line}:${f.col}` ===
-      picked.label
-  );
-  if (match) {
-    await openAtLineCol(match.normalizedFile, match.line, match.col);
-  }
+/* ------------------------------------------------------------------ */
+/*  Public API                                                         */
+/* ------------------------------------------------------------------ */
+
+function fireSelection(selection: Selection): void {
+  const { frames, rendered, usedIn } = analyzeSelection(selection);
+  selectionEmitter.fire({ selection, frames, renderedBy: rendered, usedIn });
+}
+
+/** A frame from an API caller: source-mapped if it points into a bundle, then path-mapped. */
+async function toNormalized(frame: Frame): Promise<NormalizedFrame> {
+  const { frames } = await applySourceMaps({ frames: [frame] });
+  return normalizeFrames({ frames })[0];
+}
+
+function createApi(): ReactGrabApi {
+  return {
+    version: API_VERSION,
+    onDidReceiveSelection: selectionEmitter.event,
+    getLastSelection: () => lastSelection,
+    resolveFrame: async (frame: Frame): Promise<ResolvedFrame | null> => {
+      await fileIndex.ready();
+      const normalized = await toNormalized(frame);
+      const absPath = resolveWithoutPrompt(normalized.normalizedFile);
+      return absPath ? { ...normalized, uri: vscode.Uri.file(absPath) } : null;
+    },
+    open: async (frame: Frame): Promise<void> => {
+      const normalized = await toNormalized(frame);
+      await openAtLineCol(normalized.normalizedFile, normalized.line, normalized.col, positionCheck(normalized, null));
+    },
+    registerStackParser: (parser) => {
+      customStackParsers = [parser, ...customStackParsers];
+      return new vscode.Disposable(() => {
+        customStackParsers = customStackParsers.filter((p) => p !== parser);
+      });
+    },
+    registerTargetStrategy: (strategy) => {
+      const disposable = strategies.register(strategy);
+      stackProvider.refresh();
+      historyProvider.refresh();
+      return new vscode.Disposable(() => {
+        disposable.dispose();
+        stackProvider.refresh();
+        historyProvider.refresh();
+      });
+    },
+  };
 }
 
 /* ------------------------------------------------------------------ */
 /*  Activation                                                         */
 /* ------------------------------------------------------------------ */
 
-export function activate(context: vscode.ExtensionContext): void {
+export function activate(context: vscode.ExtensionContext): ReactGrabApi {
   // Status bar
   statusBarItem = vscode.window.createStatusBarItem(
     vscode.StatusBarAlignment.Right,
@@ -473,10 +1604,72 @@ export function activate(context: vscode.ExtensionContext): void {
   statusBarItem.show();
   context.subscriptions.push(statusBarItem);
 
+  // Source maps — parsed lazily, cached per map file / URL
+  sourceMaps = new SourceMapResolver({ roots: [], buildDirs: DEFAULT_BUILD_DIRS, fetchFromDevServer: true });
+
+  // Edit history — replays edits made after a page loaded onto stale frame lines
+  editHistory = new EditHistory();
+  context.subscriptions.push(editHistory);
+
+  // Output channel (security rejections, diagnostics)
+  output = vscode.window.createOutputChannel("React Grab");
+  context.subscriptions.push(output);
+
+  // File index — built lazily on first lookup
+  fileIndex = new WorkspaceFileIndex();
+  context.subscriptions.push(fileIndex);
+
+  // Grabbed element selection, highlight and folding
+  highlighter = new ElementHighlighter();
+  context.subscriptions.push(highlighter);
+  extractor = new ComponentExtractor();
+
+  // Wrapper detection for "Used in" (patterns + optional source analysis)
+  wrappers = new WrapperDetector(findExact);
+  context.subscriptions.push(
+    vscode.workspace.onDidChangeConfiguration((e) => {
+      if (e.affectsConfiguration("reactGrab.wrappers") && lastSelection) {
+        void prepareWrappers(normalizeFrames(lastSelection)).then(() => stackProvider.refresh());
+      }
+    })
+  );
+
+  // Companion extensions: selection event + custom target strategies
+  selectionEmitter = new vscode.EventEmitter<SelectionEvent>();
+  strategies = new TargetStrategies((strategy, err) =>
+    log(`Target strategy "${strategy.id}" failed: ${(err as Error)?.message ?? err}`)
+  );
+  context.subscriptions.push(selectionEmitter);
+
+  // Sidebar: persisted selection history + component stack
+  registerSidebar(context);
+
+  // Browser console warnings / uncaught errors (POST /diagnostic)
+  diagnostics = new RuntimeDiagnostics();
+  context.subscriptions.push(diagnostics);
+
+  // Render counts and times as CodeLens (POST /renders)
+  renderStats = new RenderStatsStore();
+  const renderLenses = new RenderCodeLensProvider(renderStats, () =>
+    vscode.workspace.getConfiguration("reactGrab").get<boolean>("renderStats.codeLens", true)
+  );
+  context.subscriptions.push(
+    renderStats,
+    vscode.languages.registerCodeLensProvider(
+      [...REVEAL_LANGUAGES].map((language) => ({ scheme: "file", language })),
+      renderLenses
+    ),
+    vscode.workspace.onDidChangeConfiguration((e) => {
+      if (e.affectsConfiguration("reactGrab.renderStats")) {
+        renderLenses.refresh();
+      }
+    })
+  );
+
   // Commands
   context.subscriptions.push(
-    vscode.commands.registerCommand("reactGrab.startBridge", () => {
-      startServer();
+    vscode.commands.registerCommand("reactGrab.startBridge", async () => {
+      await startServer();
     })
   );
 
@@ -487,58 +1680,104 @@ export function activate(context: vscode.ExtensionContext): void {
   );
 
   context.subscriptions.push(
-    vscode.commands.registerCommand("reactGrab.openRenderedBy", async () => {
-      if (!lastSelection) {
-        vscode.window.showWarningMessage(
-          "React Grab: no selection received yet."
-        );
-        return;
-      }
-      const nFrames = normalizeFrames(lastSelection);
-      const rendered = findRenderedBy(nFrames);
-      if (!rendered) {
-        vscode.window.showWarningMessage(
-          "React Grab: could not determine rendered-by target."
-        );
-        return;
-      }
-      await openAtLineCol(
-        rendered.frame.normalizedFile,
-        rendered.frame.line,
-        rendered.frame.col
+    vscode.commands.registerCommand("reactGrab.openRenderedBy", async (arg?: unknown) => {
+      await openTarget("rendered", isHistoryEntry(arg) ? arg.selection : lastSelection);
+    })
+  );
+
+  context.subscriptions.push(
+    vscode.commands.registerCommand("reactGrab.openUsedIn", async (arg?: unknown) => {
+      await openTarget("usedIn", isHistoryEntry(arg) ? arg.selection : lastSelection);
+    })
+  );
+
+  context.subscriptions.push(
+    vscode.commands.registerCommand("reactGrab.extractComponent", async (arg?: unknown) => {
+      await extractComponent(isHistoryEntry(arg) ? arg.selection : lastSelection);
+    })
+  );
+
+  context.subscriptions.push(
+    vscode.commands.registerCommand("reactGrab.showSnapshot", (arg?: unknown) => {
+      showSnapshot(isHistoryEntry(arg) ? arg.selection : lastSelection);
+    })
+  );
+
+  context.subscriptions.push(
+    vscode.commands.registerCommand("reactGrab.clearDiagnostics", () => {
+      diagnostics.clear();
+    })
+  );
+
+  context.subscriptions.push(
+    vscode.commands.registerCommand("reactGrab.resetRenderStats", () => {
+      renderStats.reset();
+    })
+  );
+
+  context.subscriptions.push(
+    vscode.commands.registerCommand("reactGrab.showTopRenders", async () => {
+      await showTopRenders();
+    })
+  );
+
+  context.subscriptions.push(
+    vscode.commands.registerCommand("reactGrab.openStyles", async (arg?: unknown) => {
+      await openStyles(isHistoryEntry(arg) ? arg.selection : lastSelection);
+    })
+  );
+
+  context.subscriptions.push(
+    vscode.commands.registerCommand("reactGrab.copyPairingToken", async () => {
+      await vscode.env.clipboard.writeText(loadOrCreateToken());
+      vscode.window.showInformationMessage(
+        "React Grab: pairing token copied. Pass it to startReactGrabBridge({ token }) or paste it into the browser extension's options."
       );
     })
   );
 
   context.subscriptions.push(
-    vscode.commands.registerCommand("reactGrab.openUsedIn", async () => {
-      if (!lastSelection) {
-        vscode.window.showWarningMessage(
-          "React Grab: no selection received yet."
-        );
-        return;
-      }
-      const nFrames = normalizeFrames(lastSelection);
-      const rendered = findRenderedBy(nFrames);
-      if (!rendered) {
-        vscode.window.showWarningMessage(
-          "React Grab: could not determine rendered-by target."
-        );
+    vscode.commands.registerCommand("reactGrab.resetPairingToken", async () => {
+      const choice = await vscode.window.showWarningMessage(
+        "React Grab: reset the pairing token? Every paired browser and script will need the new one.",
+        { modal: true },
+        "Reset"
+      );
+      if (choice !== "Reset") {
         return;
       }
-      const usedIn = findUsedIn(nFrames, rendered);
-      await openAtLineCol(usedIn.normalizedFile, usedIn.line, usedIn.col);
+      await vscode.env.clipboard.writeText(resetToken());
+      vscode.window.showInformationMessage("React Grab: new pairing token copied to the clipboard.");
+    })
+  );
+
+  context.subscriptions.push(
+    vscode.commands.registerCommand("reactGrab.revealInBrowser", async () => {
+      await revealInBrowser();
+    })
+  );
+
+  context.subscriptions.push(
+    vscode.commands.registerCommand("reactGrab.toggleFollowCursor", async () => {
+      const config = vscode.workspace.getConfiguration("reactGrab");
+      const next = !config.get<boolean>("followCursor", false);
+      await config.update("followCursor", next, vscode.ConfigurationTarget.Global);
+      vscode.window.setStatusBarMessage(`React Grab: follow cursor ${next ? "on" : "off"}`, 3000);
     })
   );
 
+  // Follow-cursor mode (no-op while reactGrab.followCursor is off)
+  context.subscriptions.push(watchCursor());
+
   context.subscriptions.push(
     vscode.commands.registerCommand("reactGrab.openFrame", async () => {
       await showQuickPick();
-    })
+    }),
+    vscode.commands.registerCommand("reactGrab.pasteStack", pasteStack)
   );
 
   context.subscriptions.push(
-    vscode.commands.registerCommand("reactGrab.showLastSelection", () => {
+    vscode.commands.registerCommand("reactGrab.showLastSelection", async () => {
       if (!lastSelection) {
         vscode.window.showWarningMessage(
           "React Grab: no selection received yet."
@@ -546,6 +1785,7 @@ export function activate(context: vscode.ExtensionContext): void {
         return;
       }
       const nFrames = normalizeFrames(lastSelection);
+      await prepareWrappers(nFrames);
       const rendered = findRenderedBy(nFrames);
       const usedIn = rendered ? findUsedIn(nFrames, rendered) : null;
 
@@ -555,17 +1795,24 @@ export function activate(context: vscode.ExtensionContext): void {
       );
       if (rendered) {
         lines.push(
-          `Rendered by: ${rendered.frame.name ?? "(anon)"} @ ${rendered.frame.normalizedFile}:${rendered.frame.line}:${rendered.frame.col}`
+          `Rendered by: ${rendered.frame.name ?? "(anon)"} @ ${framePosition(rendered.frame)}`
         );
       }
       if (usedIn) {
         lines.push(
-          `Used in: ${usedIn.name ?? "(anon)"} @ ${usedIn.normalizedFile}:${usedIn.line}:${usedIn.col}`
+          `Used in: ${usedIn.name ?? "(anon)"} @ ${framePosition(usedIn)}`
         );
       }
       vscode.window.showInformationMessage(lines.join(" | "));
     })
   );
+
+  // Auto-start (activation happens on startup via onStartupFinished)
+  if (vscode.workspace.getConfiguration("reactGrab").get<boolean>("autoStart", true)) {
+    void startServer({ quiet: true });
+  }
+
+  return createApi();
 }
 
 /* ------------------------------------------------------------------ */
@@ -574,8 +1821,16 @@ export function activate(context: vscode.ExtensionContext): void {
 
 export function deactivate(): void {
   if (server) {
+    if (role === "primary") {
+      removeDiscovery();
+    }
+    primaryLink?.stop();
+    primaryLink = null;
+    events.closeAll();
     server.close();
     server = null;
     serverRunning = false;
+    serverPort = null;
+    role = null;
   }
 }
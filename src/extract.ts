@@ -0,0 +1,160 @@
+import * as vscode from "vscode";
+import * as fs from "fs";
+import * as path from "path";
+import type * as TS from "typescript";
+import { createExtractionProgram, planExtraction } from "./core/extractComponent";
+
+/* ------------------------------------------------------------------ */
+/*  Extract Grabbed JSX into Component                                 */
+/*                                                                     */
+/*  Asks for a name and a folder, plans the extraction with the type   */
+/*  checker (see core/extractComponent) and hands the result to VS     */
+/*  Code as a WorkspaceEdit that needs confirmation, so it opens in    */
+/*  the refactor preview instead of being applied straight away.       */
+/* ------------------------------------------------------------------ */
+
+const JSX_LANGUAGES = new Set(["javascript", "javascriptreact", "typescriptreact"]);
+const COMPONENT_NAME = /^[A-Z][A-Za-z0-9_$]*$/;
+
+interface FolderItem extends vscode.QuickPickItem {
+  folder: string | null;
+}
+
+function pascalCase(text: string): string {
+  return text
+    .split(/[^A-Za-z0-9]+/)
+    .filter(Boolean)
+    .map((part) => part[0].toUpperCase() + part.slice(1))
+    .join("");
+}
+
+/** The tag name at the start of the element, e.g. "li" or "Card.Body". */
+function tagAt(doc: vscode.TextDocument, position: vscode.Position): string | null {
+  const match = /^<\s*([A-Za-z][\w.:-]*)/.exec(doc.lineAt(position.line).text.slice(position.character));
+  return match ? match[1] : null;
+}
+
+function indentOf(doc: vscode.TextDocument): string {
+  const editor = vscode.window.visibleTextEditors.find((e) => e.document === doc);
+  const { insertSpaces, tabSize } = editor?.options ?? {};
+  if (insertSpaces === false) {
+    return "\t";
+  }
+  return " ".repeat(typeof tabSize === "number" ? tabSize : 2);
+}
+
+export class ComponentExtractor {
+  private ts: typeof TS | null = null;
+
+  /**
+   * Extract the JSX element at `position` of `doc` into a new component.
+   * `owner` (the component the element was grabbed from) seeds the name.
+   */
+  async extract(doc: vscode.TextDocument, position: vscode.Position, owner: string | null): Promise<void> {
+    if (!JSX_LANGUAGES.has(doc.languageId)) {
+      vscode.window.showWarningMessage(
+        `React Grab: can't extract components from ${doc.languageId} files.`
+      );
+      return;
+    }
+
+    const tag = tagAt(doc, position);
+    const name = await vscode.window.showInputBox({
+      title: "React Grab: Extract Grabbed JSX into Component",
+      prompt: "Name of the new component",
+      value: `${pascalCase(owner ?? "Extracted")}${tag ? pascalCase(tag) : "Part"}`,
+      validateInput: (value) =>
+        COMPONENT_NAME.test(value) ? null : "Component names start with a capital letter and contain only letters, digits, _ and $",
+    });
+    if (!name) {
+      return;
+    }
+
+    const sourceDir = path.dirname(doc.fileName);
+    const folder = await this.pickFolder(doc, sourceDir);
+    if (!folder) {
+      return;
+    }
+    const targetFile = path.join(folder, name + path.extname(doc.fileName));
+    if (fs.existsSync(targetFile)) {
+      vscode.window.showErrorMessage(
+        `React Grab: ${vscode.workspace.asRelativePath(targetFile)} already exists.`
+      );
+      return;
+    }
+
+    let plan;
+    try {
+      plan = await vscode.window.withProgress(
+        { location: vscode.ProgressLocation.Window, title: "React Grab: analyzing component…" },
+        async () => {
+          // Loaded on first use, like the wrapper analysis
+          this.ts ??= await import("typescript");
+          const program = createExtractionProgram(this.ts, doc.fileName, doc.getText());
+          return planExtraction(this.ts, program, doc.fileName, doc.offsetAt(position), {
+            name,
+            targetFile,
+            indent: indentOf(doc),
+          });
+        }
+      );
+    } catch (err) {
+      vscode.window.showErrorMessage(
+        `React Grab: can't extract ${name}: ${(err as Error).message}.`
+      );
+      return;
+    }
+
+    const edit = new vscode.WorkspaceEdit();
+    const newUri = vscode.Uri.file(targetFile);
+    const relTarget = vscode.workspace.asRelativePath(targetFile);
+    const props = plan.props.length > 0 ? plan.props.map((p) => p.prop).join(", ") : "no props";
+    edit.createFile(newUri, { ignoreIfExists: false }, { label: `Create ${relTarget}`, needsConfirmation: true });
+    edit.insert(newUri, new vscode.Position(0, 0), plan.componentText, {
+      label: `${name} (${props})`,
+      needsConfirmation: true,
+    });
+    for (const change of plan.sourceEdits) {
+      edit.replace(
+        doc.uri,
+        new vscode.Range(doc.positionAt(change.start), doc.positionAt(change.end)),
+        change.text,
+        { label: change.label, needsConfirmation: true }
+      );
+    }
+
+    // Resolves false when the preview is discarded
+    if (await vscode.workspace.applyEdit(edit)) {
+      await vscode.window.showTextDocument(newUri, { preview: false });
+    }
+  }
+
+  private async pickFolder(doc: vscode.TextDocument, sourceDir: string): Promise<string | null> {
+    const items: FolderItem[] = [
+      {
+        label: `Next to ${path.basename(doc.fileName)}`,
+        description: vscode.workspace.asRelativePath(sourceDir),
+        folder: sourceDir,
+      },
+      { label: "Choose a folder…", folder: null },
+    ];
+    const picked = await vscode.window.showQuickPick(items, {
+      title: "React Grab: Extract Grabbed JSX into Component",
+      placeHolder: "Where should the new component go?",
+    });
+    if (!picked) {
+      return null;
+    }
+    if (picked.folder) {
+      return picked.folder;
+    }
+    const chosen = await vscode.window.showOpenDialog({
+      canSelectFiles: false,
+      canSelectFolders: true,
+      canSelectMany: false,
+      defaultUri: vscode.Uri.file(sourceDir),
+      openLabel: "Create Component Here",
+    });
+    return chosen?.[0]?.fsPath ?? null;
+  }
+}
@@ -0,0 +1,132 @@
+import * as vscode from "vscode";
+import * as path from "path";
+import { EXCLUDED_DIRS, FileMatch, FileMatcher, SOURCE_EXTENSIONS } from "./core/fileMatch";
+
+export { FileMatch, IndexedFile, MatchKind } from "./core/fileMatch";
+
+/* ------------------------------------------------------------------ */
+/*  Defaults                                                           */
+/* ------------------------------------------------------------------ */
+
+const DEFAULT_INCLUDE = `**/*.{${SOURCE_EXTENSIONS.join(",")}}`;
+const DEFAULT_EXCLUDE = `**/{${EXCLUDED_DIRS.join(",")}}/**`;
+
+/* ------------------------------------------------------------------ */
+/*  Index                                                              */
+/* ------------------------------------------------------------------ */
+
+/**
+ * Cached list of source files in the workspace, kept current through a
+ * FileSystemWatcher. Used when a mapped frame path does not exist as-is.
+ */
+export class WorkspaceFileIndex implements vscode.Disposable {
+  private matcher = new FileMatcher();
+  private watchers: vscode.Disposable[] = [];
+  private disposables: vscode.Disposable[] = [];
+  private building: Promise<void> | null = null;
+  /** Bumped per build, so an older build finishing late doesn't replace a newer index. */
+  private generation = 0;
+
+  constructor() {
+    this.disposables.push(
+      vscode.workspace.onDidChangeWorkspaceFolders(() => this.rebuild()),
+      vscode.workspace.onDidChangeConfiguration((e) => {
+        if (e.affectsConfiguration("reactGrab.fileIndex")) {
+          this.rebuild();
+        }
+      })
+    );
+  }
+
+  /** Build the index (once) and start watching. Safe to call repeatedly. */
+  ready(): Promise<void> {
+    if (!this.building) {
+      this.building = this.build();
+    }
+    return this.building;
+  }
+
+  rebuild(): Promise<void> {
+    this.building = this.build();
+    return this.building;
+  }
+
+  get size(): number {
+    return this.matcher.size;
+  }
+
+  /** See FileMatcher.match: exact relative path, then longest path suffix, then file name. */
+  match(normalizedFile: string): FileMatch {
+    return this.matcher.match(normalizedFile);
+  }
+
+  dispose(): void {
+    this.generation++;
+    this.disposeWatchers();
+    for (const d of this.disposables) {
+      d.dispose();
+    }
+    this.disposables = [];
+    this.matcher.clear();
+  }
+
+  /* ---------------------------------------------------------------- */
+
+  private async build(): Promise<void> {
+    const generation = ++this.generation;
+    const config = vscode.workspace.getConfiguration("reactGrab.fileIndex");
+    const include = config.get<string>("include", DEFAULT_INCLUDE);
+    const exclude = config.get<string>("exclude", DEFAULT_EXCLUDE);
+
+    // Built on the side: lookups keep using the old index until this one is complete
+    const matcher = new FileMatcher();
+    const uris = await vscode.workspace.findFiles(include, exclude);
+    if (generation !== this.generation) {
+      return;
+    }
+    for (const uri of uris) {
+      this.add(matcher, uri);
+    }
+    this.matcher = matcher;
+
+    this.disposeWatchers();
+    const created = vscode.workspace.createFileSystemWatcher(include, false, true, true);
+    created.onDidCreate((uri) => void this.addIfIncluded(uri, exclude, generation));
+    // Deleting a directory is reported for the directory only, which the include glob doesn't match
+    const deleted = vscode.workspace.createFileSystemWatcher("**/*", true, true, false);
+    deleted.onDidDelete((uri) => this.matcher.remove(uri.fsPath));
+    this.watchers = [created, deleted];
+  }
+
+  /** Add a created file unless `exclude` matches it, using the same glob matching as the initial scan. */
+  private async addIfIncluded(uri: vscode.Uri, exclude: string, generation: number): Promise<void> {
+    const folder = vscode.workspace.getWorkspaceFolder(uri);
+    if (!folder) {
+      return;
+    }
+    const relPath = path.relative(folder.uri.fsPath, uri.fsPath).replace(/\\/g, "/");
+    const found = await vscode.workspace.findFiles(new vscode.RelativePattern(folder, relPath), exclude, 1);
+    if (found.length > 0 && generation === this.generation) {
+      this.add(this.matcher, uri);
+    }
+  }
+
+  private disposeWatchers(): void {
+    for (const w of this.watchers) {
+      w.dispose();
+    }
+    this.watchers = [];
+  }
+
+  private add(matcher: FileMatcher, uri: vscode.Uri): void {
+    const folder = vscode.workspace.getWorkspaceFolder(uri);
+    if (!folder) {
+      return;
+    }
+    matcher.add({
+      absPath: uri.fsPath,
+      relPath: path.relative(folder.uri.fsPath, uri.fsPath).replace(/\\/g, "/"),
+      folder: folder.name,
+    });
+  }
+}
@@ -0,0 +1,154 @@
+import * as vscode from "vscode";
+import type * as TS from "typescript";
+import { findJsxElementAt } from "./core/jsxRange";
+import { scriptKind } from "./core/wrappers";
+
+/* ------------------------------------------------------------------ */
+/*  Grabbed element highlight                                          */
+/*                                                                     */
+/*  Opening a frame selects the whole JSX element at its position and  */
+/*  flashes it; optionally the rest of the component is folded.        */
+/*  Decorations can't animate, so the fade steps through a few         */
+/*  decoration types of decreasing opacity.                            */
+/* ------------------------------------------------------------------ */
+
+export interface GrabbedElement {
+  range: vscode.Range;
+  /** Multi-line code around it in the same component (see core/jsxRange). */
+  others: vscode.Range[];
+}
+
+const JSX_LANGUAGES = new Set(["javascript", "javascriptreact", "typescriptreact"]);
+const FADE_STEPS = 6;
+/** Share of the duration shown at full strength before fading. */
+const HOLD = 0.4;
+const MAX_ALPHA = 0.35;
+
+export class ElementHighlighter implements vscode.Disposable {
+  private steps: vscode.TextEditorDecorationType[];
+  private timer: ReturnType<typeof setTimeout> | null = null;
+  private flashing: { editor: vscode.TextEditor; step: number } | null = null;
+  private ts: typeof TS | null = null;
+  /** Last parse, reused while the document is unchanged. */
+  private parsed: { uri: string; version: number; source: TS.SourceFile } | null = null;
+
+  constructor() {
+    this.steps = Array.from({ length: FADE_STEPS }, (_, i) => {
+      const alpha = (MAX_ALPHA * (FADE_STEPS - i)) / FADE_STEPS;
+      return vscode.window.createTextEditorDecorationType({
+        backgroundColor: `rgba(97, 218, 251, ${alpha.toFixed(3)})`,
+        borderRadius: "2px",
+        overviewRulerColor: i === 0 ? "rgba(97, 218, 251, 0.8)" : undefined,
+        overviewRulerLane: vscode.OverviewRulerLane.Center,
+      });
+    });
+  }
+
+  /** The smallest JSX element at `position`; null outside JSX or in other languages. */
+  async findElement(doc: vscode.TextDocument, position: vscode.Position): Promise<GrabbedElement | null> {
+    if (!JSX_LANGUAGES.has(doc.languageId)) {
+      return null;
+    }
+    // Loaded on first use, like the wrapper analysis
+    this.ts ??= await import("typescript");
+    const ts = this.ts;
+    const uri = doc.uri.toString();
+    if (this.parsed?.uri !== uri || this.parsed.version !== doc.version) {
+      const source = ts.createSourceFile(
+        doc.fileName,
+        doc.getText(),
+        ts.ScriptTarget.Latest,
+        true,
+        scriptKind(ts, doc.fileName)
+      );
+      this.parsed = { uri, version: doc.version, source };
+    }
+    const found = findJsxElementAt(ts, this.parsed.source, doc.offsetAt(position));
+    if (!found) {
+      return null;
+    }
+    const toRange = (s: { start: number; end: number }) => new vscode.Range(doc.positionAt(s.start), doc.positionAt(s.end));
+    return { range: toRange(found.element), others: found.others.map(toRange) };
+  }
+
+  /** Highlight `range`, fading out over `durationMs`. Replaces any running flash. */
+  flash(editor: vscode.TextEditor, range: vscode.Range, durationMs: number): void {
+    this.clear();
+    if (durationMs <= 0) {
+      return;
+    }
+    const hold = durationMs * HOLD;
+    const stepMs = (durationMs - hold) / FADE_STEPS;
+    const show = (step: number, delay: number) => {
+      this.timer = setTimeout(() => {
+        if (this.flashing) {
+          this.flashing.editor.setDecorations(this.steps[this.flashing.step], []);
+        }
+        if (step >= FADE_STEPS) {
+          this.flashing = null;
+          this.timer = null;
+          return;
+        }
+        editor.setDecorations(this.steps[step], [range]);
+        this.flashing = { editor, step };
+        show(step + 1, stepMs);
+      }, delay);
+    };
+    editor.setDecorations(this.steps[0], [range]);
+    this.flashing = { editor, step: 0 };
+    show(1, hold);
+  }
+
+  /**
+   * Fold the element's surroundings. Only folding regions that start on
+   * the first line of one of `others` and end inside it are folded, so a
+   * region that also holds the element is never collapsed.
+   */
+  async foldOthers(editor: vscode.TextEditor, element: GrabbedElement): Promise<void> {
+    let regions: vscode.FoldingRange[] | undefined;
+    try {
+      regions = await vscode.commands.executeCommand<vscode.FoldingRange[]>(
+        "vscode.executeFoldingRangeProvider",
+        editor.document.uri
+      );
+    } catch {
+      return;
+    }
+    const lines = new Set<number>();
+    for (const other of element.others) {
+      const fits = regions?.some(
+        (r) => r.start === other.start.line && r.end <= other.end.line && r.end > r.start
+      );
+      const touchesElement = other.start.line >= element.range.start.line && other.start.line <= element.range.end.line;
+      if (fits && !touchesElement) {
+        lines.add(other.start.line);
+      }
+    }
+    if (lines.size > 0) {
+      await vscode.commands.executeCommand("editor.fold", {
+        levels: 1,
+        direction: "up",
+        selectionLines: [...lines],
+      });
+    }
+  }
+
+  private clear(): void {
+    if (this.timer) {
+      clearTimeout(this.timer);
+      this.timer = null;
+    }
+    if (this.flashing) {
+      this.flashing.editor.setDecorations(this.steps[this.flashing.step], []);
+      this.flashing = null;
+    }
+  }
+
+  dispose(): void {
+    this.clear();
+    for (const step of this.steps) {
+      step.dispose();
+    }
+    this.parsed = null;
+  }
+}
@@ -0,0 +1,122 @@
+import * as vscode from "vscode";
+import { Selection } from "./core/types";
+
+/* ------------------------------------------------------------------ */
+/*  Selection history                                                  */
+/*                                                                     */
+/*  Every selection this window handles is kept (newest first) in the  */
+/*  workspace state, so it survives reloads. Pinned entries are never  */
+/*  trimmed or cleared.                                                */
+/* ------------------------------------------------------------------ */
+
+export interface HistoryEntry {
+  id: string;
+  /** When the selection arrived (ms since epoch). */
+  receivedAt: number;
+  pinned: boolean;
+  selection: Selection;
+}
+
+const STORAGE_KEY = "reactGrab.history";
+export const DEFAULT_HISTORY_LIMIT = 50;
+
+function isEntry(value: unknown): value is HistoryEntry {
+  const e = value as HistoryEntry | null;
+  return (
+    typeof e?.id === "string" &&
+    typeof e.receivedAt === "number" &&
+    Array.isArray(e.selection?.frames)
+  );
+}
+
+/** Same element picked again: same label and stack. */
+function sameSelection(a: Selection, b: Selection): boolean {
+  return (
+    a.domLabel === b.domLabel &&
+    a.frames.length === b.frames.length &&
+    a.frames.every((f, i) => f.raw === b.frames[i].raw && f.file === b.frames[i].file)
+  );
+}
+
+export class SelectionHistory implements vscode.Disposable {
+  private entries: HistoryEntry[];
+  private emitter = new vscode.EventEmitter<void>();
+  readonly onDidChange = this.emitter.event;
+
+  constructor(
+    private state: vscode.Memento,
+    private getLimit: () => number = () => DEFAULT_HISTORY_LIMIT
+  ) {
+    this.entries = state.get<unknown[]>(STORAGE_KEY, []).filter(isEntry);
+  }
+
+  /** Newest first. */
+  list(): HistoryEntry[] {
+    return this.entries;
+  }
+
+  latest(): HistoryEntry | undefined {
+    return this.entries[0];
+  }
+
+  get(id: string): HistoryEntry | undefined {
+    return this.entries.find((e) => e.id === id);
+  }
+
+  /** Record a selection. Picking the same element again refreshes the existing entry. */
+  add(selection: Selection): HistoryEntry {
+    const now = Date.now();
+    const latest = this.entries[0];
+    if (latest && sameSelection(latest.selection, selection)) {
+      latest.selection = selection;
+      latest.receivedAt = now;
+      this.save();
+      return latest;
+    }
+    const entry: HistoryEntry = {
+      id: `${now.toString(36)}-${Math.random().toString(36).slice(2, 8)}`,
+      receivedAt: now,
+      pinned: false,
+      selection,
+    };
+    this.entries.unshift(entry);
+    this.trim();
+    this.save();
+    return entry;
+  }
+
+  setPinned(id: string, pinned: boolean): void {
+    const entry = this.get(id);
+    if (entry) {
+      entry.pinned = pinned;
+      this.save();
+    }
+  }
+
+  remove(id: string): void {
+    this.entries = this.entries.filter((e) => e.id !== id);
+    this.save();
+  }
+
+  /** Remove every entry except the pinned ones. */
+  clear(): void {
+    this.entries = this.entries.filter((e) => e.pinned);
+    this.save();
+  }
+
+  dispose(): void {
+    this.emitter.dispose();
+  }
+
+  /** Drop the oldest unpinned entries beyond the limit. */
+  private trim(): void {
+    let unpinned = 0;
+    const limit = Math.max(1, this.getLimit());
+    this.entries = this.entries.filter((e) => e.pinned || ++unpinned <= limit);
+  }
+
+  private save(): void {
+    void this.state.update(STORAGE_KEY, this.entries);
+    this.emitter.fire();
+  }
+}
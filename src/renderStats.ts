@@ -0,0 +1,138 @@
+import * as vscode from "vscode";
+import { RenderStat } from "./core/types";
+
+/* ------------------------------------------------------------------ */
+/*  Render counts and times                                            */
+/*                                                                     */
+/*  The browser bridge posts per-component render deltas every few    */
+/*  seconds; they add up here until reset. A CodeLens above each       */
+/*  component declaration shows "rendered 142× · avg 3.1ms".           */
+/* ------------------------------------------------------------------ */
+
+export interface ComponentRenders {
+  name: string;
+  absPath: string;
+  /** 1-based line inside the component, from the browser; the declaration is looked up from it. */
+  line: number;
+  renders: number;
+  /** Sum of measured self render times (ms). */
+  durationMs: number;
+  /** Renders that came with a time (React only measures in dev/profiling builds). */
+  timedRenders: number;
+}
+
+export function formatRenders(c: ComponentRenders): string {
+  const parts = [`rendered ${c.renders}×`];
+  if (c.timedRenders > 0) {
+    parts.push(`avg ${(c.durationMs / c.timedRenders).toFixed(1)}ms`);
+  }
+  return parts.join(" · ");
+}
+
+function escapeRegExp(text: string): string {
+  return text.replace(/[.*+?^${}()|[\]\\]/g, "\\$&");
+}
+
+/**
+ * 0-based line of `function Name`, `class Name` or `const Name =`: the last
+ * one at or above the hint line (the component's body is below its
+ * declaration), else the first in the file, else the hint itself.
+ */
+export function findDeclarationLine(text: string, name: string, hintLine: number): number {
+  const re = new RegExp(`\\b(?:function\\s*\\*?\\s*|class\\s+|(?:const|let|var)\\s+)${escapeRegExp(name)}\\b`);
+  const lines = text.split("\n");
+  const hint = Math.min(Math.max(0, hintLine - 1), lines.length - 1);
+  for (let i = hint; i >= 0; i--) {
+    if (re.test(lines[i])) {
+      return i;
+    }
+  }
+  const below = lines.findIndex((l) => re.test(l));
+  return below !== -1 ? below : hint;
+}
+
+export class RenderStatsStore implements vscode.Disposable {
+  /** Keyed by file + component name; one entry covers every instance. */
+  private components = new Map<string, ComponentRenders>();
+  private emitter = new vscode.EventEmitter<void>();
+  readonly onDidChange = this.emitter.event;
+
+  get size(): number {
+    return this.components.size;
+  }
+
+  /** Add one batch of deltas, already resolved to workspace files. */
+  add(batch: { absPath: string; stat: RenderStat }[]): void {
+    if (batch.length === 0) {
+      return;
+    }
+    for (const { absPath, stat } of batch) {
+      const key = `${absPath}\n${stat.name}`;
+      let c = this.components.get(key);
+      if (!c) {
+        c = { name: stat.name, absPath, line: stat.line, renders: 0, durationMs: 0, timedRenders: 0 };
+        this.components.set(key, c);
+      }
+      c.line = stat.line;
+      c.renders += stat.count;
+      if (stat.durationMs !== undefined) {
+        c.durationMs += stat.durationMs;
+        c.timedRenders += stat.count;
+      }
+    }
+    this.emitter.fire();
+  }
+
+  forFile(absPath: string): ComponentRenders[] {
+    return [...this.components.values()].filter((c) => c.absPath === absPath);
+  }
+
+  /** Most renders first. */
+  top(limit: number): ComponentRenders[] {
+    return [...this.components.values()].sort((a, b) => b.renders - a.renders).slice(0, limit);
+  }
+
+  reset(): void {
+    this.components.clear();
+    this.emitter.fire();
+  }
+
+  dispose(): void {
+    this.emitter.dispose();
+  }
+}
+
+export class RenderCodeLensProvider implements vscode.CodeLensProvider {
+  private emitter = new vscode.EventEmitter<void>();
+  readonly onDidChangeCodeLenses = this.emitter.event;
+
+  constructor(
+    private store: RenderStatsStore,
+    private isEnabled: () => boolean
+  ) {
+    store.onDidChange(() => this.refresh());
+  }
+
+  refresh(): void {
+    this.emitter.fire();
+  }
+
+  provideCodeLenses(document: vscode.TextDocument): vscode.CodeLens[] {
+    if (!this.isEnabled()) {
+      return [];
+    }
+    const components = this.store.forFile(document.uri.fsPath);
+    if (components.length === 0) {
+      return [];
+    }
+    const text = document.getText();
+    return components.map((c) => {
+      const line = findDeclarationLine(text, c.name, c.line);
+      return new vscode.CodeLens(new vscode.Range(line, 0, line, 0), {
+        title: `$(pulse) ${formatRenders(c)}`,
+        tooltip: `${c.name}: renders counted by the React Grab browser bridge since the last reset`,
+        command: "reactGrab.showTopRenders",
+      });
+    });
+  }
+}
@@ -0,0 +1,116 @@
+import * as vscode from "vscode";
+import { RevealEvent } from "../browser-bridge/protocol";
+
+/* ------------------------------------------------------------------ */
+/*  Reveal in browser                                                  */
+/*                                                                     */
+/*  The reverse of a selection: take the component around the cursor   */
+/*  and ask connected pages to outline every element whose fiber       */
+/*  source location falls inside it.                                   */
+/* ------------------------------------------------------------------ */
+
+/** The `reveal` event pages receive over `/events`. */
+export type RevealTarget = RevealEvent;
+
+const COMPONENT_KINDS = new Set([
+  vscode.SymbolKind.Function,
+  vscode.SymbolKind.Class,
+  vscode.SymbolKind.Variable,
+  vscode.SymbolKind.Constant,
+]);
+
+/** React components are PascalCase by convention. */
+function isComponentSymbol(s: vscode.DocumentSymbol): boolean {
+  return COMPONENT_KINDS.has(s.kind) && /^[A-Z]/.test(s.name);
+}
+
+/**
+ * Innermost component symbol around `position`, falling back to the
+ * outermost symbol of any kind. Null without a symbol provider.
+ */
+async function findEnclosingSymbol(
+  doc: vscode.TextDocument,
+  position: vscode.Position
+): Promise<{ symbol: vscode.DocumentSymbol; isComponent: boolean } | null> {
+  let symbols: vscode.DocumentSymbol[] | undefined;
+  try {
+    symbols = await vscode.commands.executeCommand<vscode.DocumentSymbol[]>(
+      "vscode.executeDocumentSymbolProvider",
+      doc.uri
+    );
+  } catch {
+    return null;
+  }
+
+  let outermost: vscode.DocumentSymbol | null = null;
+  let component: vscode.DocumentSymbol | null = null;
+  let level = symbols ?? [];
+  for (;;) {
+    const hit = level.find((s) => s.range.contains(position));
+    if (!hit) {
+      break;
+    }
+    outermost ??= hit;
+    if (isComponentSymbol(hit)) {
+      component = hit;
+    }
+    level = hit.children;
+  }
+  if (component) {
+    return { symbol: component, isComponent: true };
+  }
+  return outermost ? { symbol: outermost, isComponent: false } : null;
+}
+
+/** Build the reveal target for the cursor in `editor`, or null outside the workspace. */
+export async function getRevealTarget(
+  editor: vscode.TextEditor,
+  sticky: boolean
+): Promise<RevealTarget | null> {
+  const doc = editor.document;
+  const folder = vscode.workspace.getWorkspaceFolder(doc.uri);
+  if (doc.uri.scheme !== "file" || !folder) {
+    return null;
+  }
+  const position = editor.selection.active;
+  const enclosing = await findEnclosingSymbol(doc, position);
+  const range = enclosing?.symbol.range ?? new vscode.Range(position, position);
+
+  return {
+    file: vscode.workspace.asRelativePath(doc.uri, false).replace(/\\/g, "/"),
+    absPath: doc.uri.fsPath.replace(/\\/g, "/"),
+    line: position.line + 1,
+    startLine: range.start.line + 1,
+    endLine: range.end.line + 1,
+    name: enclosing?.isComponent ? enclosing.symbol.name : null,
+    sticky,
+  };
+}
+
+/** Validate a `POST /reveal` body (forwarded from a secondary window or a script). */
+export function parseRevealTarget(data: unknown): RevealTarget | null {
+  if (typeof data !== "object" || data === null) {
+    return null;
+  }
+  const obj = data as Record<string, unknown>;
+  const isLine = (v: unknown) => typeof v === "number" && Number.isInteger(v) && v >= 1;
+  if (
+    typeof obj.file !== "string" ||
+    typeof obj.absPath !== "string" ||
+    !isLine(obj.line) ||
+    !isLine(obj.startLine) ||
+    !isLine(obj.endLine) ||
+    (obj.endLine as number) < (obj.startLine as number)
+  ) {
+    return null;
+  }
+  return {
+    file: obj.file,
+    absPath: obj.absPath,
+    line: obj.line as number,
+    startLine: obj.startLine as number,
+    endLine: obj.endLine as number,
+    name: typeof obj.name === "string" ? obj.name : null,
+    sticky: obj.sticky === true,
+  };
+}
@@ -0,0 +1,196 @@
+import * as vscode from "vscode";
+import { HistoryEntry, SelectionHistory } from "./history";
+import { NormalizedFrame, Selection } from "./core/types";
+
+/* ------------------------------------------------------------------ */
+/*  Sidebar views                                                      */
+/*                                                                     */
+/*  - History: every selection, newest first (pin / delete / open).    */
+/*  - Stack: the frames of the current selection, with runs of         */
+/*    wrapper frames (providers, contexts, boundaries) collapsed.      */
+/* ------------------------------------------------------------------ */
+
+/** How the extension reads a selection's stack (path mapping + target algorithm). */
+export interface StackAnalysis {
+  frames: NormalizedFrame[];
+  rendered: NormalizedFrame | null;
+  usedIn: NormalizedFrame | null;
+  isWrapper: (frame: NormalizedFrame) => boolean;
+}
+
+export type Analyze = (sel: Selection) => StackAnalysis;
+
+export interface FrameNode {
+  kind: "frame";
+  entryId: string;
+  frame: NormalizedFrame;
+  target: "rendered" | "usedIn" | null;
+}
+
+export interface WrapperGroupNode {
+  kind: "wrappers";
+  entryId: string;
+  children: FrameNode[];
+}
+
+export type StackNode = FrameNode | WrapperGroupNode;
+
+/** "file:line:col", or just the file when the page didn't know the position (line 0). */
+export function framePosition(frame: NormalizedFrame): string {
+  return frame.line >= 1 ? `${frame.normalizedFile}:${frame.line}:${frame.col}` : frame.normalizedFile;
+}
+
+function frameLabel(frame: NormalizedFrame): string {
+  return frame.name ?? "(anonymous)";
+}
+
+function formatTime(ms: number): string {
+  const d = new Date(ms);
+  return d.toDateString() === new Date().toDateString()
+    ? d.toLocaleTimeString()
+    : d.toLocaleString();
+}
+
+/* ------------------------------------------------------------------ */
+/*  History                                                            */
+/* ------------------------------------------------------------------ */
+
+export class HistoryTreeProvider implements vscode.TreeDataProvider<HistoryEntry> {
+  private emitter = new vscode.EventEmitter<void>();
+  readonly onDidChangeTreeData = this.emitter.event;
+
+  constructor(
+    private history: SelectionHistory,
+    private analyze: Analyze,
+    private getCurrentId: () => string | null
+  ) {
+    history.onDidChange(() => this.refresh());
+  }
+
+  refresh(): void {
+    this.emitter.fire();
+  }
+
+  getChildren(element?: HistoryEntry): HistoryEntry[] {
+    return element ? [] : this.history.list();
+  }
+
+  getTreeItem(entry: HistoryEntry): vscode.TreeItem {
+    const sel = entry.selection;
+    const { rendered } = this.analyze(sel);
+    const item = new vscode.TreeItem(sel.domLabel ?? "(unknown element)");
+    item.id = entry.id;
+    item.description = [rendered ? frameLabel(rendered) : null, formatTime(entry.receivedAt)]
+      .filter(Boolean)
+      .join(" · ");
+
+    const tooltip = new vscode.MarkdownString();
+    tooltip.appendMarkdown(`**${sel.domLabel ?? "(unknown element)"}**\n\n`);
+    if (rendered) {
+      tooltip.appendMarkdown(`Rendered by \`${frameLabel(rendered)}\` — ${rendered.normalizedFile}:${rendered.line}\n\n`);
+    }
+    if (sel.pageUrl) {
+      tooltip.appendMarkdown(`Page: ${sel.pageUrl}\n\n`);
+    }
+    tooltip.appendMarkdown(`${formatTime(entry.receivedAt)} · ${sel.frames.length} frame(s)`);
+    item.tooltip = tooltip;
+
+    const current = entry.id === this.getCurrentId();
+    item.iconPath = new vscode.ThemeIcon(
+      entry.pinned ? "pinned" : "history",
+      current ? new vscode.ThemeColor("charts.blue") : undefined
+    );
+    item.contextValue = entry.pinned ? "historyEntry.pinned" : "historyEntry";
+    item.command = {
+      command: "reactGrab.history.select",
+      title: "Open Rendered By",
+      arguments: [entry],
+    };
+    return item;
+  }
+}
+
+/* ------------------------------------------------------------------ */
+/*  Component stack                                                    */
+/* ------------------------------------------------------------------ */
+
+export class StackTreeProvider implements vscode.TreeDataProvider<StackNode> {
+  private emitter = new vscode.EventEmitter<void>();
+  readonly onDidChangeTreeData = this.emitter.event;
+
+  constructor(
+    private getEntry: () => HistoryEntry | undefined,
+    private analyze: Analyze
+  ) {}
+
+  refresh(): void {
+    this.emitter.fire();
+  }
+
+  getChildren(element?: StackNode): StackNode[] {
+    if (element) {
+      return element.kind === "wrappers" ? element.children : [];
+    }
+    const entry = this.getEntry();
+    if (!entry) {
+      return [];
+    }
+    const { frames, rendered, usedIn, isWrapper } = this.analyze(entry.selection);
+
+    // Consecutive wrapper frames become one collapsed group; the targets
+    // themselves always stay visible
+    const nodes: StackNode[] = [];
+    let group: WrapperGroupNode | null = null;
+    for (const frame of frames) {
+      const target = frame === rendered ? "rendered" : frame === usedIn ? "usedIn" : null;
+      const node: FrameNode = { kind: "frame", entryId: entry.id, frame, target };
+      if (target === null && isWrapper(frame)) {
+        if (!group) {
+          group = { kind: "wrappers", entryId: entry.id, children: [] };
+          nodes.push(group);
+        }
+        group.children.push(node);
+      } else {
+        group = null;
+        nodes.push(node);
+      }
+    }
+    return nodes;
+  }
+
+  getTreeItem(node: StackNode): vscode.TreeItem {
+    if (node.kind === "wrappers") {
+      const item = new vscode.TreeItem(
+        node.children.length === 1 ? "1 wrapper" : `${node.children.length} wrappers`,
+        vscode.TreeItemCollapsibleState.Collapsed
+      );
+      item.description = node.children.map((c) => frameLabel(c.frame)).join(", ");
+      item.iconPath = new vscode.ThemeIcon("layers");
+      item.contextValue = "wrapperGroup";
+      return item;
+    }
+
+    const f = node.frame;
+    const item = new vscode.TreeItem(frameLabel(f));
+    item.description = framePosition(f);
+    item.tooltip = f.generated
+      ? `${f.raw}\n${f.generated.file}:${f.generated.line}:${f.generated.col} → ${framePosition(f)}`
+      : f.raw;
+    item.iconPath = new vscode.ThemeIcon(
+      node.target === "rendered"
+        ? "arrow-right"
+        : node.target === "usedIn"
+          ? "arrow-up"
+          : f.isProject
+            ? "symbol-class"
+            : "library"
+    );
+    item.contextValue = "stackFrame";
+    item.command = {
+      command: "reactGrab.openStackFrame",
+      title: "Open Frame",
+      arguments: [node],
+    };
+    return item;
+  }
+}
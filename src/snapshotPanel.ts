@@ -0,0 +1,191 @@
+import * as vscode from "vscode";
+import { ComponentSnapshot, SnapshotValue } from "./core/types";
+
+/* ------------------------------------------------------------------ */
+/*  Props / state / hooks panel                                        */
+/*                                                                     */
+/*  Renders the snapshot the browser sent with a selection as a        */
+/*  collapsible tree. Static HTML only (<details>), no scripts.        */
+/* ------------------------------------------------------------------ */
+
+/** Objects/arrays nested deeper than this start collapsed. */
+const OPEN_DEPTH = 1;
+
+function escapeHtml(text: string): string {
+  return text
+    .replace(/&/g, "&amp;")
+    .replace(/</g, "&lt;")
+    .replace(/>/g, "&gt;")
+    .replace(/"/g, "&quot;");
+}
+
+function isPlaceholder(v: SnapshotValue): v is { [key: string]: SnapshotValue } & { $rg: string } {
+  return typeof v === "object" && v !== null && !Array.isArray(v) && typeof v.$rg === "string";
+}
+
+/** One-line text for a `{ $rg }` placeholder. */
+function describePlaceholder(v: { [key: string]: SnapshotValue }): string {
+  const str = (key: string) => String(v[key] ?? "");
+  switch (v.$rg) {
+    case "function":
+      return `ƒ ${str("name")}()`;
+    case "element":
+      return `<${str("type")} />`;
+    case "node":
+      return `DOM ${str("label")}`;
+    case "circular":
+      return "[Circular]";
+    case "depth":
+      return `${str("summary")} …`;
+    case "more":
+      return `… ${str("count")} more`;
+    case "undefined":
+      return "undefined";
+    case "symbol":
+      return `Symbol(${str("description")})`;
+    case "bigint":
+      return `${str("value")}n`;
+    case "number":
+    case "date":
+    case "regexp":
+      return str("value");
+    case "error":
+      return `${str("name")}: ${str("message")}`;
+    case "omitted":
+      return "(too large to send)";
+    default:
+      return `[${str("$rg")}]`;
+  }
+}
+
+function renderPrimitive(v: SnapshotValue): string {
+  if (v === null) {
+    return `<span class="null">null</span>`;
+  }
+  if (typeof v === "string") {
+    return `<span class="string">"${escapeHtml(v)}"</span>`;
+  }
+  if (typeof v === "number" || typeof v === "boolean") {
+    return `<span class="number">${String(v)}</span>`;
+  }
+  return `<span class="special">${escapeHtml(describePlaceholder(v as { [key: string]: SnapshotValue }))}</span>`;
+}
+
+function renderValue(v: SnapshotValue, depth: number): string {
+  let entries: [string, SnapshotValue][];
+  let summary: string;
+  if (Array.isArray(v)) {
+    entries = v.map((item, i) => [String(i), item]);
+    summary = `Array(${v.length})`;
+  } else if (isPlaceholder(v) && v.$rg === "map" && Array.isArray(v.entries)) {
+    entries = v.entries.map((pair) =>
+      Array.isArray(pair) ? [renderKey(pair[0]), pair[1]] : ["?", pair]
+    );
+    summary = `Map(${v.entries.length})`;
+  } else if (isPlaceholder(v) && v.$rg === "set" && Array.isArray(v.values)) {
+    entries = v.values.map((item, i) => [String(i), item]);
+    summary = `Set(${v.values.length})`;
+  } else if (typeof v === "object" && v !== null && !isPlaceholder(v)) {
+    entries = Object.entries(v);
+    summary = entries.length === 0 ? "{}" : `{…} ${entries.length} key${entries.length === 1 ? "" : "s"}`;
+  } else {
+    return renderPrimitive(v);
+  }
+
+  if (entries.length === 0) {
+    return `<span class="special">${escapeHtml(summary)}</span>`;
+  }
+  const rows = entries
+    .map(([k, child]) => `<li><span class="key">${escapeHtml(k)}</span>: ${renderValue(child, depth + 1)}</li>`)
+    .join("");
+  return `<details${depth < OPEN_DEPTH ? " open" : ""}><summary>${escapeHtml(summary)}</summary><ul>${rows}</ul></details>`;
+}
+
+function renderKey(k: SnapshotValue): string {
+  if (typeof k === "string") {
+    return k;
+  }
+  return isPlaceholder(k) ? describePlaceholder(k) : JSON.stringify(k);
+}
+
+function renderSection(title: string, body: string): string {
+  return `<section><h2>${escapeHtml(title)}</h2>${body}</section>`;
+}
+
+function renderHtml(snapshot: ComponentSnapshot, subtitle: string): string {
+  const sections: string[] = [renderSection("Props", renderValue(snapshot.props, 0))];
+  if (snapshot.state !== undefined) {
+    sections.push(renderSection("State", renderValue(snapshot.state, 0)));
+  }
+  if (snapshot.hooks && snapshot.hooks.length > 0) {
+    const rows = snapshot.hooks
+      .map((h, i) => `<li><span class="key">${i + 1}. ${escapeHtml(h.name)}</span>: ${renderValue(h.value, 1)}</li>`)
+      .join("");
+    sections.push(renderSection("Hooks", `<ul class="top">${rows}</ul>`));
+  }
+
+  return `<!DOCTYPE html>
+<html lang="en">
+<head>
+<meta charset="UTF-8">
+<meta http-equiv="Content-Security-Policy" content="default-src 'none'; style-src 'unsafe-inline';">
+<style>
+  body { font-family: var(--vscode-editor-font-family); font-size: var(--vscode-editor-font-size); color: var(--vscode-foreground); }
+  h1 { font-size: 1.3em; margin-bottom: 0; }
+  h2 { font-size: 1em; text-transform: uppercase; opacity: 0.7; margin: 1.2em 0 0.4em; }
+  .subtitle { opacity: 0.7; margin-top: 0.2em; }
+  .note { color: var(--vscode-editorWarning-foreground); }
+  ul { list-style: none; margin: 0; padding-left: 1.2em; }
+  ul.top { padding-left: 0; }
+  summary { cursor: pointer; opacity: 0.8; }
+  .key { color: var(--vscode-symbolIcon-propertyForeground, var(--vscode-foreground)); }
+  .string { color: var(--vscode-debugTokenExpression-string); }
+  .number { color: var(--vscode-debugTokenExpression-number); }
+  .null, .special { color: var(--vscode-debugTokenExpression-value); font-style: italic; }
+</style>
+</head>
+<body>
+<h1>&lt;${escapeHtml(snapshot.component ?? "Anonymous")} /&gt;</h1>
+<div class="subtitle">${escapeHtml(subtitle)}</div>
+${snapshot.truncated ? `<p class="note">Snapshot was shortened to fit the size limit.</p>` : ""}
+${sections.join("\n")}
+</body>
+</html>`;
+}
+
+/** Single panel, reused for every snapshot. */
+export class SnapshotPanel {
+  private static current: SnapshotPanel | undefined;
+
+  private constructor(private panel: vscode.WebviewPanel) {
+    panel.onDidDispose(() => {
+      SnapshotPanel.current = undefined;
+    });
+  }
+
+  /** Show a snapshot, opening the panel beside the editor if needed. */
+  static show(snapshot: ComponentSnapshot, subtitle: string): void {
+    if (!SnapshotPanel.current) {
+      const panel = vscode.window.createWebviewPanel(
+        "reactGrab.snapshot",
+        "React Grab: Props & State",
+        { viewColumn: vscode.ViewColumn.Beside, preserveFocus: true },
+        { enableScripts: false }
+      );
+      SnapshotPanel.current = new SnapshotPanel(panel);
+    } else {
+      SnapshotPanel.current.panel.reveal(undefined, true);
+    }
+    SnapshotPanel.current.update(snapshot, subtitle);
+  }
+
+  /** Refresh the panel if it's open (new selection arrived). */
+  static updateIfOpen(snapshot: ComponentSnapshot, subtitle: string): void {
+    SnapshotPanel.current?.update(snapshot, subtitle);
+  }
+
+  private update(snapshot: ComponentSnapshot, subtitle: string): void {
+    this.panel.title = `Props: ${snapshot.component ?? "Anonymous"}`;
+    this.panel.webview.html = renderHtml(snapshot, subtitle);
+  }
+}
@@ -0,0 +1,281 @@
+import * as vscode from "vscode";
+import * as path from "path";
+import { execFile } from "child_process";
+import { hashLine } from "../browser-bridge/protocol";
+
+/* ------------------------------------------------------------------ */
+/*  Stale line correction                                              */
+/*                                                                     */
+/*  Frame positions describe the source the page was built from. If    */
+/*  the file was edited since (and HMR didn't refresh the fibers), the */
+/*  line/col point at the wrong code. When the browser sends a snippet */
+/*  (or a hash) of the source around each frame we check it against   */
+/*  the current document and relocate the position if needed.          */
+/* ------------------------------------------------------------------ */
+
+/* ------------------------------------------------------------------ */
+/*  Types                                                              */
+/* ------------------------------------------------------------------ */
+
+/** Source text the page saw: `lines[i]` is line `startLine + i` (1-based). */
+export interface SourceContext {
+  startLine: number;
+  lines: string[];
+}
+
+export interface PositionCheck {
+  context?: SourceContext;
+  /** `hashLine()` of the frame's own line. */
+  lineHash?: string;
+  /** When the page loaded (ms since epoch); edits after this are replayed. */
+  pageLoadedAt?: number;
+}
+
+export type CheckStatus =
+  /** Nothing to compare against. */
+  | "unchecked"
+  /** Snippet matches at the reported line. */
+  | "verified"
+  /** Snippet found at a different line. */
+  | "relocated"
+  /** Snippet not found; line shifted by edit history / git diff only. */
+  | "approximate"
+  /** Snippet not found and no way to shift the line. */
+  | "unverified";
+
+export interface CheckedPosition {
+  line: number;
+  col: number;
+  status: CheckStatus;
+}
+
+interface LineEdit {
+  time: number;
+  /** 1-based first line touched by the edit. */
+  startLine: number;
+  /** Lines removed (counting the partially edited ones). */
+  oldLines: number;
+  /** Lines inserted in their place. */
+  newLines: number;
+}
+
+/* ------------------------------------------------------------------ */
+/*  Constants                                                          */
+/* ------------------------------------------------------------------ */
+
+/** How far (in lines) from the predicted line a snippet may be found. */
+const SEARCH_RADIUS = 300;
+const MAX_EDITS_PER_FILE = 500;
+
+/* ------------------------------------------------------------------ */
+/*  Edit history                                                       */
+/* ------------------------------------------------------------------ */
+
+/**
+ * Records line-count changes for every document edit (including unsaved
+ * ones) so an old line number can be replayed forward.
+ */
+export class EditHistory implements vscode.Disposable {
+  private edits = new Map<string, LineEdit[]>();
+  private subscription: vscode.Disposable;
+
+  constructor() {
+    this.subscription = vscode.workspace.onDidChangeTextDocument((e) => {
+      if (e.contentChanges.length === 0) {
+        return;
+      }
+      const key = e.document.uri.toString();
+      const list = this.edits.get(key) ?? [];
+      const time = Date.now();
+      // contentChanges are non-overlapping; apply bottom-up so earlier
+      // ranges stay valid
+      const changes = [...e.contentChanges].sort(
+        (a, b) => b.range.start.line - a.range.start.line
+      );
+      for (const c of changes) {
+        list.push({
+          time,
+          startLine: c.range.start.line + 1,
+          oldLines: c.range.end.line - c.range.start.line + 1,
+          newLines: c.text.split("\n").length,
+        });
+      }
+      if (list.length > MAX_EDITS_PER_FILE) {
+        list.splice(0, list.length - MAX_EDITS_PER_FILE);
+      }
+      this.edits.set(key, list);
+    });
+  }
+
+  /**
+   * Replay edits made after `since` on a 1-based line. Returns null if
+   * there were no such edits, or if the line itself was rewritten.
+   */
+  mapLine(uri: vscode.Uri, line: number, since: number): number | null {
+    const list = (this.edits.get(uri.toString()) ?? []).filter((e) => e.time >= since);
+    if (list.length === 0) {
+      return null;
+    }
+    let current = line;
+    for (const e of list) {
+      const end = e.startLine + e.oldLines - 1;
+      if (current > end) {
+        current += e.newLines - e.oldLines;
+      } else if (current >= e.startLine && e.oldLines > 1) {
+        // Inside a multi-line replacement — can't know where it went
+        return null;
+      }
+    }
+    return current;
+  }
+
+  dispose(): void {
+    this.subscription.dispose();
+    this.edits.clear();
+  }
+}
+
+/* ------------------------------------------------------------------ */
+/*  Git diff hunks                                                     */
+/* ------------------------------------------------------------------ */
+
+/**
+ * Map a line of the file as committed in HEAD to the working tree, using
+ * `git diff -U0`. Resolves null outside a repo or when the line was changed.
+ */
+export function mapLineThroughGit(absPath: string, line: number): Promise<number | null> {
+  return new Promise((resolve) => {
+    execFile(
+      "git",
+      ["diff", "--no-color", "--no-ext-diff", "-U0", "HEAD", "--", path.basename(absPath)],
+      { cwd: path.dirname(absPath), timeout: 3000, maxBuffer: 4 * 1024 * 1024 },
+      (err, stdout) => {
+        if (err || !stdout) {
+          resolve(null);
+          return;
+        }
+        let offset = 0;
+        for (const m of stdout.matchAll(/^@@ -(\d+)(?:,(\d+))? \+(\d+)(?:,(\d+))? @@/gm)) {
+          const oldStart = Number(m[1]);
+          const oldCount = m[2] === undefined ? 1 : Number(m[2]);
+          const newCount = m[4] === undefined ? 1 : Number(m[4]);
+          // For pure insertions oldStart is the line *before* the insertion
+          const firstOld = oldCount === 0 ? oldStart + 1 : oldStart;
+          if (line < firstOld) {
+            break;
+          }
+          if (line < firstOld + oldCount) {
+            resolve(null);
+            return;
+          }
+          offset += newCount - oldCount;
+        }
+        resolve(line + offset);
+      }
+    );
+  });
+}
+
+/* ------------------------------------------------------------------ */
+/*  Verification                                                       */
+/* ------------------------------------------------------------------ */
+
+function normalize(text: string): string {
+  return text.trim().replace(/\s+/g, " ");
+}
+
+/** Does the context match the document with its frame line placed at `line`? */
+function contextMatchesAt(
+  doc: vscode.TextDocument,
+  ctx: SourceContext,
+  frameLine: number,
+  line: number
+): boolean {
+  const shift = line - frameLine;
+  let compared = 0;
+  for (let i = 0; i < ctx.lines.length; i++) {
+    const docLine = ctx.startLine + i + shift;
+    if (docLine < 1 || docLine > doc.lineCount) {
+      return false;
+    }
+    const expected = normalize(ctx.lines[i]);
+    if (expected.length === 0) {
+      continue; // blank lines carry no signal
+    }
+    if (normalize(doc.lineAt(docLine - 1).text) !== expected) {
+      return false;
+    }
+    compared++;
+  }
+  return compared > 0;
+}
+
+function lineMatchesAt(
+  doc: vscode.TextDocument,
+  check: PositionCheck,
+  frameLine: number,
+  line: number
+): boolean {
+  if (check.context && check.context.lines.length > 0) {
+    return contextMatchesAt(doc, check.context, frameLine, line);
+  }
+  if (check.lineHash && line >= 1 && line <= doc.lineCount) {
+    return hashLine(doc.lineAt(line - 1).text) === check.lineHash;
+  }
+  return false;
+}
+
+/** Nearest line to `predicted` where the snippet matches, searching outward. */
+function searchNear(
+  doc: vscode.TextDocument,
+  check: PositionCheck,
+  frameLine: number,
+  predicted: number
+): number | null {
+  for (let d = 0; d <= SEARCH_RADIUS; d++) {
+    for (const line of d === 0 ? [predicted] : [predicted - d, predicted + d]) {
+      if (line >= 1 && line <= doc.lineCount && lineMatchesAt(doc, check, frameLine, line)) {
+        return line;
+      }
+    }
+  }
+  return null;
+}
+
+/**
+ * Check a frame position against the current document (unsaved edits
+ * included) and relocate it when the source moved.
+ */
+export async function checkPosition(
+  doc: vscode.TextDocument,
+  line: number,
+  col: number,
+  check: PositionCheck,
+  history: EditHistory
+): Promise<CheckedPosition> {
+  const hasSnippet = (check.context?.lines.length ?? 0) > 0 || !!check.lineHash;
+  if (!hasSnippet) {
+    return { line, col, status: "unchecked" };
+  }
+  if (lineMatchesAt(doc, check, line, line)) {
+    return { line, col, status: "verified" };
+  }
+
+  // Predict where the line went: unsaved/recent edits first, then git
+  let predicted: number | null = null;
+  if (check.pageLoadedAt !== undefined) {
+    predicted = history.mapLine(doc.uri, line, check.pageLoadedAt);
+  }
+  if (predicted === null && doc.uri.scheme === "file") {
+    predicted = await mapLineThroughGit(doc.uri.fsPath, line);
+  }
+
+  const found = searchNear(doc, check, line, predicted ?? line);
+  if (found !== null) {
+    return { line: found, col, status: "relocated" };
+  }
+  if (predicted !== null && predicted !== line) {
+    return { line: predicted, col, status: "approximate" };
+  }
+  return { line, col, status: "unverified" };
+}
@@ -0,0 +1,296 @@
+import * as vscode from "vscode";
+import * as fs from "fs";
+import * as path from "path";
+import { ElementStyles } from "./core/types";
+
+/* ------------------------------------------------------------------ */
+/*  Open Styles                                                        */
+/*                                                                     */
+/*  Turns the class list and matched rules the browser sent into       */
+/*  source locations:                                                  */
+/*  - rules from stylesheets the dev server tells us the path of       */
+/*  - CSS Modules (hashed class → local name → `.local` in *.module.*) */
+/*  - plain classes in .css/.scss/.sass/.less files                    */
+/*  - styled-components / emotion labels → `const Label = styled…`     */
+/*  - class strings (Tailwind or plain) in the selection's own files   */
+/* ------------------------------------------------------------------ */
+
+export type StyleKind = "rule" | "module" | "class" | "styled" | "classString";
+
+export interface StyleCandidate {
+  kind: StyleKind;
+  /** What was found, e.g. ".primary" or "StyledButton". */
+  label: string;
+  absPath: string;
+  /** 1-based. */
+  line: number;
+  col: number;
+  /** Extra context for the QuickPick (the hashed name, the matched line…). */
+  detail?: string;
+}
+
+interface ModuleClass {
+  local: string;
+  /** Stylesheet base name when the hash pattern includes it ("Button" for Button.module.css). */
+  file: string | null;
+}
+
+const STYLESHEET_GLOB = "**/*.{css,scss,sass,less}";
+const STYLED_GLOB = "**/*.{styles,styled,style,css}.{ts,tsx,js,jsx}";
+const SEARCH_EXCLUDE = "**/{node_modules,.git,.next,.turbo,dist,build,out,coverage}/**";
+const MAX_FILES = 2000;
+const MAX_FILE_BYTES = 512 * 1024;
+/** Per kind, so one noisy source can't crowd out the rest. */
+const MAX_PER_KIND = 20;
+const MAX_CLASS_STRINGS = 5;
+
+/* ------------------------------------------------------------------ */
+/*  Class name decoding                                                */
+/* ------------------------------------------------------------------ */
+
+/**
+ * Recover the local name from a CSS Modules class:
+ *   Button_primary__a1B2c        (Next.js, CRA: [name]_[local]__[hash])
+ *   Button-module__primary--a1B2c (css-loader: [path][name]__[local]--[hash])
+ *   _primary_1x2y3_12            (Vite: _[local]_[hash]_[line])
+ */
+export function decodeModuleClass(name: string): ModuleClass | null {
+  let m = name.match(/^([A-Za-z0-9-]+?)(?:-module)?__([A-Za-z_][\w-]*?)--[\w-]{5,}$/);
+  if (m) {
+    return { local: m[2], file: m[1] };
+  }
+  m = name.match(/^([A-Za-z0-9-]+)_([A-Za-z_][\w-]*?)__[\w-]{5,}$/);
+  if (m) {
+    return { local: m[2], file: m[1] };
+  }
+  m = name.match(/^_([A-Za-z_][\w-]*?)_[a-z0-9]{5}_\d+$/);
+  if (m) {
+    return { local: m[1], file: null };
+  }
+  return null;
+}
+
+/**
+ * Component label baked into a CSS-in-JS class, if any:
+ *   Button__Wrapper-sc-1h74p5n-0  (styled-components with displayName)
+ *   Wrapper-sc-1h74p5n-0
+ *   css-1u8qly9-Wrapper           (emotion with labels)
+ */
+export function cssInJsLabel(name: string): string | null {
+  let m = name.match(/^(?:[\w$]+__)?([A-Za-z_$][\w$]*)-sc-[\w]+(?:-\d+)?$/);
+  if (m) {
+    return m[1];
+  }
+  m = name.match(/^css-[a-z0-9]+-([A-Za-z_$][\w$]*)$/);
+  return m ? m[1] : null;
+}
+
+/** Generated names that carry no source information (styled-components / emotion hashes). */
+function isOpaqueGenerated(name: string): boolean {
+  return /^(sc-|css-)[\w-]+$/.test(name) && cssInJsLabel(name) === null;
+}
+
+/* ------------------------------------------------------------------ */
+/*  Text search helpers                                                */
+/* ------------------------------------------------------------------ */
+
+function escapeRegExp(text: string): string {
+  return text.replace(/[.*+?^${}()|[\]\\]/g, "\\$&");
+}
+
+/** `.name` as a class selector, not a prefix of a longer one. */
+function classSelectorRegExp(name: string): RegExp {
+  return new RegExp(`\\.${escapeRegExp(name)}(?![\\w-])`, "g");
+}
+
+function positionAt(text: string, index: number): { line: number; col: number } {
+  let line = 1;
+  let lineStart = 0;
+  for (let i = text.indexOf("\n"); i !== -1 && i < index; i = text.indexOf("\n", i + 1)) {
+    line++;
+    lineStart = i + 1;
+  }
+  return { line, col: index - lineStart + 1 };
+}
+
+function lineAt(text: string, line: number): string {
+  return (text.split("\n")[line - 1] ?? "").trim();
+}
+
+/** Reads files once per search (open documents win over disk, so unsaved edits count). */
+class TextCache {
+  private texts = new Map<string, string | null>();
+
+  async get(absPath: string): Promise<string | null> {
+    if (this.texts.has(absPath)) {
+      return this.texts.get(absPath) ?? null;
+    }
+    let text: string | null = null;
+    const open = vscode.workspace.textDocuments.find((d) => d.uri.fsPath === absPath);
+    if (open) {
+      text = open.getText();
+    } else {
+      try {
+        const stat = await fs.promises.stat(absPath);
+        if (stat.size <= MAX_FILE_BYTES) {
+          text = await fs.promises.readFile(absPath, "utf8");
+        }
+      } catch {
+        // unreadable — skip
+      }
+    }
+    this.texts.set(absPath, text);
+    return text;
+  }
+}
+
+async function listFiles(glob: string): Promise<string[]> {
+  const uris = await vscode.workspace.findFiles(glob, SEARCH_EXCLUDE, MAX_FILES);
+  return uris.map((u) => u.fsPath);
+}
+
+/* ------------------------------------------------------------------ */
+/*  Search                                                             */
+/* ------------------------------------------------------------------ */
+
+/**
+ * Find where an element's styles are defined. `frameFiles` are the
+ * absolute paths of the selection's project frames (rendered-by first);
+ * `resolveSource` maps a rule's stylesheet URL / dev-server path to a
+ * workspace file.
+ */
+export async function findStyleCandidates(
+  styles: ElementStyles,
+  frameFiles: string[],
+  resolveSource: (source: string) => string | null
+): Promise<StyleCandidate[]> {
+  const texts = new TextCache();
+  const out: StyleCandidate[] = [];
+  const seen = new Set<string>();
+  const counts = new Map<StyleKind, number>();
+  const add = (c: StyleCandidate) => {
+    const key = `${c.absPath}:${c.line}`;
+    const n = counts.get(c.kind) ?? 0;
+    if (seen.has(key) || n >= MAX_PER_KIND) {
+      return;
+    }
+    seen.add(key);
+    counts.set(c.kind, n + 1);
+    out.push(c);
+  };
+
+  const modules: { name: string; decoded: ModuleClass }[] = [];
+  const labels = new Set<string>();
+  const plain: string[] = [];
+  for (const name of styles.classList) {
+    const decoded = decodeModuleClass(name);
+    const label = decoded ? null : cssInJsLabel(name);
+    if (decoded) {
+      modules.push({ name, decoded });
+    } else if (label) {
+      labels.add(label);
+    } else if (!isOpaqueGenerated(name)) {
+      plain.push(name);
+    }
+  }
+
+  // 1. Matched rules whose stylesheet we can locate
+  for (const rule of styles.rules) {
+    const absPath = rule.source ? resolveSource(rule.source) : null;
+    const text = absPath ? await texts.get(absPath) : null;
+    if (!absPath || text === null) {
+      continue;
+    }
+    // Exact selector first, then its last class (Sass nesting rewrites selectors)
+    let index = text.indexOf(rule.selector);
+    if (index === -1) {
+      const lastClass = rule.selector.match(/\.([\w-]+)(?![\s\S]*\.[\w-])/)?.[1];
+      const decoded = lastClass ? decodeModuleClass(lastClass) : null;
+      const name = decoded?.local ?? lastClass;
+      index = name ? text.search(classSelectorRegExp(name)) : -1;
+    }
+    if (index !== -1) {
+      const pos = positionAt(text, index);
+      add({ kind: "rule", label: rule.selector, absPath, ...pos, detail: lineAt(text, pos.line) });
+    }
+  }
+
+  // 2. CSS Modules and plain classes across the workspace's stylesheets
+  const stylesheets = modules.length > 0 || plain.length > 0 ? await listFiles(STYLESHEET_GLOB) : [];
+  for (const { name, decoded } of modules) {
+    // Prefer the module file named in the hash pattern (Button_x__hash → Button.module.*)
+    const moduleFiles = stylesheets.filter((f) => /\.module\.\w+$/.test(f));
+    const named = decoded.file
+      ? moduleFiles.filter((f) => path.basename(f).split(".")[0] === decoded.file)
+      : [];
+    for (const file of named.length > 0 ? named : moduleFiles) {
+      const text = await texts.get(file);
+      const index = text?.search(classSelectorRegExp(decoded.local)) ?? -1;
+      if (text && index !== -1) {
+        add({ kind: "module", label: `.${decoded.local}`, absPath: file, ...positionAt(text, index), detail: name });
+      }
+    }
+  }
+  // Tailwind utilities are generated, so they simply find nothing here
+  for (const name of plain) {
+    for (const file of stylesheets) {
+      const text = await texts.get(file);
+      const index = text?.search(classSelectorRegExp(name)) ?? -1;
+      if (text && index !== -1) {
+        const pos = positionAt(text, index);
+        add({ kind: "class", label: `.${name}`, absPath: file, ...pos, detail: lineAt(text, pos.line) });
+      }
+    }
+  }
+
+  // 3. styled-components / emotion definitions: the selection's files, then *.styles.* files
+  if (labels.size > 0) {
+    const files = [...new Set([...frameFiles, ...(await listFiles(STYLED_GLOB))])];
+    for (const label of labels) {
+      const re = new RegExp(
+        `\\b(?:const|let|var)\\s+${escapeRegExp(label)}\\s*(?::[^=]+)?=\\s*(?:styled|css|keyframes|newStyled)\\b`
+      );
+      for (const file of files) {
+        const text = await texts.get(file);
+        const index = text?.search(re) ?? -1;
+        if (text && index !== -1) {
+          const pos = positionAt(text, index);
+          add({ kind: "styled", label, absPath: file, ...pos, detail: lineAt(text, pos.line) });
+        }
+      }
+    }
+  }
+
+  // 4. Where the class string itself is written (Tailwind, or plain classes)
+  if (plain.length > 0) {
+    const wanted = new Set(plain);
+    const lines: StyleCandidate[] = [];
+    for (const file of frameFiles) {
+      const text = await texts.get(file);
+      if (!text) {
+        continue;
+      }
+      text.split("\n").forEach((lineText, i) => {
+        // Score each line by how many of the element's classes it mentions
+        const tokens = lineText.match(/[!\w:./[\]#%(),-]+/g) ?? [];
+        const hits = new Set(tokens.filter((t) => wanted.has(t))).size;
+        if (hits > 0 && (hits >= 2 || wanted.size === 1)) {
+          const col = Math.max(1, lineText.search(/\S/) + 1);
+          lines.push({
+            kind: "classString",
+            label: `${hits}/${wanted.size} classes`,
+            absPath: file,
+            line: i + 1,
+            col,
+            detail: lineText.trim(),
+          });
+        }
+      });
+    }
+    const score = (c: StyleCandidate) => Number(c.label.split("/")[0]);
+    lines.sort((a, b) => score(b) - score(a));
+    lines.slice(0, MAX_CLASS_STRINGS).forEach(add);
+  }
+
+  return out;
+}
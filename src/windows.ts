@@ -0,0 +1,228 @@
+import * as http from "http";
+
+/* ------------------------------------------------------------------ */
+/*  Multi-window routing                                               */
+/*                                                                     */
+/*  One VS Code window owns the public port (the "primary"). Every     */
+/*  other window listens on an ephemeral port and registers itself     */
+/*  with the primary, which forwards each selection to the window      */
+/*  whose workspace folders can resolve it.                            */
+/* ------------------------------------------------------------------ */
+
+/* ------------------------------------------------------------------ */
+/*  Types                                                              */
+/* ------------------------------------------------------------------ */
+
+export interface WindowInfo {
+  /** Stable per-window id (vscode.env.sessionId). */
+  id: string;
+  /** Port of the window's private HTTP server. */
+  port: number;
+  /** Absolute workspace folder paths. */
+  folders: string[];
+}
+
+interface RegisteredWindow extends WindowInfo {
+  lastSeen: number;
+}
+
+export interface JsonResponse {
+  status: number;
+  body: unknown;
+}
+
+/* ------------------------------------------------------------------ */
+/*  Constants                                                          */
+/* ------------------------------------------------------------------ */
+
+export const HEARTBEAT_MS = 5000;
+/** A window that misses this many heartbeats is dropped. */
+const STALE_MS = HEARTBEAT_MS * 3;
+const REQUEST_TIMEOUT_MS = 2000;
+
+/* ------------------------------------------------------------------ */
+/*  HTTP helper                                                        */
+/* ------------------------------------------------------------------ */
+
+/** Minimal JSON request against a local bridge. Rejects on network errors only. */
+export function requestJson(
+  port: number,
+  method: "GET" | "POST",
+  urlPath: string,
+  body?: unknown,
+  headers: Record<string, string> = {}
+): Promise<JsonResponse> {
+  return new Promise((resolve, reject) => {
+    const data = body === undefined ? undefined : JSON.stringify(body);
+    const req = http.request(
+      {
+        hostname: "127.0.0.1",
+        port,
+        path: urlPath,
+        method,
+        timeout: REQUEST_TIMEOUT_MS,
+        headers: {
+          ...headers,
+          ...(data !== undefined
+            ? {
+                "Content-Type": "application/json",
+                "Content-Length": Buffer.byteLength(data),
+              }
+            : {}),
+        },
+      },
+      (res) => {
+        let text = "";
+        res.on("data", (chunk: Buffer) => (text += chunk.toString()));
+        res.on("end", () => {
+          let parsed: unknown = null;
+          try {
+            parsed = JSON.parse(text);
+          } catch {
+            parsed = text;
+          }
+          resolve({ status: res.statusCode ?? 0, body: parsed });
+        });
+      }
+    );
+    req.on("timeout", () => req.destroy(new Error("Request timed out")));
+    req.on("error", reject);
+    if (data !== undefined) {
+      req.write(data);
+    }
+    req.end();
+  });
+}
+
+/**
+ * True if a VS Code window's bridge answers `/health` on the given port.
+ * The standalone CLI answers too, but has no window registry to join.
+ */
+export async function isBridgeListening(port: number): Promise<boolean> {
+  try {
+    const res = await requestJson(port, "GET", "/health");
+    const body = res.body as { server?: string; role?: string } | null;
+    return body?.server === "react-grab-bridge" && body.role !== "standalone";
+  } catch {
+    return false;
+  }
+}
+
+/* ------------------------------------------------------------------ */
+/*  Primary side: registry                                             */
+/* ------------------------------------------------------------------ */
+
+export class WindowRegistry {
+  private windows = new Map<string, RegisteredWindow>();
+
+  register(info: WindowInfo): void {
+    this.windows.set(info.id, { ...info, lastSeen: Date.now() });
+  }
+
+  unregister(id: string): void {
+    this.windows.delete(id);
+  }
+
+  /** Live windows, stale entries pruned. */
+  list(): WindowInfo[] {
+    const cutoff = Date.now() - STALE_MS;
+    for (const [id, w] of this.windows) {
+      if (w.lastSeen < cutoff) {
+        this.windows.delete(id);
+      }
+    }
+    return [...this.windows.values()].map(({ id, port, folders }) => ({ id, port, folders }));
+  }
+
+  clear(): void {
+    this.windows.clear();
+  }
+}
+
+/** Validate a `/windows/register` body. */
+export function parseWindowInfo(data: unknown): WindowInfo | null {
+  if (typeof data !== "object" || data === null) {
+    return null;
+  }
+  const obj = data as Record<string, unknown>;
+  if (
+    typeof obj.id !== "string" ||
+    typeof obj.port !== "number" ||
+    !Number.isInteger(obj.port) ||
+    !Array.isArray(obj.folders) ||
+    !obj.folders.every((f) => typeof f === "string")
+  ) {
+    return null;
+  }
+  return { id: obj.id, port: obj.port, folders: obj.folders as string[] };
+}
+
+/* ------------------------------------------------------------------ */
+/*  Secondary side: heartbeat link to the primary                      */
+/* ------------------------------------------------------------------ */
+
+/**
+ * Keeps a secondary window registered with the primary. Registration
+ * doubles as the heartbeat; when the primary stops answering,
+ * `onPrimaryLost` fires so the window can try to take over the port.
+ */
+export class PrimaryLink {
+  private timer: ReturnType<typeof setInterval> | null = null;
+  private busy = false;
+
+  constructor(
+    readonly primaryPort: number,
+    private getInfo: () => WindowInfo,
+    private onPrimaryLost: () => Promise<void>,
+    private headers: () => Record<string, string> = () => ({})
+  ) {}
+
+  async start(): Promise<boolean> {
+    const ok = await this.register();
+    this.timer = setInterval(() => void this.tick(), HEARTBEAT_MS);
+    return ok;
+  }
+
+  stop(): void {
+    if (this.timer) {
+      clearInterval(this.timer);
+      this.timer = null;
+    }
+    requestJson(
+      this.primaryPort,
+      "POST",
+      "/windows/unregister",
+      { id: this.getInfo().id },
+      this.headers()
+    ).catch(() => undefined);
+  }
+
+  private async register(): Promise<boolean> {
+    try {
+      const res = await requestJson(
+        this.primaryPort,
+        "POST",
+        "/windows/register",
+        this.getInfo(),
+        this.headers()
+      );
+      return res.status === 200;
+    } catch {
+      return false;
+    }
+  }
+
+  private async tick(): Promise<void> {
+    if (this.busy) {
+      return;
+    }
+    this.busy = true;
+    try {
+      if (!(await this.register())) {
+        await this.onPrimaryLost();
+      }
+    } finally {
+      this.busy = false;
+    }
+  }
+}
@@ -0,0 +1,140 @@
+import { strict as assert } from "assert";
+import * as fs from "fs";
+import * as os from "os";
+import * as path from "path";
+import { after, before, describe, it } from "node:test";
+import * as ts from "typescript";
+import { createExtractionProgram, ExtractPlan, planExtraction } from "../src/core/extractComponent";
+
+const LIST = `import Badge, { format as fmt } from "./badge";
+
+const LIMIT = 3;
+
+interface Item {
+  id: number;
+  label: string;
+}
+
+function useToggle(): [boolean, (open: boolean) => void] {
+  return [false, () => {}];
+}
+
+export function List({ items, title }: { items: Item[]; title: string }) {
+  const [open, setOpen] = useToggle();
+  return (
+    <ul>
+      {items.map((item, key) => (
+        <li key={item.id} onClick={() => setOpen(!open)}>
+          <Badge>{fmt(item.label, LIMIT)}</Badge> {title} {key}
+        </li>
+      ))}
+    </ul>
+  );
+}
+`;
+
+const BADGE = `export default function Badge(props: { children?: unknown }) {
+  return null;
+}
+
+export function format(text: string, max: number): string {
+  return text.slice(0, max);
+}
+`;
+
+const JS_CARD = `export function Card({ user }) {
+  return (
+    <section>
+      <h2 className="title">{user.name}</h2>
+    </section>
+  );
+}
+`;
+
+describe("planExtraction", () => {
+  let dir: string;
+
+  before(() => {
+    dir = fs.mkdtempSync(path.join(os.tmpdir(), "react-grab-extract-"));
+    fs.writeFileSync(path.join(dir, "tsconfig.json"), JSON.stringify({ compilerOptions: { jsx: "react-jsx", strict: true } }));
+    fs.writeFileSync(path.join(dir, "badge.tsx"), BADGE);
+  });
+
+  after(() => {
+    fs.rmSync(dir, { recursive: true, force: true });
+  });
+
+  function plan(file: string, text: string, element: string, name: string): ExtractPlan {
+    const fileName = path.join(dir, file);
+    const program = createExtractionProgram(ts, fileName, text);
+    return planExtraction(ts, program, fileName, text.indexOf(element), {
+      name,
+      targetFile: path.join(dir, name + path.extname(file)),
+      indent: "  ",
+    });
+  }
+
+  /** The source text with `plan.sourceEdits` applied. */
+  function applied(text: string, result: ExtractPlan): string {
+    let out = text;
+    for (const edit of [...result.sourceEdits].reverse()) {
+      out = out.slice(0, edit.start) + edit.text + out.slice(edit.end);
+    }
+    return out;
+  }
+
+  it("turns names from the enclosing component into typed props", () => {
+    const result = plan("List.tsx", LIST, "<li", "ListItem");
+    assert.deepEqual(result.props, [
+      { name: "setOpen", prop: "setOpen", type: "(open: boolean) => void" },
+      { name: "open", prop: "open", type: "boolean" },
+      { name: "item", prop: "item", type: "Item" },
+      { name: "title", prop: "title", type: "string" },
+      // React keeps `key` to itself
+      { name: "key", prop: "keyProp", type: "number" },
+    ]);
+    assert.match(result.componentText, /export interface ListItemProps \{\n  setOpen: \(open: boolean\) => void;\n/);
+    assert.match(
+      result.componentText,
+      /export function ListItem\(\{ setOpen, open, item, title, keyProp \}: ListItemProps\) \{/
+    );
+    // The key stays at the call site, where the list needs it
+    assert.match(result.componentText, /<li onClick=\{\(\) => setOpen\(!open\)\}>/);
+    assert.match(result.componentText, /\{title\} \{keyProp\}/);
+  });
+
+  it("copies imports and imports module-level declarations from the source file", () => {
+    const result = plan("List.tsx", LIST, "<li", "ListItem");
+    assert.match(result.componentText, /^import Badge, \{ format as fmt \} from "\.\/badge";\n/);
+    assert.match(result.componentText, /import \{ LIMIT, type Item \} from "\.\/List";/);
+    assert.doesNotMatch(result.componentText, /useToggle/);
+  });
+
+  it("exports what the new file imports and replaces the element", () => {
+    const result = plan("List.tsx", LIST, "<li", "ListItem");
+    assert.deepEqual(
+      result.sourceEdits.map((e) => e.label),
+      ["Import ListItem", "Export LIMIT for ListItem", "Export Item for ListItem", "Replace the element with <ListItem />"]
+    );
+    const source = applied(LIST, result);
+    assert.match(source, /^import Badge, \{ format as fmt \} from "\.\/badge";\nimport \{ ListItem \} from "\.\/ListItem";\n/);
+    assert.match(source, /\nexport const LIMIT = 3;\n/);
+    assert.match(source, /\nexport interface Item \{/);
+    assert.match(
+      source,
+      /<ListItem key=\{item\.id\} setOpen=\{setOpen\} open=\{open\} item=\{item\} title=\{title\} keyProp=\{key\} \/>/
+    );
+  });
+
+  it("leaves types out of JavaScript files", () => {
+    const result = plan("Card.jsx", JS_CARD, "<h2", "CardTitle");
+    assert.deepEqual(result.props, [{ name: "user", prop: "user", type: null }]);
+    assert.doesNotMatch(result.componentText, /interface|Props/);
+    assert.match(result.componentText, /export function CardTitle\(\{ user \}\) \{/);
+    assert.match(applied(JS_CARD, result), /<CardTitle user=\{user\} \/>/);
+  });
+
+  it("refuses positions that aren't on a JSX element", () => {
+    assert.throws(() => plan("List.tsx", LIST, "const LIMIT", "Nothing"));
+  });
+});
@@ -0,0 +1,43 @@
+import { strict as assert } from "assert";
+import * as http from "http";
+import * as net from "net";
+import { after, before, describe, it } from "node:test";
+import { HOST, readJsonBody } from "../src/core/http";
+
+describe("readJsonBody", () => {
+  let server: http.Server;
+  let port: number;
+  let bodies: Promise<unknown>[] = [];
+
+  before(async () => {
+    server = http.createServer((req, res) => {
+      const body = readJsonBody(req, res);
+      bodies.push(body);
+      void body.then((value) => value !== undefined && res.end("ok"));
+    });
+    await new Promise<void>((resolve) => server.listen(0, HOST, resolve));
+    port = (server.address() as net.AddressInfo).port;
+  });
+
+  after(() => {
+    server.close();
+  });
+
+  it("parses a complete body", async () => {
+    bodies = [];
+    const res = await fetch(`http://${HOST}:${port}/`, { method: "POST", body: '{"a":1}' });
+    assert.equal(await res.text(), "ok");
+    assert.deepEqual(await bodies[0], { a: 1 });
+  });
+
+  it("resolves undefined when the client goes away before the body ends", async () => {
+    bodies = [];
+    const socket = net.connect(port, HOST);
+    socket.write(`POST / HTTP/1.1\r\nHost: ${HOST}\r\nContent-Type: application/json\r\nContent-Length: 100\r\n\r\n{"a":`);
+    while (bodies.length === 0) {
+      await new Promise((resolve) => setTimeout(resolve, 10));
+    }
+    socket.destroy();
+    assert.equal(await bodies[0], undefined);
+  });
+});
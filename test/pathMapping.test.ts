@@ -0,0 +1,45 @@
+import { strict as assert } from "assert";
+import { describe, it } from "node:test";
+import { createPathMapper } from "../src/core/pathMapping";
+
+describe("createPathMapper", () => {
+  const map = createPathMapper({ roots: ["/home/me/app"] });
+
+  it("unwraps bundler URLs with the default presets", () => {
+    assert.equal(map("webpack-internal:///(app-pages-browser)/./src/app/page.tsx").path, "src/app/page.tsx");
+    assert.equal(map("webpack:///_N_E/./src/pages/index.tsx").path, "src/pages/index.tsx");
+    assert.equal(map("webpack://my-app/src/App.js").path, "src/App.js");
+    assert.equal(map("http://localhost:5173/src/App.tsx?t=1700000000").path, "src/App.tsx");
+  });
+
+  it("strips workspace roots before the generic presets", () => {
+    assert.deepEqual(map("/home/me/app/packages/ui/src/Button.tsx"), {
+      path: "packages/ui/src/Button.tsx",
+      isProject: true,
+    });
+    assert.equal(map("file:///home/me/app/src/My%20File.tsx").path, "src/My File.tsx");
+    assert.equal(map("/@fs/home/me/app/src/main.tsx").path, "src/main.tsx");
+  });
+
+  it("anchors other absolute and root-relative paths at src/", () => {
+    assert.equal(map("/usr/local/build/src/App.tsx").path, "src/App.tsx");
+    assert.equal(map("/src/App.tsx").path, "src/App.tsx");
+    assert.equal(map("C:/work/app/src/App.tsx").path, "src/App.tsx");
+  });
+
+  it("marks dependencies and paths outside the workspace as not project code", () => {
+    assert.equal(map("webpack-internal:///./node_modules/react-dom/index.js").isProject, false);
+    assert.equal(map("webpack-internal:///(app-pages-browser)/./node_modules/next/dist/client/app-index.js").isProject, false);
+    assert.deepEqual(map("/opt/lib/index.js"), { path: "opt/lib/index.js", isProject: false });
+  });
+
+  it("applies user rules before the presets and skips invalid ones", () => {
+    const custom = createPathMapper({
+      rules: [
+        { pattern: "(", replacement: "" },
+        { pattern: "^/srv/frontend/", replacement: "web/" },
+      ],
+    });
+    assert.equal(custom("/srv/frontend/src/App.tsx").path, "web/src/App.tsx");
+  });
+});
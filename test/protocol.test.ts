@@ -0,0 +1,28 @@
+import { strict as assert } from "assert";
+import { describe, it } from "node:test";
+import { frameSnippet, hashLine, MAX_CONTEXT_LINE } from "../browser-bridge/protocol";
+
+describe("frameSnippet", () => {
+  const long = `  <p className="intro">${"x".repeat(MAX_CONTEXT_LINE)}</p>`;
+
+  it("sends the window and the hash of the frame's line", () => {
+    const source = { startLine: 10, lines: ["function App() {", "  return (", "    <main>", "  );", "}"] };
+    assert.deepEqual(frameSnippet(12, source), { context: source, lineHash: hashLine("    <main>") });
+  });
+
+  it("hashes a long frame line whole and leaves the context out", () => {
+    const snippet = frameSnippet(11, { startLine: 10, lines: ["  return (", long, "  );"] });
+    assert.deepEqual(snippet, { lineHash: hashLine(long) });
+    assert.notEqual(snippet.lineHash, hashLine(long.slice(0, MAX_CONTEXT_LINE)));
+  });
+
+  it("narrows the window to the lines around the frame that fit", () => {
+    const snippet = frameSnippet(12, { startLine: 10, lines: [long, "  return (", "    <main>", "  );", long] });
+    assert.deepEqual(snippet.context, { startLine: 11, lines: ["  return (", "    <main>", "  );"] });
+    assert.equal(snippet.lineHash, hashLine("    <main>"));
+  });
+
+  it("sends nothing when the window doesn't cover the frame's line", () => {
+    assert.deepEqual(frameSnippet(20, { startLine: 10, lines: ["  return ("] }), {});
+  });
+});
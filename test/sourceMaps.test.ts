@@ -0,0 +1,86 @@
+import { strict as assert } from "assert";
+import * as fs from "fs";
+import * as os from "os";
+import * as path from "path";
+import { after, before, describe, it } from "node:test";
+import { isCompiledFrame, SourceMapResolver } from "../src/core/sourceMaps";
+import { Frame } from "../src/core/types";
+
+// Line 1: col 1 → App.tsx 1:1 "App", col 5 → 1:5 "render"; line 2: col 1 → 2:1 (negative column delta)
+const MAP = {
+  version: 3,
+  sourceRoot: "webpack://app/",
+  sources: ["./src/App.tsx"],
+  names: ["App", "render"],
+  mappings: "AAAAA,IAAIC;AACJ",
+};
+
+describe("SourceMapResolver", () => {
+  let root: string;
+  let resolver: SourceMapResolver;
+
+  before(() => {
+    root = fs.mkdtempSync(path.join(os.tmpdir(), "react-grab-maps-"));
+    fs.mkdirSync(path.join(root, "dist"));
+    fs.writeFileSync(path.join(root, "dist", "main.js"), "a();b();\nc();\n//# sourceMappingURL=main.js.map\n");
+    fs.writeFileSync(path.join(root, "dist", "main.js.map"), JSON.stringify(MAP));
+    const inline = Buffer.from(JSON.stringify(MAP)).toString("base64");
+    fs.writeFileSync(
+      path.join(root, "dist", "inline.js"),
+      `a();b();\nc();\n//# sourceMappingURL=data:application/json;charset=utf-8;base64,${inline}\n`
+    );
+    resolver = new SourceMapResolver({ roots: [root], buildDirs: ["dist"], fetchFromDevServer: false });
+  });
+
+  after(() => {
+    fs.rmSync(root, { recursive: true, force: true });
+  });
+
+  it("decodes segments to 1-based original positions", async () => {
+    const file = path.join(root, "dist", "main.js");
+    assert.deepEqual(await resolver.resolve(file, 1, 1), {
+      file: "webpack://app/./src/App.tsx",
+      line: 1,
+      col: 1,
+      name: "App",
+    });
+    assert.deepEqual(await resolver.resolve(file, 1, 7), {
+      file: "webpack://app/./src/App.tsx",
+      line: 1,
+      col: 5,
+      name: "render",
+    });
+    assert.deepEqual(await resolver.resolve(file, 2, 3), {
+      file: "webpack://app/./src/App.tsx",
+      line: 2,
+      col: 1,
+      name: null,
+    });
+    assert.equal(await resolver.resolve(file, 3, 1), null);
+  });
+
+  it("finds bundles served from a build directory, with inline maps", async () => {
+    const original = await resolver.resolve("http://localhost:3000/inline.js", 1, 5);
+    assert.equal(original?.line, 1);
+    assert.equal(original?.col, 5);
+    assert.equal(original?.name, "render");
+  });
+
+  it("maps only compiled frames and keeps the generated position", async () => {
+    const frames: Frame[] = [
+      { raw: "", name: null, file: "http://localhost:3000/dist/main.js", line: 1, col: 5 },
+      { raw: "", name: "Card", file: "src/Card.tsx", line: 3, col: 1 },
+    ];
+    const sel = await resolver.mapFrames({ frames });
+    assert.equal(sel.frames[0].name, "render");
+    assert.equal(sel.frames[0].file, "webpack://app/./src/App.tsx");
+    assert.deepEqual(sel.frames[0].generated, { file: "http://localhost:3000/dist/main.js", line: 1, col: 5 });
+    assert.equal(sel.frames[1].generated, undefined);
+  });
+
+  it("tells bundles from sources", () => {
+    assert.equal(isCompiledFrame("http://localhost:3000/_next/static/chunks/app/page.js"), true);
+    assert.equal(isCompiledFrame("/home/me/app/dist/main.js?v=2"), true);
+    assert.equal(isCompiledFrame("src/App.tsx"), false);
+  });
+});
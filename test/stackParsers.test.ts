@@ -0,0 +1,82 @@
+import { strict as assert } from "assert";
+import { describe, it } from "node:test";
+import { isStackLine, parseStack } from "../browser-bridge/stackParsers";
+
+describe("parseStack", () => {
+  it("reads React Grab copies", () => {
+    const parsed = parseStack(
+      ["@<button>", "", "  in Button (at /src/components/Button.tsx:12:5)", "  in App (at /src/App.tsx:8)"].join("\n")
+    );
+    assert.equal(parsed.domLabel, "button");
+    assert.deepEqual(parsed.formats, ["react"]);
+    assert.deepEqual(
+      parsed.frames.map((f) => [f.name, f.file, f.line, f.col]),
+      [
+        ["Button", "/src/components/Button.tsx", 12, 5],
+        ["App", "/src/App.tsx", 8, 1],
+      ]
+    );
+  });
+
+  it("reads V8 stacks and drops cache-busting queries", () => {
+    const parsed = parseStack(
+      [
+        "Error: boom",
+        "    at Object.render [as render] (http://localhost:5173/src/App.tsx?t=123:4:10)",
+        "    at async load (http://localhost:5173/src/load.ts:2:3)",
+        "    at http://localhost:5173/src/main.tsx:1:1",
+        "    at Array.map (<anonymous>)",
+      ].join("\n")
+    );
+    assert.deepEqual(parsed.formats, ["v8"]);
+    assert.deepEqual(
+      parsed.frames.map((f) => [f.name, f.file, f.line, f.col]),
+      [
+        ["Object.render", "http://localhost:5173/src/App.tsx", 4, 10],
+        ["load", "http://localhost:5173/src/load.ts", 2, 3],
+        [null, "http://localhost:5173/src/main.tsx", 1, 1],
+      ]
+    );
+  });
+
+  it("reads Firefox stacks and Next.js overlay copies", () => {
+    const gecko = parseStack("render@http://localhost:3000/src/App.jsx:3:7\n@http://localhost:3000/src/index.js:9:1");
+    assert.deepEqual(gecko.formats, ["gecko"]);
+    assert.deepEqual(gecko.frames.map((f) => f.name), ["render", null]);
+
+    const next = parseStack(["Home", "src/app/page.tsx (5:9)", "src/app/page.tsx (5:9)", "src/app/layout.tsx (2:3) @ RootLayout"].join("\n"));
+    assert.deepEqual(next.formats, ["next"]);
+    assert.deepEqual(
+      next.frames.map((f) => [f.name, f.file, f.line]),
+      [
+        ["Home", "src/app/page.tsx", 5],
+        ["RootLayout", "src/app/layout.tsx", 2],
+      ]
+    );
+  });
+
+  it("keeps location-less component stack lines as name-only frames", () => {
+    const v8 = parseStack(["    at li", "    at li", "    at ul", "    at App (http://localhost:3000/src/App.tsx:3:5)"].join("\n"));
+    assert.deepEqual(
+      v8.frames.map((f) => [f.name, f.file, f.line, f.col]),
+      [
+        ["li", "", 0, 0],
+        ["ul", "", 0, 0],
+        ["App", "http://localhost:3000/src/App.tsx", 3, 5],
+      ]
+    );
+
+    const react = parseStack(["    in li (created by App)", "    in App"].join("\n"));
+    assert.deepEqual(react.formats, ["react"]);
+    assert.deepEqual(react.frames.map((f) => [f.name, f.file]), [
+      ["li", ""],
+      ["App", ""],
+    ]);
+  });
+
+  it("recognizes stack lines", () => {
+    assert.equal(isStackLine("    in Foo (created by Bar)"), true);
+    assert.equal(isStackLine("src/app/page.tsx (5:9)"), true);
+    assert.equal(isStackLine("Error: boom"), false);
+  });
+});
@@ -0,0 +1,31 @@
+import { strict as assert } from "assert";
+import { describe, it } from "node:test";
+import { WrapperDetector } from "../src/core/wrappers";
+
+describe("WrapperDetector", () => {
+  const frame = (name: string | null, normalizedFile: string) => ({ name, normalizedFile });
+
+  it("matches the default path patterns on paths and the name patterns on names", () => {
+    const detector = new WrapperDetector(() => null);
+    assert.equal(detector.isWrapper(frame("ThemeProvider", "src/theme.tsx")), true);
+    assert.equal(detector.isWrapper(frame("AppErrorBoundary", "src/App.tsx")), true);
+    assert.equal(detector.isWrapper(frame("Store", "src/context/Store.tsx")), true);
+    assert.equal(detector.isWrapper(frame(null, "src/providers/index.tsx")), true);
+  });
+
+  it("doesn't match name patterns against paths", () => {
+    const detector = new WrapperDetector(() => null);
+    assert.equal(detector.isWrapper(frame("Fallback", "src/ErrorBoundary/Fallback.tsx")), false);
+    assert.equal(detector.isWrapper(frame("List", "src/ContextMenu/List.tsx")), false);
+    assert.equal(detector.isWrapper(frame(null, "src/ThemeProvider.tsx")), false);
+  });
+
+  it("applies custom patterns the same way, exclude first", () => {
+    const detector = new WrapperDetector(() => null);
+    detector.setOptions({ include: ["Layout$", "/layouts/"], exclude: ["^DashboardLayout$"], analyzeSource: false });
+    assert.equal(detector.isWrapper(frame("PageLayout", "src/Page.tsx")), true);
+    assert.equal(detector.isWrapper(frame("Header", "src/layouts/Header.tsx")), true);
+    assert.equal(detector.isWrapper(frame("DashboardLayout", "src/layouts/Dashboard.tsx")), false);
+    assert.equal(detector.isWrapper(frame("Sidebar", "src/Layout/Sidebar.tsx")), false);
+  });
+});